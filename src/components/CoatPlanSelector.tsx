@@ -0,0 +1,85 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { APPLICATION_METHODS, type ApplicationMethod, type CoatPlan } from '@/lib/calculationEngine';
+
+interface CoatPlanSelectorProps {
+  plan: Partial<CoatPlan>;
+  onPlanChange: (plan: Partial<CoatPlan>) => void;
+}
+
+const CoatPlanSelector: React.FC<CoatPlanSelectorProps> = ({ plan, onPlanChange }) => {
+  const update = (changes: Partial<CoatPlan>) => onPlanChange({ ...plan, ...changes });
+
+  // Empty inputs fall back to the engine defaults
+  const parseNumber = (value: string) => (value === '' ? undefined : Math.max(Number(value), 0));
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Coats</label>
+        <Select
+          value={String(plan.coats ?? 1)}
+          onValueChange={(value) => update({ coats: Number(value) as CoatPlan['coats'] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">1 coat</SelectItem>
+            <SelectItem value="2">2 coats</SelectItem>
+            <SelectItem value="3">3 coats</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Method</label>
+        <Select
+          value={plan.method ?? 'squeegee'}
+          onValueChange={(value) => update({ method: value as ApplicationMethod })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(APPLICATION_METHODS).map(([id, method]) => (
+              <SelectItem key={id} value={id}>
+                {method.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Water (%)</label>
+        <Input
+          type="number"
+          min={0}
+          step={5}
+          placeholder="0"
+          value={plan.dilutionRatio === undefined ? '' : Math.round(plan.dilutionRatio * 100)}
+          onChange={(e) => {
+            const percent = parseNumber(e.target.value);
+            update({ dilutionRatio: percent === undefined ? undefined : percent / 100 });
+          }}
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Sand (lbs/gal)</label>
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder="Region default"
+          value={plan.sandLbsPerGallon ?? ''}
+          onChange={(e) => update({ sandLbsPerGallon: parseNumber(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default CoatPlanSelector;
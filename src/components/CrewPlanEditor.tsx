@@ -0,0 +1,111 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { CREW_ROLE_LABELS, type CrewMember, type CrewPlan, type CrewRole, type OvertimePolicy } from '@/lib/laborScheduler';
+
+interface CrewPlanEditorProps {
+  plan: Partial<CrewPlan>;
+  defaultRate: number; // region hourly rate, used for the default crew and new members
+  onPlanChange: (plan: Partial<CrewPlan>) => void;
+}
+
+const CrewPlanEditor: React.FC<CrewPlanEditorProps> = ({ plan, defaultRate, onPlanChange }) => {
+  // Mirrors the engine's default crew until the first edit
+  const members: CrewMember[] = plan.members?.length
+    ? plan.members
+    : [
+        { role: 'lead', hourlyRate: defaultRate },
+        { role: 'helper', hourlyRate: defaultRate }
+      ];
+
+  const updateMember = (index: number, changes: Partial<CrewMember>) =>
+    onPlanChange({
+      ...plan,
+      members: members.map((member, i) => (i === index ? { ...member, ...changes } : member))
+    });
+
+  return (
+    <div className="space-y-3">
+      {members.map((member, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+          <Select value={member.role} onValueChange={(value) => updateMember(index, { role: value as CrewRole })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CREW_ROLE_LABELS).map(([id, label]) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            aria-label="Hourly rate"
+            value={member.hourlyRate}
+            onChange={(e) => updateMember(index, { hourlyRate: Math.max(Number(e.target.value), 0) })}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Remove crew member"
+            disabled={members.length === 1}
+            onClick={() => onPlanChange({ ...plan, members: members.filter((_, i) => i !== index) })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPlanChange({ ...plan, members: [...members, { role: 'helper', hourlyRate: defaultRate }] })}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Crew Member
+      </Button>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Long days</label>
+          <Select
+            value={plan.overtimePolicy ?? 'overtime'}
+            onValueChange={(value) => onPlanChange({ ...plan, overtimePolicy: value as OvertimePolicy })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="overtime">Work overtime</SelectItem>
+              <SelectItem value="extra-days">Add another day</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Drive (hrs/day)</label>
+          <Input
+            type="number"
+            min={0}
+            step={0.25}
+            placeholder="From distance"
+            value={plan.driveTimeHours ?? ''}
+            onChange={(e) =>
+              onPlanChange({
+                ...plan,
+                driveTimeHours: e.target.value === '' ? undefined : Math.max(Number(e.target.value), 0)
+              })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrewPlanEditor;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { EQUIPMENT_CATEGORY_LABELS, type EquipmentCategory, type EquipmentItem } from '@/lib/equipmentCatalog';
+
+interface EquipmentSelectorProps {
+  catalog: EquipmentItem[];
+  selectedIds: string[];
+  isCustom: boolean; // false while the engine picks the standard kit
+  onSelectionChange: (ids: string[] | undefined) => void;
+}
+
+const formatRate = (item: EquipmentItem) =>
+  `$${(item.ownershipCost + item.maintenanceReserve).toFixed(2)}/${item.costBasis}`;
+
+const EquipmentSelector: React.FC<EquipmentSelectorProps> = ({ catalog, selectedIds, isCustom, onSelectionChange }) => {
+  const toggle = (id: string, checked: boolean) =>
+    onSelectionChange(checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id));
+
+  const categories = (Object.keys(EQUIPMENT_CATEGORY_LABELS) as EquipmentCategory[])
+    .filter(category => catalog.some(item => item.category === category));
+
+  return (
+    <div className="space-y-3">
+      {categories.map(category => (
+        <div key={category} className="space-y-1">
+          <div className="text-xs text-muted-foreground">{EQUIPMENT_CATEGORY_LABELS[category]}</div>
+          {catalog.filter(item => item.category === category).map(item => (
+            <label key={item.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selectedIds.includes(item.id)}
+                onCheckedChange={(checked) => toggle(item.id, checked === true)}
+              />
+              <span className="flex-1">{item.name}</span>
+              <span className="text-xs text-muted-foreground">{formatRate(item)}</span>
+            </label>
+          ))}
+        </div>
+      ))}
+
+      {isCustom && (
+        <Button variant="ghost" size="sm" onClick={() => onSelectionChange(undefined)}>
+          Use standard equipment
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EquipmentSelector;
@@ -1,70 +1,264 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Square, Trash2 } from 'lucide-react';
+import { Check, MapPin, Ruler, ScanSearch, Square, SquareDashed, Spline, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parsePlanScale, type SitePlanImage } from '@/lib/sitePlan';
+import { aiService, type DetectedShape } from '@/lib/aiServices';
 
 interface Polygon {
   id: string;
-  area: number;
+  area: number; // gross, before holes
+  excludedArea: number;
+  perimeter?: number;
+  points: Array<{ x: number; y: number }>;
+  holes: Array<Array<{ x: number; y: number }>>; // islands, pads and buildings cut out
+}
+
+interface Crack {
+  id: string;
+  length: number;
   points: Array<{ x: number; y: number }>;
 }
 
 interface FallbackMapProps {
-  onPolygonComplete?: (area: number) => void;
+  onPolygonComplete?: (area: number, perimeter?: number, polygonId?: string) => void;
+  onExclusionComplete?: (polygonId: string, area: number) => void;
+  onCrackLengthChange?: (totalLength: number) => void;
+  onShapesCleared?: () => void;
   onAddressSelect?: (address: string) => void;
+  sitePlan?: SitePlanImage | null; // drawn on at a calibrated scale; points are in plan pixels
+  onSitePlanRemove?: () => void;
+  detectRequested?: boolean; // set to run surface detection on the plan
+  onDetectStart?: () => void;
 }
 
-const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressSelect }) => {
-  const [isDrawing, setIsDrawing] = useState(false);
+// Demo scale without a plan: 2 sq ft per square pixel
+const DEMO_FT_PER_PIXEL = Math.sqrt(2);
+
+// In pixels
+const pathLength = (points: Array<{ x: number; y: number }>, closed: boolean) => {
+  let length = 0;
+  const segments = closed ? points.length : points.length - 1;
+  for (let i = 0; i < segments; i++) {
+    const j = (i + 1) % points.length;
+    length += Math.hypot(points[j].x - points[i].x, points[j].y - points[i].y);
+  }
+  return length;
+};
+
+// Shoelace formula, in square pixels
+const pixelArea = (points: Array<{ x: number; y: number }>) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y;
+    area -= points[j].x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+};
+
+// Ray casting: count edge crossings to the right of the point
+const containsPoint = (points: Array<{ x: number; y: number }>, point: { x: number; y: number }) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    if ((points[i].y > point.y) !== (points[j].y > point.y) &&
+        point.x < ((points[j].x - points[i].x) * (point.y - points[i].y)) / (points[j].y - points[i].y) + points[i].x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const toPath = (points: Array<{ x: number; y: number }>) =>
+  `M ${points.map(p => `${p.x},${p.y}`).join(' L ')} Z`;
+
+const FallbackMap: React.FC<FallbackMapProps> = ({
+  onPolygonComplete,
+  onExclusionComplete,
+  onCrackLengthChange,
+  onShapesCleared,
+  onAddressSelect,
+  sitePlan,
+  onSitePlanRemove,
+  detectRequested = false,
+  onDetectStart
+}) => {
+  const [drawingMode, setDrawingMode] = useState<'polygon' | 'exclusion' | 'crack' | 'scale' | null>(null);
+  // A plan is measured once its scale is set, from a reference line or its printed scale
+  const [feetPerPixel, setFeetPerPixel] = useState<number | null>(sitePlan ? null : DEMO_FT_PER_PIXEL);
+  const [referenceLength, setReferenceLength] = useState('');
+  const [planScale, setPlanScale] = useState('');
   const [polygons, setPolygons] = useState<Polygon[]>([]);
+  const [cracks, setCracks] = useState<Crack[]>([]);
   const [currentPoints, setCurrentPoints] = useState<Array<{ x: number; y: number }>>([]);
   const [manualArea, setManualArea] = useState('');
+  const [manualCrackLength, setManualCrackLength] = useState('');
   const [address, setAddress] = useState('');
+  // Detected surfaces are suggestions until accepted as zones
+  const [suggestions, setSuggestions] = useState<DetectedShape[]>([]);
+  const [detecting, setDetecting] = useState(false);
+  const isDrawing = drawingMode !== null;
+  // Drawings can't be rescaled, so the scale is fixed once something is drawn on the plan
+  const hasDrawing = polygons.some(polygon => polygon.points.length > 0) || cracks.some(crack => crack.points.length > 0);
 
   const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!isDrawing) return;
+    if (drawingMode === 'scale' && currentPoints.length >= 2) return;
 
+    // Clicks land in screen pixels; the plan may be shown smaller or larger than it is
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const ratio = sitePlan ? sitePlan.width / rect.width : 1;
+    const x = (e.clientX - rect.left) * ratio;
+    const y = (e.clientY - rect.top) * ratio;
     
     const newPoint = { x, y };
     setCurrentPoints(prev => [...prev, newPoint]);
   };
 
+  const addPolygon = (points: Array<{ x: number; y: number }>, id = Date.now().toString()) => {
+    const sqFt = pixelArea(points) * feetPerPixel ** 2;
+    const perimeter = pathLength(points, true) * feetPerPixel;
+    
+    const newPolygon: Polygon = {
+      id,
+      area: sqFt,
+      excludedArea: 0,
+      perimeter,
+      points,
+      holes: []
+    };
+
+    setPolygons(prev => [...prev, newPolygon]);
+    onPolygonComplete?.(sqFt, perimeter, newPolygon.id);
+  };
+
   const completePolygon = () => {
     if (currentPoints.length < 3) return;
 
-    // Simple area calculation using shoelace formula (approximate)
-    let area = 0;
-    for (let i = 0; i < currentPoints.length; i++) {
-      const j = (i + 1) % currentPoints.length;
-      area += currentPoints[i].x * currentPoints[j].y;
-      area -= currentPoints[j].x * currentPoints[i].y;
+    addPolygon(currentPoints);
+    setCurrentPoints([]);
+    setDrawingMode(null);
+  };
+
+  const detectSurfaces = async () => {
+    if (!sitePlan || !feetPerPixel) {
+      toast.error('Set the plan scale before detecting surfaces');
+      return;
     }
-    area = Math.abs(area) / 2;
-    
-    // Convert pixels to approximate square feet (rough estimation)
-    const sqFt = area * 2; // 2 sq ft per pixel approximation
-    
-    const newPolygon: Polygon = {
+
+    setDetecting(true);
+    try {
+      const result = await aiService.analyzeImage(sitePlan.url, feetPerPixel);
+      setSuggestions(result.detectedShapes);
+    } catch (error) {
+      console.error('Surface detection failed:', error);
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  // Accepted surfaces become zones like any drawn area
+  const acceptSuggestions = (accepted: DetectedShape[]) => {
+    const batch = Date.now();
+    accepted.forEach((shape, index) =>
+      addPolygon(shape.coordinates.slice(0, -1).map(([x, y]) => ({ x, y })), `${batch}-${index}`)
+    );
+    setSuggestions(current => current.filter(shape => !accepted.includes(shape)));
+  };
+
+  // The header's AI Takeoff asks through a flag, cleared as detection starts
+  const startDetection = useRef<() => void>();
+  startDetection.current = () => {
+    onDetectStart?.();
+    detectSurfaces();
+  };
+  useEffect(() => {
+    if (detectRequested) startDetection.current();
+  }, [detectRequested]);
+
+  // An exclusion becomes a hole in the newest drawn polygon that holds all of its points
+  const completeExclusion = () => {
+    if (currentPoints.length < 3) return;
+
+    const target = [...polygons].reverse().find(polygon =>
+      polygon.points.length > 0 && currentPoints.every(point => containsPoint(polygon.points, point))
+    );
+    if (!target) {
+      toast.error('Draw exclusions inside a measured area');
+      return;
+    }
+
+    const sqFt = pixelArea(currentPoints) * feetPerPixel ** 2;
+    setPolygons(prev => prev.map(polygon =>
+      polygon.id === target.id
+        ? { ...polygon, excludedArea: polygon.excludedArea + sqFt, holes: [...polygon.holes, currentPoints] }
+        : polygon
+    ));
+    setCurrentPoints([]);
+    setDrawingMode(null);
+    onExclusionComplete?.(target.id, sqFt);
+  };
+
+  const addCrack = (crack: Crack) => {
+    const updated = [...cracks, crack];
+    setCracks(updated);
+    onCrackLengthChange?.(updated.reduce((sum, c) => sum + c.length, 0));
+  };
+
+  const completeCrack = () => {
+    if (currentPoints.length < 2) return;
+
+    addCrack({
       id: Date.now().toString(),
-      area: sqFt,
+      length: pathLength(currentPoints, false) * feetPerPixel,
       points: currentPoints
-    };
+    });
+    setCurrentPoints([]);
+    setDrawingMode(null);
+  };
 
-    setPolygons(prev => [...prev, newPolygon]);
+  // A dimensioned edge, parking stall or other line of known length on the plan
+  const applyReferenceLine = () => {
+    const feet = Number(referenceLength);
+    const pixels = currentPoints.length === 2 ? pathLength(currentPoints, false) : 0;
+    if (pixels === 0 || !(feet > 0)) {
+      toast.error('Draw the reference line and enter its length in feet');
+      return;
+    }
+
+    setFeetPerPixel(feet / pixels);
+    setSuggestions([]);
+    setReferenceLength('');
     setCurrentPoints([]);
-    setIsDrawing(false);
-    onPolygonComplete?.(sqFt);
+    setDrawingMode(null);
+    toast.success('Scale set from the reference line');
+  };
+
+  // The printed scale in feet per inch, over the file's pixels per inch
+  const applyPlanScale = () => {
+    const feetPerInch = parsePlanScale(planScale);
+    if (!feetPerInch || !sitePlan?.dpi) {
+      toast.error('Enter a plan scale like 1" = 20\' or 1:240');
+      return;
+    }
+
+    setFeetPerPixel(feetPerInch / sitePlan.dpi);
+    setSuggestions([]);
+    setPlanScale('');
+    toast.success(`Scale set to ${planScale.trim()}`);
   };
 
   const clearPolygons = () => {
     setPolygons([]);
+    setSuggestions([]);
+    setCracks([]);
     setCurrentPoints([]);
-    setIsDrawing(false);
+    setDrawingMode(null);
+    onCrackLengthChange?.(0);
+    onShapesCleared?.();
   };
 
   const addManualArea = () => {
@@ -74,12 +268,25 @@ const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressS
     const newPolygon: Polygon = {
       id: Date.now().toString(),
       area,
-      points: []
+      excludedArea: 0,
+      points: [],
+      holes: []
     };
 
     setPolygons(prev => [...prev, newPolygon]);
     setManualArea('');
-    onPolygonComplete?.(area);
+    onPolygonComplete?.(area, undefined, newPolygon.id);
+  };
+
+  const addManualCrackLength = () => {
+    if (!manualCrackLength || isNaN(Number(manualCrackLength))) return;
+
+    addCrack({
+      id: Date.now().toString(),
+      length: Number(manualCrackLength),
+      points: []
+    });
+    setManualCrackLength('');
   };
 
   const handleAddressSubmit = () => {
@@ -88,16 +295,132 @@ const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressS
     }
   };
 
-  const totalArea = polygons.reduce((sum, polygon) => sum + polygon.area, 0);
+  const totalArea = polygons.reduce((sum, polygon) => sum + polygon.area - polygon.excludedArea, 0);
+  const totalCrackLength = cracks.reduce((sum, crack) => sum + crack.length, 0);
+
+  // Plans draw in their own pixels, scaled to however wide the plan is shown
+  const svgProps = {
+    className: 'absolute inset-0 w-full h-full pointer-events-none',
+    viewBox: sitePlan ? `0 0 ${sitePlan.width} ${sitePlan.height}` : undefined
+  };
+  const pointPosition = (point: { x: number; y: number }) => sitePlan
+    ? { left: `${(point.x / sitePlan.width) * 100}%`, top: `${(point.y / sitePlan.height) * 100}%` }
+    : { left: point.x, top: point.y };
 
   return (
     <div className="w-full h-full flex flex-col">
       {/* Controls */}
       <Card className="mb-4">
         <CardHeader>
-          <CardTitle className="text-primary">Map Controls (Demo Mode)</CardTitle>
+          <CardTitle className="text-primary">
+            {sitePlan ? `Site Plan: ${sitePlan.name}` : 'Map Controls (Demo Mode)'}
+          </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          {sitePlan && (
+            <div className="space-y-2">
+              <div className="flex gap-2 items-center">
+                <Button
+                  onClick={() => {
+                    setCurrentPoints([]);
+                    setDrawingMode(drawingMode === 'scale' ? null : 'scale');
+                  }}
+                  variant={drawingMode === 'scale' ? 'destructive' : 'outline'}
+                  size="sm"
+                  disabled={hasDrawing}
+                >
+                  <Ruler className="h-4 w-4 mr-2" />
+                  {drawingMode === 'scale' ? 'Cancel Reference' : 'Draw Reference Line'}
+                </Button>
+                {drawingMode === 'scale' && currentPoints.length === 2 && (
+                  <>
+                    <Input
+                      placeholder="Length (ft)"
+                      value={referenceLength}
+                      onChange={(e) => setReferenceLength(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && applyReferenceLine()}
+                      type="number"
+                      className="w-32"
+                    />
+                    <Button onClick={applyReferenceLine} variant="secondary" size="sm">
+                      Set Scale
+                    </Button>
+                  </>
+                )}
+                <Button onClick={onSitePlanRemove} variant="outline" size="sm" className="ml-auto">
+                  <X className="h-4 w-4 mr-2" />
+                  Remove Plan
+                </Button>
+              </div>
+
+              {sitePlan.dpi ? (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder={'Plan scale, e.g. 1" = 20\' or 1:240'}
+                    value={planScale}
+                    onChange={(e) => setPlanScale(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && applyPlanScale()}
+                    disabled={hasDrawing}
+                  />
+                  <Button onClick={applyPlanScale} size="sm" disabled={hasDrawing}>
+                    Apply Scale
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  This file doesn't record its resolution, so set the scale with a reference line.
+                </p>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {hasDrawing
+                  ? 'Clear the drawing to change the scale.'
+                  : feetPerPixel
+                    ? 'Scale set. Draw areas, exclusions and cracks on the plan.'
+                    : 'Set the scale before measuring: draw a line of known length, or enter the printed plan scale.'}
+              </p>
+
+              <div className="flex gap-2 items-center">
+                <Button onClick={detectSurfaces} variant="outline" size="sm" disabled={!feetPerPixel || detecting}>
+                  <ScanSearch className="h-4 w-4 mr-2" />
+                  {detecting ? 'Detecting…' : 'Detect Paved Areas'}
+                </Button>
+                {suggestions.length > 1 && (
+                  <Button onClick={() => acceptSuggestions(suggestions)} variant="secondary" size="sm">
+                    <Check className="h-4 w-4 mr-2" />
+                    Accept All
+                  </Button>
+                )}
+              </div>
+              {detecting && (
+                <p className="text-xs text-muted-foreground">
+                  Runs on this device; the first run downloads the model, later runs use the cached copy.
+                </p>
+              )}
+              {suggestions.map((shape, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {shape.label ?? 'Surface'}: {Math.round(shape.area).toLocaleString()} sq ft
+                    <span className="text-muted-foreground"> • {Math.round(shape.confidence * 100)}% confidence</span>
+                  </span>
+                  <div className="flex gap-1">
+                    <Button onClick={() => acceptSuggestions([shape])} variant="ghost" size="sm" aria-label="Accept surface">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      onClick={() => setSuggestions(current => current.filter(other => other !== shape))}
+                      variant="ghost"
+                      size="sm"
+                      aria-label="Dismiss surface"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="flex gap-2">
             <Input
               placeholder="Enter address for demo..."
@@ -112,19 +435,61 @@ const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressS
           
           <div className="flex gap-2 items-center">
             <Button
-              onClick={() => setIsDrawing(!isDrawing)}
-              variant={isDrawing ? 'destructive' : 'default'}
+              onClick={() => {
+                setCurrentPoints([]);
+                setDrawingMode(drawingMode === 'polygon' ? null : 'polygon');
+              }}
+              variant={drawingMode === 'polygon' ? 'destructive' : 'default'}
               size="sm"
+              disabled={!feetPerPixel}
             >
               <Square className="h-4 w-4 mr-2" />
-              {isDrawing ? 'Cancel Drawing' : 'Start Drawing'}
+              {drawingMode === 'polygon' ? 'Cancel Drawing' : 'Start Drawing'}
+            </Button>
+
+            <Button
+              onClick={() => {
+                setCurrentPoints([]);
+                setDrawingMode(drawingMode === 'exclusion' ? null : 'exclusion');
+              }}
+              variant={drawingMode === 'exclusion' ? 'destructive' : 'outline'}
+              size="sm"
+              disabled={!feetPerPixel || !polygons.some(polygon => polygon.points.length > 0)}
+            >
+              <SquareDashed className="h-4 w-4 mr-2" />
+              {drawingMode === 'exclusion' ? 'Cancel Exclusion' : 'Exclude Area'}
+            </Button>
+
+            <Button
+              onClick={() => {
+                setCurrentPoints([]);
+                setDrawingMode(drawingMode === 'crack' ? null : 'crack');
+              }}
+              variant={drawingMode === 'crack' ? 'destructive' : 'outline'}
+              size="sm"
+              disabled={!feetPerPixel}
+            >
+              <Spline className="h-4 w-4 mr-2" />
+              {drawingMode === 'crack' ? 'Cancel Crack' : 'Draw Crack'}
             </Button>
             
-            {isDrawing && currentPoints.length >= 3 && (
+            {drawingMode === 'polygon' && currentPoints.length >= 3 && (
               <Button onClick={completePolygon} variant="secondary" size="sm">
                 Complete Polygon
               </Button>
             )}
+
+            {drawingMode === 'exclusion' && currentPoints.length >= 3 && (
+              <Button onClick={completeExclusion} variant="secondary" size="sm">
+                Complete Exclusion
+              </Button>
+            )}
+
+            {drawingMode === 'crack' && currentPoints.length >= 2 && (
+              <Button onClick={completeCrack} variant="secondary" size="sm">
+                Complete Crack
+              </Button>
+            )}
             
             <Button onClick={clearPolygons} variant="outline" size="sm">
               <Trash2 className="h-4 w-4" />
@@ -144,6 +509,18 @@ const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressS
             </Button>
           </div>
 
+          <div className="flex gap-2">
+            <Input
+              placeholder="Enter crack length manually (ft)"
+              value={manualCrackLength}
+              onChange={(e) => setManualCrackLength(e.target.value)}
+              type="number"
+            />
+            <Button onClick={addManualCrackLength} size="sm">
+              Add Cracks
+            </Button>
+          </div>
+
           <div className="flex gap-2">
             <Badge variant="secondary">
               Total Area: {totalArea.toLocaleString()} sq ft
@@ -151,66 +528,127 @@ const FallbackMap: React.FC<FallbackMapProps> = ({ onPolygonComplete, onAddressS
             <Badge variant="outline">
               Polygons: {polygons.length}
             </Badge>
+            <Badge variant="outline">
+              Cracks: {Math.round(totalCrackLength).toLocaleString()} ft
+            </Badge>
+            {sitePlan && (
+              <Badge variant={feetPerPixel ? 'outline' : 'destructive'}>
+                {feetPerPixel ? `Scale: ${(1 / feetPerPixel).toFixed(1)} px/ft` : 'Scale not set'}
+              </Badge>
+            )}
           </div>
         </CardContent>
       </Card>
 
-      {/* Map Area */}
+      {/* Map Area: the site plan at its own proportions, or the demo area */}
       <div 
-        className="flex-1 bg-muted border-2 border-dashed border-border rounded-lg relative overflow-hidden cursor-crosshair"
+        className={`${sitePlan ? 'w-full' : 'flex-1'} bg-muted border-2 border-dashed border-border rounded-lg relative overflow-hidden cursor-crosshair`}
         onClick={handleMapClick}
-        style={{ minHeight: '400px' }}
+        style={sitePlan ? { aspectRatio: `${sitePlan.width} / ${sitePlan.height}` } : { minHeight: '400px' }}
       >
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-center">
-            <h3 className="text-lg font-semibold text-muted-foreground mb-2">
-              Demo Map Area
-            </h3>
-            <p className="text-sm text-muted-foreground mb-4">
-              {isDrawing 
-                ? `Click to add points to your polygon (${currentPoints.length} points)`
-                : 'Click "Start Drawing" to begin measuring areas'
-              }
-            </p>
-            <p className="text-xs text-muted-foreground">
-              For full functionality, add your Google Maps API key
-            </p>
+        {sitePlan ? (
+          <img
+            src={sitePlan.url}
+            alt={sitePlan.name}
+            className="absolute inset-0 w-full h-full select-none"
+            draggable={false}
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <h3 className="text-lg font-semibold text-muted-foreground mb-2">
+                Demo Map Area
+              </h3>
+              <p className="text-sm text-muted-foreground mb-4">
+                {isDrawing 
+                  ? `Click to add points to your ${drawingMode === 'crack' ? 'crack line' : drawingMode === 'exclusion' ? 'exclusion, inside a measured area,' : 'polygon'} (${currentPoints.length} points)`
+                  : 'Click "Start Drawing" to begin measuring areas'
+                }
+              </p>
+              <p className="text-xs text-muted-foreground">
+                For full functionality, add your Google Maps API key
+              </p>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Draw current polygon points */}
         {currentPoints.map((point, index) => (
           <div
             key={index}
-            className="absolute w-2 h-2 bg-primary rounded-full"
-            style={{
-              left: point.x - 4,
-              top: point.y - 4,
-            }}
+            className="absolute w-2 h-2 bg-primary rounded-full -translate-x-1/2 -translate-y-1/2"
+            style={pointPosition(point)}
           />
         ))}
 
         {/* Draw polygon lines */}
         {currentPoints.length > 1 && (
-          <svg className="absolute inset-0 pointer-events-none">
+          <svg {...svgProps}>
             <polyline
               points={currentPoints.map(p => `${p.x},${p.y}`).join(' ')}
               fill="none"
-              stroke="hsl(var(--primary))"
+              stroke={drawingMode === 'polygon' ? 'hsl(var(--primary))' : 'hsl(var(--destructive))'}
               strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
             />
           </svg>
         )}
 
-        {/* Draw completed polygons */}
+        {/* Draw completed polygons, with exclusions as unfilled holes */}
         {polygons.map((polygon) => (
-          <svg key={polygon.id} className="absolute inset-0 pointer-events-none">
+          <svg key={polygon.id} {...svgProps}>
             {polygon.points.length > 0 && (
-              <polygon
-                points={polygon.points.map(p => `${p.x},${p.y}`).join(' ')}
+              <path
+                d={[polygon.points, ...polygon.holes].map(toPath).join(' ')}
+                fillRule="evenodd"
                 fill="hsl(var(--primary) / 0.3)"
                 stroke="hsl(var(--primary))"
                 strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {polygon.holes.map((hole, index) => (
+              <path
+                key={index}
+                d={toPath(hole)}
+                fill="none"
+                stroke="hsl(var(--destructive))"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+                strokeDasharray="4 2"
+              />
+            ))}
+          </svg>
+        ))}
+
+        {/* Detected surfaces waiting to be accepted */}
+        {suggestions.length > 0 && (
+          <svg {...svgProps}>
+            {suggestions.map((shape, index) => (
+              <polygon
+                key={index}
+                points={shape.coordinates.map(([x, y]) => `${x},${y}`).join(' ')}
+                fill="hsl(var(--accent) / 0.2)"
+                stroke="orange"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+                strokeDasharray="6 3"
+              />
+            ))}
+          </svg>
+        )}
+
+        {/* Draw completed crack lines */}
+        {cracks.map((crack) => (
+          <svg key={crack.id} {...svgProps}>
+            {crack.points.length > 1 && (
+              <polyline
+                points={crack.points.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke="hsl(var(--destructive))"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+                strokeDasharray="4 2"
               />
             )}
           </svg>
@@ -1,37 +1,133 @@
 /// <reference types="google.maps" />
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { MapPin, Satellite, Map, Layers } from 'lucide-react';
+import { MapPin, Satellite, Map, Layers, SquareDashed, Check, PencilLine, Undo2, Redo2, Upload, Spline } from 'lucide-react';
 import { mappingService, type MapInstance } from '@/lib/mappingServices';
 import { MappingServiceSelector } from '@/components/ui/mapping-service-selector';
+import { useKeyboardShortcuts } from '@/components/ui/keyboard-shortcuts';
+import type { EstimateZone } from '@/lib/estimateZones';
+import { FT_PER_M, SQ_FT_PER_SQ_M, type CrackLine } from '@/lib/measurementGeometry';
+import { readSiteFiles, SITE_IMPORT_ACCEPT, SiteImportError, type ImportedShape } from '@/lib/siteImport';
 import 'leaflet/dist/leaflet.css';
 
+// Outlines are [lng, lat] rings, kept on the zone so they can be saved and redrawn
 interface FallbackMapProps {
-  onPolygonComplete?: (area: number) => void;
+  onPolygonComplete?: (area: number, perimeter?: number, polygonId?: string, outline?: number[][]) => void;
+  onPolygonChange?: (polygonId: string, area: number, perimeter: number, outline: number[][]) => void;
+  onExclusionComplete?: (polygonId: string, area: number, outline?: number[][]) => void;
+  onCrackComplete?: (length: number, path: number[][]) => void; // linear feet
+  onShapesCleared?: () => void;
+  onShapesImported?: (shapes: ImportedShape[]) => void;
   onAddressSelect?: (address: string, coordinates: [number, number]) => void;
   clearTrigger?: number;
+  restoreZones?: EstimateZone[]; // redrawn in place of the current shapes when restoreTrigger or the map changes
+  restoreCracks?: CrackLine[];
+  restoreTrigger?: number;
 }
 
+type MapMode = 'idle' | 'polygon' | 'exclusion' | 'crack' | 'editing';
+
 const FallbackMap: React.FC<FallbackMapProps> = ({
   onPolygonComplete,
+  onPolygonChange,
+  onExclusionComplete,
+  onCrackComplete,
+  onShapesCleared,
+  onShapesImported,
   onAddressSelect,
-  clearTrigger = 0
+  clearTrigger = 0,
+  restoreZones = [],
+  restoreCracks = [],
+  restoreTrigger = 0
 }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [mapInstance, setMapInstance] = useState<MapInstance | null>(null);
   const [currentProvider, setCurrentProvider] = useState(mappingService.getActiveProvider().name);
+  const [mode, setMode] = useState<MapMode>('idle');
+
+  // Map callbacks are registered once per map, so they read the latest props through a ref
+  const callbacks = useRef({ onPolygonComplete, onPolygonChange, onExclusionComplete, onCrackComplete });
+  callbacks.current = { onPolygonComplete, onPolygonChange, onExclusionComplete, onCrackComplete };
+  // Ids handed out for each shape, by its index on the map
+  const shapeIds = useRef<string[]>([]);
+  // Redrawn zones already exist, so their shapes don't report as new
+  const restoring = useRef(false);
+  // Only a new restoreTrigger redraws; the zones themselves change with every edit
+  const zonesToRestore = useRef(restoreZones);
+  zonesToRestore.current = restoreZones;
+  const cracksToRestore = useRef(restoreCracks);
+  cracksToRestore.current = restoreCracks;
+
+  const attachHandlers = useCallback((map: MapInstance) => {
+    shapeIds.current = [];
+
+    map.onShapeComplete((area, type, coordinates, perimeter) => {
+      if (restoring.current) return;
+      const areaInSqFt = area * SQ_FT_PER_SQ_M;
+      const id = Date.now().toString();
+      shapeIds.current.push(id);
+      callbacks.current.onPolygonComplete?.(
+        areaInSqFt,
+        perimeter !== undefined ? perimeter * FT_PER_M : undefined,
+        id,
+        type === 'polygon' ? coordinates : undefined
+      );
+      setMode(current => (current === 'polygon' ? 'idle' : current));
+      toast.success(`${type.charAt(0).toUpperCase() + type.slice(1)} drawn: ${Math.round(areaInSqFt).toLocaleString()} sq ft`);
+    });
+
+    // Vertex edits report live, so the estimate follows the shape as it moves
+    map.onShapeChange((shapeIndex, area, perimeter, coordinates) => {
+      const id = shapeIds.current[shapeIndex];
+      if (id) callbacks.current.onPolygonChange?.(id, area * SQ_FT_PER_SQ_M, perimeter * FT_PER_M, coordinates);
+    });
+
+    map.onExclusionComplete((shapeIndex, excludedArea, netArea, coordinates) => {
+      const id = shapeIds.current[shapeIndex];
+      setMode(current => (current === 'exclusion' ? 'idle' : current));
+      if (id) callbacks.current.onExclusionComplete?.(id, excludedArea * SQ_FT_PER_SQ_M, coordinates);
+    });
+
+    map.onCrackComplete((length, coordinates) => {
+      if (restoring.current) return;
+      const lengthInFt = length * FT_PER_M;
+      setMode(current => (current === 'crack' ? 'idle' : current));
+      callbacks.current.onCrackComplete?.(lengthInFt, coordinates);
+      toast.success(`Crack drawn: ${Math.round(lengthInFt).toLocaleString()} ft`);
+    });
+  }, []);
 
   // Clear shapes when clearTrigger changes
   useEffect(() => {
     if (clearTrigger > 0 && mapInstance) {
       mapInstance.clearShapes();
+      shapeIds.current = [];
       toast.success('Map cleared');
     }
   }, [clearTrigger, mapInstance]);
 
+  // Redraw saved zones under their own ids, and saved cracks, and zoom to them.
+  // A new map (after switching views or providers) starts empty, so it gets them too.
+  useEffect(() => {
+    if (!mapInstance) return;
+    mapInstance.clearShapes();
+    shapeIds.current = [];
+
+    const drawn = zonesToRestore.current.filter(zone => zone.outline && zone.outline.length >= 3);
+    restoring.current = true;
+    drawn.forEach(zone => {
+      shapeIds.current.push(zone.id);
+      const holes = (zone.exclusions ?? []).filter(exclusion => exclusion.outline).map(exclusion => exclusion.outline);
+      mapInstance.addPolygon(zone.outline, holes);
+    });
+    cracksToRestore.current.forEach(crack => mapInstance.addCrack(crack.path));
+    restoring.current = false;
+    mapInstance.fitToShapes();
+  }, [restoreTrigger, mapInstance]);
+
   // Initialize map
   useEffect(() => {
     const initializeMap = async () => {
@@ -50,12 +146,7 @@ const FallbackMap: React.FC<FallbackMapProps> = ({
           zoom: defaultZoom
         });
 
-        // Set up shape completion handler
-        map.onShapeComplete((area, type, coordinates) => {
-          const areaInSqFt = area * 10.764; // Convert m² to sq ft
-          onPolygonComplete?.(areaInSqFt);
-          toast.success(`${type.charAt(0).toUpperCase() + type.slice(1)} drawn: ${areaInSqFt.toLocaleString()} sq ft`);
-        });
+        attachHandlers(map);
 
         setMapInstance(map);
         setIsLoading(false);
@@ -104,12 +195,8 @@ const FallbackMap: React.FC<FallbackMapProps> = ({
         zoom: defaultZoom
       });
 
-      // Set up shape completion handler
-      map.onShapeComplete((area, type, coordinates) => {
-        const areaInSqFt = area * 10.764; // Convert m² to sq ft
-        onPolygonComplete?.(areaInSqFt);
-        toast.success(`${type.charAt(0).toUpperCase() + type.slice(1)} drawn: ${areaInSqFt.toLocaleString()} sq ft`);
-      });
+      attachHandlers(map);
+      setMode('idle');
 
       setMapInstance(map);
       setCurrentProvider(mappingService.getActiveProvider().name);
@@ -140,32 +227,136 @@ const FallbackMap: React.FC<FallbackMapProps> = ({
     }
   };
 
-  const handleDrawingToggle = () => {
-    if (mapInstance) {
-      mapInstance.enableDrawing();
+  // One mode at a time: drawing a zone, an exclusion or a crack, or editing vertices
+  const changeMode = useCallback((next: MapMode) => {
+    if (!mapInstance) return;
+    if (mode === 'editing') mapInstance.disableEditing();
+    if (mode === 'polygon' || mode === 'exclusion' || mode === 'crack') mapInstance.disableDrawing();
+
+    if (next === 'polygon' || next === 'exclusion' || next === 'crack') mapInstance.enableDrawing(next);
+    if (next === 'editing') mapInstance.enableEditing();
+    setMode(next);
+  }, [mapInstance, mode]);
+
+  const toggleMode = (next: MapMode) => changeMode(mode === next ? 'idle' : next);
+
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Site plans are read locally; their polygons come back through restoreTrigger as zones
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const result = await readSiteFiles(files);
+      const skipped = Object.entries(result.unsupported).map(([type, count]) => `${count} ${type}`);
+      if (skipped.length > 0) {
+        toast.warning(`Skipped unsupported geometry: ${skipped.join(', ')}`);
+      }
+      onShapesImported?.(result.shapes);
+      toast.success(`Imported ${result.shapes.length} area${result.shapes.length === 1 ? '' : 's'} (${result.projection})`);
+    } catch (error) {
+      console.error('Site import failed:', error);
+      toast.error(error instanceof SiteImportError ? error.message : 'Failed to import site plan');
     }
   };
 
   const handleClearShapes = () => {
     if (mapInstance) {
       mapInstance.clearShapes();
+      shapeIds.current = [];
+      onShapesCleared?.();
       toast.success('All shapes cleared');
     }
   };
 
+  // Only while drawing or editing, so text fields keep their own undo
+  const shortcuts = useMemo(() => [
+    { key: 'z', ctrlKey: true, action: () => mapInstance?.undo(), description: 'Undo' },
+    { key: 'y', ctrlKey: true, action: () => mapInstance?.redo(), description: 'Redo' },
+    { key: 'z', ctrlKey: true, shiftKey: true, action: () => mapInstance?.redo(), description: 'Redo' },
+    { key: 'Enter', action: () => mapInstance?.finishDrawing(), description: 'Finish shape' },
+    { key: 'Escape', action: () => changeMode('idle'), description: 'Stop drawing or editing' }
+  ], [mapInstance, changeMode]);
+  useKeyboardShortcuts(shortcuts, mode !== 'idle');
+
   const getMapControls = () => (
     <div className="absolute top-4 left-4 z-10 space-y-2">
       <Card className="p-2">
         <div className="flex flex-col gap-2">
           <Button
             size="sm"
-            variant="outline"
-            onClick={handleDrawingToggle}
+            variant={mode === 'polygon' ? 'default' : 'outline'}
+            onClick={() => toggleMode('polygon')}
             className="flex items-center gap-2"
           >
             <Layers className="h-4 w-4" />
             Draw Area
           </Button>
+          <Button
+            size="sm"
+            variant={mode === 'exclusion' ? 'default' : 'outline'}
+            onClick={() => toggleMode('exclusion')}
+            className="flex items-center gap-2"
+          >
+            <SquareDashed className="h-4 w-4" />
+            Exclude Area
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === 'crack' ? 'default' : 'outline'}
+            onClick={() => toggleMode('crack')}
+            className="flex items-center gap-2"
+          >
+            <Spline className="h-4 w-4" />
+            Draw Crack
+          </Button>
+          {(mode === 'polygon' || mode === 'exclusion' || mode === 'crack') && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => mapInstance?.finishDrawing()}
+              className="flex items-center gap-2"
+            >
+              <Check className="h-4 w-4" />
+              Finish
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant={mode === 'editing' ? 'default' : 'outline'}
+            onClick={() => toggleMode('editing')}
+            className="flex items-center gap-2"
+          >
+            <PencilLine className="h-4 w-4" />
+            Edit Shapes
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Import Site Plan
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={SITE_IMPORT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={handleImport}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => mapInstance?.undo()} aria-label="Undo">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => mapInstance?.redo()} aria-label="Redo">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </div>
           <Button
             size="sm"
             variant="outline"
@@ -293,7 +484,7 @@ const FallbackMap: React.FC<FallbackMapProps> = ({
       
       {/* Instructions */}
       <div className="mt-2 text-sm text-gray-600 text-center">
-        Click the "Draw Area" button and then click on the map to draw shapes. Use the search bar to find specific locations.
+        Click "Draw Area", then click the map to add points and double-click to finish. "Edit Shapes" lets you drag, add and right-click to delete points.
       </div>
     </div>
   );
@@ -3,114 +3,34 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Download, FileText, FileSpreadsheet, Calculator, DollarSign } from 'lucide-react';
-import { ExportService } from '@/lib/exportUtils';
+import { AlertTriangle, Download, FileText, Globe, FileSpreadsheet, Calculator, DollarSign, History, Layers } from 'lucide-react';
+import { ExportService, type MeasurementFormat } from '@/lib/exportUtils';
+import type { CrackLine } from '@/lib/measurementGeometry';
+import { APPLICATION_METHODS, type DetailedEstimate, type MeasurementSource, type RepriceResult } from '@/lib/calculationEngine';
+import { REPAIR_METHODS } from '@/lib/repairCalculator';
+import { TRAVEL_SOURCE_LABELS } from '@/lib/travelCalculator';
+import type { PackageEstimate } from '@/lib/estimatePackages';
+import { netZoneArea, pavementCondition } from '@/lib/estimateZones';
 import { toast } from 'sonner';
 
-interface EstimateData {
-  area: number;
-  materials: {
-    sealer: { gallons: number; cost: number };
-    sand: { bags: number; cost: number };
-    fastDry: { buckets: number; cost: number };
-    prepSeal: { buckets: number; cost: number };
-    crackFiller: { boxes: number; cost: number };
-    propane: { tanks: number; cost: number };
-  };
-  labor: {
-    hours: number;
-    cost: number;
-  };
-  fuel: {
-    distance: number;
-    cost: number;
-  };
-  subtotal: number;
-  markup25: number;
-  roundedUp: number;
-  finalTotal: number;
-}
-
 interface MeasurementSidebarProps {
-  area: number;
-  jobType: 'driveway' | 'parking-lot';
-  address: string;
+  estimate: DetailedEstimate | null;
+  repricing?: RepriceResult | null;
+  packages?: PackageEstimate[]; // option packages to compare side by side
+  crackLines?: CrackLine[]; // cracks traced on the live map
   onExport: (format: 'pdf' | 'excel') => void;
 }
 
 const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
-  area,
-  jobType,
-  address,
+  estimate,
+  repricing,
+  packages,
+  crackLines = [],
   onExport
 }) => {
-  const calculateEstimate = (): EstimateData => {
-    // Enhanced material calculations based on provided formulas and environment variables
-    const laborRate = parseFloat(import.meta.env.VITE_DEFAULT_LABOR_RATE) || 12.00;
-    const fuelPrice = parseFloat(import.meta.env.VITE_DEFAULT_FUEL_PRICE) || 3.50;
-    const sealMasterDistance = parseFloat(import.meta.env.VITE_SEALMATER_DISTANCE) || 45;
-    const markupPercentage = parseFloat(import.meta.env.VITE_DEFAULT_MARKUP_PERCENTAGE) || 25;
-    
-    // Material calculations based on provided formulas
-    const sealerGallons = area * 0.13;
-    const sealerCost = sealerGallons * 3.65;
-    
-    const sandBags = Math.ceil(sealerGallons / 50);
-    const sandCost = sandBags * 10;
-    
-    const fastDryBuckets = Math.ceil(sealerGallons / 150);
-    const fastDryCost = fastDryBuckets * 50;
-    
-    const prepSealBuckets = 1; // Optional, assuming 1 bucket
-    const prepSealCost = prepSealBuckets * 50;
-    
-    // Assume perimeter for crack filler calculation (rough estimate)
-    const perimeter = Math.sqrt(area) * 4; // Square approximation
-    const crackFillerBoxes = Math.ceil(perimeter / 100);
-    const crackFillerCost = crackFillerBoxes * 44.99;
-    
-    const propaneTanks = Math.ceil(perimeter / 200);
-    const propaneCost = propaneTanks * 10;
-    
-    // Enhanced labor calculation with configurable rate
-    const laborHours = Math.ceil(area / 1000);
-    const laborCost = laborHours * laborRate;
-    
-    // Enhanced fuel calculation with configurable parameters
-    const roundTripDistance = sealMasterDistance * 2;
-    const fuelCost = (roundTripDistance / 8) * fuelPrice; // Using C30 truck
-    
-    const subtotal = sealerCost + sandCost + fastDryCost + prepSealCost + 
-                    crackFillerCost + propaneCost + laborCost + fuelCost;
-    
-    const markup25 = subtotal * (1 + markupPercentage / 100);
-    const roundedUp = Math.ceil(markup25 / 10) * 10;
-    const finalTotal = roundedUp * 1.25;
-    
-    return {
-      area,
-      materials: {
-        sealer: { gallons: sealerGallons, cost: sealerCost },
-        sand: { bags: sandBags, cost: sandCost },
-        fastDry: { buckets: fastDryBuckets, cost: fastDryCost },
-        prepSeal: { buckets: prepSealBuckets, cost: prepSealCost },
-        crackFiller: { boxes: crackFillerBoxes, cost: crackFillerCost },
-        propane: { tanks: propaneTanks, cost: propaneCost },
-      },
-      labor: { hours: laborHours, cost: laborCost },
-      fuel: { distance: roundTripDistance, cost: fuelCost },
-      subtotal,
-      markup25,
-      roundedUp,
-      finalTotal
-    };
-  };
-
-  const estimate = calculateEstimate();
-
   const handleExportPDF = async () => {
     try {
-      await ExportService.exportEstimatePDF(estimate, address, jobType);
+      await ExportService.exportEstimatePDF(estimate);
       onExport('pdf');
     } catch (error) {
       console.error('PDF export failed:', error);
@@ -118,9 +38,19 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
     }
   };
 
+  const handleExportOptionsPDF = async () => {
+    try {
+      await ExportService.exportOptionsPDF(packages ?? []);
+      onExport('pdf');
+    } catch (error) {
+      console.error('Options PDF export failed:', error);
+      toast.error('Failed to export options PDF');
+    }
+  };
+
   const handleExportExcel = async () => {
     try {
-      await ExportService.exportEstimateExcel(estimate, address, jobType);
+      await ExportService.exportEstimateExcel(estimate);
       onExport('excel');
     } catch (error) {
       console.error('Excel export failed:', error);
@@ -128,6 +58,10 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
     }
   };
 
+  const handleExportMeasurements = (format: MeasurementFormat) => {
+    ExportService.exportMeasurements(estimate, crackLines, format);
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -142,7 +76,31 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
     }).format(num);
   };
 
-  if (area === 0) {
+  const formatPercent = (rate: number) => `${formatNumber(rate * 100, 1)}%`;
+
+  // Rows of the option comparison, one column per package
+  const packageRows: { label: string; value: (option: PackageEstimate) => string }[] = [
+    { label: 'Coats', value: option => String(option.estimate.coatPlan.coats) },
+    { label: 'Crack fill', value: option => (option.package.crackFill ? 'Yes' : '—') },
+    { label: 'Striping', value: option => (option.estimate.striping ? formatCurrency(option.estimate.striping.totalCost) : '—') },
+    { label: 'Job cost', value: option => formatCurrency(option.estimate.pricing.subtotal) },
+    { label: 'Total', value: option => formatCurrency(option.estimate.pricing.finalTotal) },
+    { label: 'Per sq ft', value: option => formatCurrency(option.estimate.pricing.pricePerSqFt) },
+    { label: 'Margin', value: option => `${formatNumber(option.estimate.profitAnalysis.profitMargin, 1)}%` }
+  ];
+
+  const formatDelta = (amount: number) => `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+
+  const deltaClass = (amount: number) =>
+    amount > 0 ? 'text-destructive' : amount < 0 ? 'text-green-600' : 'text-muted-foreground';
+
+  const sourceLabels: Record<MeasurementSource, string> = {
+    measured: 'Measured',
+    perimeter: 'From perimeter',
+    approximated: 'Approximated'
+  };
+
+  if (!estimate) {
     return (
       <div className="w-80 border-l border-border p-4 bg-card">
         <Card>
@@ -162,6 +120,10 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
     );
   }
 
+  const { projectInfo, measurements, coatPlan, materials, labor, striping, repairs, expenses, pricing, profitAnalysis } = estimate;
+  // Estimates saved before zones existed have none; a single zone is the whole job
+  const zones = estimate.zones ?? [];
+
   return (
     <div className="w-80 border-l border-border p-4 bg-card space-y-4">
       {/* Area Summary */}
@@ -175,49 +137,193 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
         <CardContent>
           <div className="text-center">
             <div className="text-3xl font-bold text-primary">
-              {formatNumber(area, 0)}
+              {formatNumber(projectInfo.area, 0)}
             </div>
             <div className="text-sm text-muted-foreground">Square Feet</div>
-            <Badge variant="secondary" className="mt-2">
-              {jobType === 'driveway' ? 'Driveway' : 'Parking Lot'}
-            </Badge>
+            <div className="flex justify-center gap-2 mt-2">
+              <Badge variant="secondary">
+                {projectInfo.jobType === 'driveway' ? 'Driveway' : 'Parking Lot'}
+              </Badge>
+              <Badge variant="outline">{projectInfo.region}</Badge>
+            </div>
+          </div>
+          <div className="mt-4 space-y-2 text-sm">
+            {measurements.excludedArea > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span>Gross area</span>
+                  <span>{formatNumber(measurements.grossArea, 0)} sq ft</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Excluded</span>
+                  <span>−{formatNumber(measurements.excludedArea, 0)} sq ft</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Net area</span>
+                  <span>{formatNumber(projectInfo.area, 0)} sq ft</span>
+                </div>
+                <Separator />
+              </>
+            )}
+            <div className="flex justify-between items-center">
+              <span>Perimeter ({formatNumber(measurements.perimeter, 0)} ft)</span>
+              <Badge variant={measurements.perimeterSource === 'measured' ? 'secondary' : 'outline'}>
+                {sourceLabels[measurements.perimeterSource]}
+              </Badge>
+            </div>
+            <div className="flex justify-between items-center">
+              <span>Cracks ({formatNumber(measurements.crackLength, 0)} ft)</span>
+              <Badge variant={measurements.crackLengthSource === 'measured' ? 'secondary' : 'outline'}>
+                {sourceLabels[measurements.crackLengthSource]}
+              </Badge>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Per-Area Subtotals */}
+      {zones.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Areas
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {zones.map(({ zone, coatPlan: plan, subtotal, price }) => (
+              <div key={zone.id} className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">{zone.name}</span>
+                  <span className="font-medium">{formatCurrency(price)}</span>
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {formatNumber(netZoneArea(zone), 0)} sq ft • {zone.jobType === 'driveway' ? 'Driveway' : 'Parking Lot'} • {plan.coats} coat{plan.coats > 1 ? 's' : ''} • {pavementCondition(zone.condition).label}
+                  </span>
+                  <span>{formatCurrency(subtotal)} cost</span>
+                </div>
+              </div>
+            ))}
+            <div className="text-xs text-muted-foreground">
+              Cost is sealing materials and crew time; shared job costs are spread over the areas' prices
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Materials Breakdown */}
       <Card>
         <CardHeader>
           <CardTitle>Materials</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
+          <div className="text-xs text-muted-foreground">
+            {coatPlan.coats} coat{coatPlan.coats > 1 ? 's' : ''} • {APPLICATION_METHODS[coatPlan.method].label} • {formatPercent(coatPlan.dilutionRatio)} water • {formatNumber(coatPlan.sandLbsPerGallon, 1)} lbs sand/gal
+          </div>
           <div className="flex justify-between text-sm">
-            <span>Sealer ({formatNumber(estimate.materials.sealer.gallons, 1)} gal)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.sealer.cost)}</span>
+            <span>Sealer Concentrate ({formatNumber(materials.sealer.quantity, 1)} gal)</span>
+            <span className="font-medium">{formatCurrency(materials.sealer.totalCost)}</span>
           </div>
+          {materials.water.quantity > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Water ({formatNumber(materials.water.quantity, 1)} gal)</span>
+              <span className="font-medium">{formatCurrency(materials.water.totalCost)}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
-            <span>Sand ({estimate.materials.sand.bags} bags)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.sand.cost)}</span>
+            <span>Sand ({materials.sand.quantity} bags)</span>
+            <span className="font-medium">{formatCurrency(materials.sand.totalCost)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Fast Dry ({estimate.materials.fastDry.buckets} buckets)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.fastDry.cost)}</span>
+            <span>Fast Dry ({materials.fastDry.quantity} buckets)</span>
+            <span className="font-medium">{formatCurrency(materials.fastDry.totalCost)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Prep Seal ({estimate.materials.prepSeal.buckets} bucket)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.prepSeal.cost)}</span>
+            <span>Prep Seal ({materials.prepSeal.quantity} bucket)</span>
+            <span className="font-medium">{formatCurrency(materials.prepSeal.totalCost)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Crack Filler ({estimate.materials.crackFiller.boxes} boxes)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.crackFiller.cost)}</span>
+            <span>Crack Filler ({materials.crackFiller.quantity} boxes)</span>
+            <span className="font-medium">{formatCurrency(materials.crackFiller.totalCost)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Propane ({estimate.materials.propane.tanks} tanks)</span>
-            <span className="font-medium">{formatCurrency(estimate.materials.propane.cost)}</span>
+            <span>Propane ({materials.propane.quantity} tanks)</span>
+            <span className="font-medium">{formatCurrency(materials.propane.totalCost)}</span>
           </div>
         </CardContent>
       </Card>
 
+      {/* Striping & Markings */}
+      {striping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Striping & Markings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="text-xs text-muted-foreground">
+              {striping.plan.stalls} stalls at {striping.plan.stallLayout}° • {formatNumber(striping.stripeLinearFeet, 0)} ft of line
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>Line Paint ({striping.materials.paint.quantity} gal)</span>
+              <span className="font-medium">{formatCurrency(striping.materials.paint.totalCost)}</span>
+            </div>
+            {striping.materials.curbPaint.quantity > 0 && (
+              <div className="flex justify-between text-sm">
+                <span>Curb Paint ({striping.materials.curbPaint.quantity} gal)</span>
+                <span className="font-medium">{formatCurrency(striping.materials.curbPaint.totalCost)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span>Glass Beads ({striping.materials.beads.quantity} bags)</span>
+              <span className="font-medium">{formatCurrency(striping.materials.beads.totalCost)}</span>
+            </div>
+            {striping.materials.stencils.totalCost > 0 && (
+              <div className="flex justify-between text-sm">
+                <span>Stencils ({striping.plan.handicapSymbols} HC, {striping.plan.arrows} arrows)</span>
+                <span className="font-medium">{formatCurrency(striping.materials.stencils.totalCost)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span>Striping Labor ({formatNumber(striping.labor.hours, 1)} hrs)</span>
+              <span className="font-medium">{formatCurrency(striping.labor.totalCost)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between text-sm font-medium">
+              <span>Striping Total</span>
+              <span>{formatCurrency(striping.totalCost)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Repairs & Patching */}
+      {repairs && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Repairs & Patching</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {repairs.lines.map(line => (
+              <div key={line.item.id} className="text-sm">
+                <div className="flex justify-between">
+                  <span>{REPAIR_METHODS[line.item.method].label}</span>
+                  <span className="font-medium">{formatCurrency(line.totalCost)}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatNumber(line.item.area, 0)} sq ft × {formatNumber(line.item.depthInches, 1)}" • {formatNumber(line.tons, 2)} tons • {formatNumber(line.labor.hours, 1)} hrs
+                </div>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between text-sm font-medium">
+              <span>Repairs Total ({formatNumber(repairs.totalTons, 2)} tons)</span>
+              <span>{formatCurrency(repairs.totalCost)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Labor & Expenses */}
       <Card>
         <CardHeader>
@@ -225,13 +331,73 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="flex justify-between text-sm">
-            <span>Labor ({estimate.labor.hours} hrs)</span>
-            <span className="font-medium">{formatCurrency(estimate.labor.cost)}</span>
+            <span>Labor ({formatNumber(labor.hours, 1)} hrs)</span>
+            <span className="font-medium">{formatCurrency(labor.totalCost)}</span>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Crew of {labor.schedule.crew.length} • {labor.schedule.days.length} day{labor.schedule.days.length === 1 ? '' : 's'}
+            {labor.schedule.overtimeHours > 0 && ` • ${formatNumber(labor.schedule.overtimeHours, 1)} OT hrs`}
+            {' • '}{formatNumber(labor.schedule.driveHoursPerDay, 1)} hrs drive/day
+          </div>
+          {labor.schedule.days.length > 1 && (
+            <div className="space-y-1 text-xs">
+              {labor.schedule.days.map(day => (
+                <div key={day.day} className="flex justify-between">
+                  <span>Day {day.day}: {day.phases.join(', ')}</span>
+                  <span className="text-muted-foreground">
+                    {formatNumber(day.workHours, 1)} hrs{day.overtimeHours > 0 ? ` (+${formatNumber(day.overtimeHours, 1)} OT)` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <span>Fuel ({formatNumber(expenses.fuel.distance, 0)} miles)</span>
+            <span className="font-medium">{formatCurrency(expenses.fuel.totalCost)}</span>
+          </div>
+          {expenses.fuel.travel && (
+            <div className="text-xs text-muted-foreground">
+              {formatNumber(expenses.fuel.travel.roundTripMiles, 0)} mi/day • {TRAVEL_SOURCE_LABELS[expenses.fuel.travel.source]}
+              {expenses.fuel.travel.supplierPickupMiles > 0 && ` • +${formatNumber(expenses.fuel.travel.supplierPickupMiles, 0)} mi pickup`}
+              {' • '}{expenses.fuel.travel.vehicleName} at {formatNumber(expenses.fuel.travel.mpg, 1)} mpg
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <span>Mobilization ({expenses.mobilization.days} × {formatCurrency(expenses.mobilization.perDay)})</span>
+            <span className="font-medium">{formatCurrency(expenses.mobilization.totalCost)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Fuel ({estimate.fuel.distance} miles)</span>
-            <span className="font-medium">{formatCurrency(estimate.fuel.cost)}</span>
+            <span>Insurance ({formatPercent(expenses.insurance.rate)})</span>
+            <span className="font-medium">{formatCurrency(expenses.insurance.totalCost)}</span>
           </div>
+          <div className="flex justify-between text-sm">
+            <span>Equipment</span>
+            <span className="font-medium">{formatCurrency(expenses.equipment.totalCost)}</span>
+          </div>
+          <div className="space-y-1 text-xs">
+            {expenses.equipment.items.map(item => (
+              <div key={item.equipment.id} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {item.equipment.name} ({item.equipment.costBasis === 'hour'
+                    ? `${formatNumber(item.hours, 1)} hrs`
+                    : `${item.days} day${item.days === 1 ? '' : 's'}`})
+                </span>
+                <span>{formatCurrency(item.totalCost)}</span>
+              </div>
+            ))}
+            {expenses.equipment.smallTools > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Small tools</span>
+                <span>{formatCurrency(expenses.equipment.smallTools)}</span>
+              </div>
+            )}
+          </div>
+          {expenses.permits.totalCost > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Permits</span>
+              <span className="font-medium">{formatCurrency(expenses.permits.totalCost)}</span>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -246,31 +412,131 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
         <CardContent className="space-y-3">
           <div className="flex justify-between text-sm">
             <span>Subtotal</span>
-            <span>{formatCurrency(estimate.subtotal)}</span>
+            <span>{formatCurrency(pricing.subtotal)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>25% Markup</span>
-            <span>{formatCurrency(estimate.markup25 - estimate.subtotal)}</span>
+            <span>{pricing.mode === 'margin' ? 'Margin' : 'Markup'} ({formatPercent(pricing.markup)} of cost)</span>
+            <span>{formatCurrency(pricing.markupAmount)}</span>
           </div>
+          {pricing.discount?.appliesTo === 'price' && (
+            <div className="flex justify-between text-sm">
+              <span>Volume Discount ({formatPercent(pricing.discount.rate)})</span>
+              <span>−{formatCurrency(pricing.discount.amount)}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
-            <span>After Markup</span>
-            <span>{formatCurrency(estimate.markup25)}</span>
+            <span>Before Tax</span>
+            <span>{formatCurrency(pricing.beforeTax)}</span>
           </div>
           <div className="flex justify-between text-sm">
-            <span>Rounded Up</span>
-            <span>{formatCurrency(estimate.roundedUp)}</span>
+            <span>Tax ({pricing.tax.exemption ? 'exempt' : formatPercent(pricing.taxRate)})</span>
+            <span>{formatCurrency(pricing.taxAmount)}</span>
           </div>
+          <div className="text-xs text-muted-foreground">{pricing.tax.basis}</div>
           <Separator />
           <div className="flex justify-between font-bold text-lg">
             <span>Final Total</span>
-            <span className="text-green-600">{formatCurrency(estimate.finalTotal)}</span>
+            <span className="text-green-600">{formatCurrency(pricing.finalTotal)}</span>
           </div>
           <div className="text-xs text-muted-foreground text-center">
-            Price per sq ft: {formatCurrency(estimate.finalTotal / area)}
+            Price per sq ft: {formatCurrency(pricing.pricePerSqFt)} • Margin: {formatNumber(profitAnalysis.profitMargin, 1)}%
+            {typeof pricing.margin?.target === 'number' && ` (target ${formatPercent(pricing.margin.target)})`}
+          </div>
+          {pricing.margin?.belowFloor && (
+            <div className="flex items-center gap-2 rounded-md border border-destructive/50 p-2 text-xs text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Margin is below the {formatPercent(pricing.margin.floor ?? 0)} floor
+            </div>
+          )}
+          <Separator />
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Why this price</div>
+            <ul className="list-disc pl-4 space-y-1 text-xs text-muted-foreground">
+              {pricing.explanation.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ul>
           </div>
         </CardContent>
       </Card>
 
+      {/* Historical Re-pricing */}
+      {repricing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Re-priced Today
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+              <span>{repricing.originalAsOf.toLocaleDateString()}</span>
+              <span className="text-right">Today</span>
+              <span className="text-right">Change</span>
+            </div>
+            {repricing.lines
+              .filter(line => line.originalCost !== 0 || line.currentCost !== 0)
+              .map(line => (
+                <div key={line.key}>
+                  <div className="text-xs font-medium">{line.description}</div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <span>{formatCurrency(line.originalCost)}</span>
+                    <span className="text-right">{formatCurrency(line.currentCost)}</span>
+                    <span className={`text-right ${deltaClass(line.delta)}`}>{formatDelta(line.delta)}</span>
+                  </div>
+                </div>
+              ))}
+            <Separator />
+            <div className="grid grid-cols-3 gap-2 font-bold">
+              <span>{formatCurrency(repricing.totals.original)}</span>
+              <span className="text-right">{formatCurrency(repricing.totals.current)}</span>
+              <span className={`text-right ${deltaClass(repricing.totals.delta)}`}>{formatDelta(repricing.totals.delta)}</span>
+            </div>
+            <div className="text-xs text-muted-foreground text-center">
+              Total {repricing.totals.delta >= 0 ? 'up' : 'down'} {formatNumber(Math.abs(repricing.totals.deltaPercent), 1)}% at today's prices
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Option Packages */}
+      {packages && packages.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Compare Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="grid gap-2" style={{ gridTemplateColumns: `5rem repeat(${packages.length}, minmax(0, 1fr))` }}>
+              <span />
+              {packages.map(({ package: pkg }) => (
+                <div key={pkg.id} className="text-right">
+                  <div className="font-medium">{pkg.name}</div>
+                  <div className="text-xs text-muted-foreground">{pkg.description}</div>
+                </div>
+              ))}
+              {packageRows.map(row => (
+                <React.Fragment key={row.label}>
+                  <span className="text-xs text-muted-foreground">{row.label}</span>
+                  {packages.map(option => (
+                    <span key={option.package.id} className={`text-right ${row.label === 'Total' ? 'font-bold' : ''}`}>
+                      {row.value(option)}
+                    </span>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+            <Button onClick={handleExportOptionsPDF} className="w-full flex items-center gap-2" variant="outline">
+              <FileText className="h-4 w-4" />
+              Export Options Proposal
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Enhanced Export Options */}
       <Card>
         <CardHeader>
@@ -299,11 +565,30 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
           <div className="text-xs text-muted-foreground text-center">
             Professional estimates with detailed breakdown
           </div>
+          <Separator />
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Globe className="h-4 w-4" />
+            Site Measurements
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Button size="sm" variant="outline" onClick={() => handleExportMeasurements('geojson')}>
+              GeoJSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleExportMeasurements('kml')}>
+              KML
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleExportMeasurements('dxf')}>
+              DXF
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground text-center">
+            Zones, exclusions and cracks for Google Earth, GIS and CAD
+          </div>
         </CardContent>
       </Card>
 
       {/* Job Details */}
-      {address && (
+      {projectInfo.address && (
         <Card>
           <CardHeader>
             <CardTitle>Job Details</CardTitle>
@@ -312,11 +597,19 @@ const MeasurementSidebar: React.FC<MeasurementSidebarProps> = ({
             <div className="text-sm space-y-1">
               <div>
                 <span className="font-medium">Address:</span>
-                <div className="text-muted-foreground">{address}</div>
+                <div className="text-muted-foreground">{projectInfo.address}</div>
               </div>
               <div className="mt-2">
                 <span className="font-medium">Date:</span>
-                <div className="text-muted-foreground">{new Date().toLocaleDateString()}</div>
+                <div className="text-muted-foreground">{projectInfo.estimateDate.toLocaleDateString()}</div>
+              </div>
+              <div className="mt-2">
+                <span className="font-medium">Valid Until:</span>
+                <div className="text-muted-foreground">{projectInfo.validUntil.toLocaleDateString()}</div>
+              </div>
+              <div className="mt-2">
+                <span className="font-medium">Priced As Of:</span>
+                <div className="text-muted-foreground">{projectInfo.pricedAsOf.toLocaleDateString()}</div>
               </div>
             </div>
           </CardContent>
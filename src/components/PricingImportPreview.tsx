@@ -0,0 +1,115 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import type { PricingImportPreview as ImportPreview } from '@/lib/pricingSchema';
+
+interface PricingImportPreviewProps {
+  preview: ImportPreview | null;
+  isApplying: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const PricingImportPreview: React.FC<PricingImportPreviewProps> = ({ preview, isApplying, onApply, onCancel }) => {
+  const hasIssues = !!preview && preview.issues.length > 0;
+  const hasChanges = !!preview && (preview.changes.length > 0 || preview.newRegions.length > 0);
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{hasIssues ? 'Pricing file has errors' : 'Review pricing changes'}</DialogTitle>
+          <DialogDescription>
+            {hasIssues
+              ? 'Fix these fields and import the file again. Nothing has been changed.'
+              : 'These values will be saved as a new pricing version for each region.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96">
+          {hasIssues && (
+            <ul className="space-y-2">
+              {preview.issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                  <span>
+                    <code className="font-mono">{issue.path}</code>: {issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!hasIssues && preview && (
+            <div className="space-y-4">
+              {preview.newRegions.length > 0 && (
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                  <span>New regions:</span>
+                  {preview.newRegions.map(region => (
+                    <Badge key={region} variant="secondary">{preview.regions[region].region}</Badge>
+                  ))}
+                </div>
+              )}
+
+              {preview.changes.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Region</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">Imported</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map(change => (
+                      <TableRow key={`${change.region}.${change.path}`}>
+                        <TableCell>{preview.regions[change.region].region}</TableCell>
+                        <TableCell className="font-mono text-xs">{change.path}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{formatValue(change.before)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {!hasChanges && (
+                <p className="text-sm text-muted-foreground">The file matches the current pricing. Nothing to import.</p>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            {hasIssues ? 'Close' : 'Cancel'}
+          </Button>
+          {!hasIssues && (
+            <Button onClick={onApply} disabled={!hasChanges || isApplying}>
+              {isApplying ? 'Applying...' : 'Apply & Save'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PricingImportPreview;
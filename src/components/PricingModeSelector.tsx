@@ -0,0 +1,79 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_MARGIN_TARGET, ROUNDING_OPTIONS, type MarginTarget, type PricingMode } from '@/lib/marginPricing';
+
+interface PricingModeSelectorProps {
+  mode: PricingMode;
+  onModeChange: (mode: PricingMode) => void;
+}
+
+// Percent inputs edit fractions; whole numbers read better on screen
+const toPercent = (value: number) => Number((value * 100).toFixed(2));
+const fromPercent = (value: string) => Math.min(Math.max(Number(value), 0), 95) / 100;
+
+const PricingModeSelector: React.FC<PricingModeSelectorProps> = ({ mode, onModeChange }) => {
+  const target: MarginTarget = mode.type === 'margin' ? mode : DEFAULT_MARGIN_TARGET;
+  const update = (changes: Partial<MarginTarget>) => onModeChange({ type: 'margin', ...target, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={mode.type}
+        onValueChange={(value) => (value === 'margin' ? update({}) : onModeChange({ type: 'markup' }))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="markup">Customer tier markup</SelectItem>
+          <SelectItem value="margin">Target gross margin</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode.type === 'margin' && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Margin (%)</label>
+            <Input
+              type="number"
+              min={0}
+              max={95}
+              step={1}
+              value={toPercent(target.targetMargin)}
+              onChange={(e) => update({ targetMargin: fromPercent(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Floor (%)</label>
+            <Input
+              type="number"
+              min={0}
+              max={95}
+              step={1}
+              value={toPercent(target.marginFloor)}
+              onChange={(e) => update({ marginFloor: fromPercent(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Round up to</label>
+            <Select value={String(target.roundTo)} onValueChange={(value) => update({ roundTo: Number(value) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROUNDING_OPTIONS.map(step => (
+                  <SelectItem key={step} value={String(step)}>
+                    {step === 0 ? 'Exact' : `$${step}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingModeSelector;
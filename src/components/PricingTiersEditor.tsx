@@ -0,0 +1,140 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import type { CustomerType, DiscountTarget, PricingTier, PricingTiers, VolumeDiscount } from '@/lib/calculationEngine';
+
+interface PricingTiersEditorProps {
+  tiers: PricingTiers;
+  onTiersChange: (tiers: PricingTiers) => void;
+}
+
+const TIER_LABELS: Record<CustomerType, string> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  industrial: 'Industrial'
+};
+
+// Percent inputs show whole numbers; tiers store fractions
+const toPercent = (fraction: number) => Number((fraction * 100).toFixed(2));
+
+const PricingTiersEditor: React.FC<PricingTiersEditorProps> = ({ tiers, onTiersChange }) => {
+  const updateTier = (customerType: CustomerType, changes: Partial<PricingTier>) =>
+    onTiersChange({ ...tiers, [customerType]: { ...tiers[customerType], ...changes } });
+
+  const updateDiscount = (customerType: CustomerType, index: number, changes: Partial<VolumeDiscount>) =>
+    updateTier(customerType, {
+      volumeDiscounts: tiers[customerType].volumeDiscounts.map((discount, i) =>
+        i === index ? { ...discount, ...changes } : discount
+      )
+    });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {(Object.keys(TIER_LABELS) as CustomerType[]).map(customerType => {
+        const tier = tiers[customerType];
+        return (
+          <div key={customerType} className="space-y-3">
+            <h3 className="font-medium">{TIER_LABELS[customerType]}</h3>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">Markup (%)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={toPercent(tier.markup)}
+                  onChange={(e) => updateTier(customerType, { markup: Math.max(Number(e.target.value), 0) / 100 })}
+                />
+              </div>
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">Minimum ($)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={25}
+                  value={tier.minimumCharge}
+                  onChange={(e) => updateTier(customerType, { minimumCharge: Math.max(Number(e.target.value), 0) })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Volume discount applies to</label>
+              <Select
+                value={tier.discountAppliesTo}
+                onValueChange={(value) => updateTier(customerType, { discountAppliesTo: value as DiscountTarget })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="markup">Markup only</SelectItem>
+                  <SelectItem value="price">Price before tax</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>From (sq ft)</span>
+                <span>Discount (%)</span>
+                <span className="w-9" />
+              </div>
+              {tier.volumeDiscounts.map((discount, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    step={500}
+                    value={discount.threshold}
+                    onChange={(e) => updateDiscount(customerType, index, { threshold: Math.max(Number(e.target.value), 1) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={toPercent(discount.discount)}
+                    onChange={(e) =>
+                      updateDiscount(customerType, index, { discount: Math.min(Math.max(Number(e.target.value), 0), 100) / 100 })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove discount"
+                    onClick={() =>
+                      updateTier(customerType, {
+                        volumeDiscounts: tier.volumeDiscounts.filter((_, i) => i !== index)
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const largest = tier.volumeDiscounts.reduce((max, discount) => Math.max(max, discount.threshold), 0);
+                  updateTier(customerType, {
+                    volumeDiscounts: [...tier.volumeDiscounts, { threshold: largest + 5000, discount: 0.05 }]
+                  });
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Discount
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PricingTiersEditor;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, FilePlus, Save } from 'lucide-react';
+import type { DetailedEstimate } from '@/lib/calculationEngine';
+import { db, type EstimateRecord, type Project } from '@/lib/database';
+import type { EstimateZone } from '@/lib/estimateZones';
+import { zonesFromGeoJSON, type CrackLine } from '@/lib/measurementGeometry';
+import type { TaxExemption } from '@/lib/salesTax';
+import { useEstimateHistory, useProjects, useSaveEstimate } from '@/hooks/useProjects';
+
+interface ProjectPanelProps {
+  projectId: string | null;
+  estimate: DetailedEstimate | null;
+  zones: EstimateZone[];
+  cracks: CrackLine[];
+  taxExemption: TaxExemption | null;
+  onProjectOpen: (project: Project) => void;
+  onProjectSaved: (projectId: string) => void;
+  onVersionShow: (record: EstimateRecord) => void;
+  onNewProject: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projectId,
+  estimate,
+  zones,
+  cracks,
+  taxExemption,
+  onProjectOpen,
+  onProjectSaved,
+  onVersionShow,
+  onNewProject
+}) => {
+  const [projectName, setProjectName] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [notes, setNotes] = useState('');
+  const projects = useProjects();
+  const history = useEstimateHistory(projectId);
+  const saveEstimate = useSaveEstimate();
+
+  // The project row carries the latest saved measurements
+  const openProject = async (id: string) => {
+    try {
+      const project = await db.getProjectById(id);
+      if (project) onProjectOpen(project);
+    } catch (error) {
+      console.error('Project load failed:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!estimate) {
+      toast.error('Measure an area before saving');
+      return;
+    }
+    if (!projectId && (!projectName.trim() || !customerName.trim())) {
+      toast.error('Enter a project and customer name');
+      return;
+    }
+
+    try {
+      const record = await saveEstimate.mutateAsync({
+        projectId,
+        projectName: projectName.trim(),
+        customerName: customerName.trim(),
+        estimate,
+        zones,
+        cracks,
+        taxExemption,
+        notes: notes.trim() || undefined
+      });
+      setNotes('');
+      onProjectSaved(record.project_id);
+    } catch (error) {
+      console.error('Estimate save failed:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select value={projectId ?? ''} onValueChange={openProject}>
+        <SelectTrigger>
+          <SelectValue placeholder={projects.isLoading ? 'Loading projects…' : 'Open a saved project'} />
+        </SelectTrigger>
+        <SelectContent>
+          {(projects.data ?? []).map(project => (
+            <SelectItem key={project.id} value={project.id}>
+              {project.name} — {project.address}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!projectId && (
+        <>
+          <Input placeholder="Project name" value={projectName} onChange={(e) => setProjectName(e.target.value)} />
+          <Input placeholder="Customer name" value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+        </>
+      )}
+      <Input placeholder="Version notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1 flex items-center gap-2"
+          onClick={handleSave}
+          disabled={!estimate || saveEstimate.isPending}
+        >
+          <Save className="h-4 w-4" />
+          {projectId ? 'Save Version' : 'Save Project'}
+        </Button>
+        {projectId && (
+          <Button size="sm" variant="outline" className="flex items-center gap-2" onClick={onNewProject}>
+            <FilePlus className="h-4 w-4" />
+            New
+          </Button>
+        )}
+      </div>
+
+      {/* Each version keeps the geometry it was priced from */}
+      {history.data && history.data.length > 0 && (
+        <div className="space-y-1">
+          {history.data.map(record => (
+            <div key={record.id} className="flex items-center justify-between gap-2 text-xs">
+              <div>
+                <div className="font-medium">
+                  v{record.version} • {formatCurrency(record.estimate_data.pricing.finalTotal)}
+                  {record.is_current ? ' (current)' : ''}
+                </div>
+                <div className="text-muted-foreground">
+                  {record.created_at ? new Date(record.created_at).toLocaleDateString() : ''}
+                  {record.measurements ? ` • ${zonesFromGeoJSON(record.measurements).length} areas` : ' • no measurements'}
+                  {record.notes ? ` • ${record.notes}` : ''}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onVersionShow(record)}
+                disabled={!record.measurements}
+                aria-label={`Show version ${record.version} measurements`}
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
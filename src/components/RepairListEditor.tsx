@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { REPAIR_METHODS, type RepairItem, type RepairMethod } from '@/lib/repairCalculator';
+
+interface RepairListEditorProps {
+  repairs: RepairItem[];
+  onRepairsChange: (repairs: RepairItem[]) => void;
+}
+
+const RepairListEditor: React.FC<RepairListEditorProps> = ({ repairs, onRepairsChange }) => {
+  const addRepair = () => {
+    onRepairsChange([
+      ...repairs,
+      {
+        id: Date.now().toString(),
+        method: 'cold-patch',
+        area: 0,
+        depthInches: REPAIR_METHODS['cold-patch'].defaultDepthInches
+      }
+    ]);
+  };
+
+  const updateRepair = (id: string, changes: Partial<RepairItem>) => {
+    onRepairsChange(repairs.map(repair => (repair.id === id ? { ...repair, ...changes } : repair)));
+  };
+
+  const removeRepair = (id: string) => {
+    onRepairsChange(repairs.filter(repair => repair.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {repairs.map(repair => (
+        <div key={repair.id} className="space-y-2 rounded-md border border-border p-2">
+          <div className="flex gap-2">
+            <Select
+              value={repair.method}
+              onValueChange={(value) => {
+                const method = value as RepairMethod;
+                updateRepair(repair.id, { method, depthInches: REPAIR_METHODS[method].defaultDepthInches });
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REPAIR_METHODS).map(([id, method]) => (
+                  <SelectItem key={id} value={id}>
+                    {method.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={() => removeRepair(repair.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Area (sq ft)</label>
+              <Input
+                type="number"
+                min={0}
+                value={repair.area || ''}
+                onChange={(e) => updateRepair(repair.id, { area: Math.max(Number(e.target.value), 0) })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Depth (in)</label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={repair.depthInches || ''}
+                onChange={(e) => updateRepair(repair.id, { depthInches: Math.max(Number(e.target.value), 0) })}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="w-full flex items-center gap-2" onClick={addRepair}>
+        <Plus className="h-4 w-4" />
+        Add Repair
+      </Button>
+    </div>
+  );
+};
+
+export default RepairListEditor;
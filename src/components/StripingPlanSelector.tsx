@@ -0,0 +1,66 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { STALL_LAYOUT_LABELS, type StallLayout, type StripingPlan } from '@/lib/stripingCalculator';
+
+interface StripingPlanSelectorProps {
+  plan: Partial<StripingPlan>;
+  onPlanChange: (plan: Partial<StripingPlan>) => void;
+}
+
+type CountField = Exclude<keyof StripingPlan, 'stallLayout'>;
+
+const COUNT_FIELDS: { field: CountField; label: string }[] = [
+  { field: 'stalls', label: 'Stalls' },
+  { field: 'additionalLinearFeet', label: 'Other lines (ft)' },
+  { field: 'handicapSymbols', label: 'Handicap symbols' },
+  { field: 'arrows', label: 'Arrows' },
+  { field: 'stopBars', label: 'Stop bars' },
+  { field: 'curbLinearFeet', label: 'Curb paint (ft)' }
+];
+
+const StripingPlanSelector: React.FC<StripingPlanSelectorProps> = ({ plan, onPlanChange }) => {
+  const update = (changes: Partial<StripingPlan>) => onPlanChange({ ...plan, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Stall layout</label>
+        <Select
+          value={plan.stallLayout ?? '90'}
+          onValueChange={(value) => update({ stallLayout: value as StallLayout })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STALL_LAYOUT_LABELS).map(([id, label]) => (
+              <SelectItem key={id} value={id}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {COUNT_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label className="text-xs text-muted-foreground mb-1 block">{label}</label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="0"
+              value={plan[field] ?? ''}
+              onChange={(e) => update({
+                [field]: e.target.value === '' ? undefined : Math.max(Number(e.target.value), 0)
+              })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StripingPlanSelector;
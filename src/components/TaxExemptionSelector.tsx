@@ -0,0 +1,73 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TAX_EXEMPT_REASONS, isExemptionExpired, type TaxExemptReason, type TaxExemption } from '@/lib/salesTax';
+
+interface TaxExemptionSelectorProps {
+  exemption: TaxExemption | null;
+  onExemptionChange: (exemption: TaxExemption | null) => void;
+}
+
+const TaxExemptionSelector: React.FC<TaxExemptionSelectorProps> = ({ exemption, onExemptionChange }) => {
+  const update = (changes: Partial<TaxExemption>) =>
+    onExemptionChange({ reason: 'government', certificateNumber: '', ...exemption, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label htmlFor="tax-exempt" className="text-xs text-muted-foreground">Tax-exempt customer</label>
+        <Switch
+          id="tax-exempt"
+          checked={!!exemption}
+          onCheckedChange={(checked) => (checked ? update({}) : onExemptionChange(null))}
+        />
+      </div>
+
+      {exemption && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Reason</label>
+            <Select value={exemption.reason} onValueChange={(value) => update({ reason: value as TaxExemptReason })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TAX_EXEMPT_REASONS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Certificate #</label>
+            <Input
+              value={exemption.certificateNumber}
+              placeholder="Required"
+              onChange={(e) => update({ certificateNumber: e.target.value })}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="text-xs text-muted-foreground mb-1 block">Certificate expires</label>
+            <Input
+              type="date"
+              value={exemption.expiresOn ?? ''}
+              onChange={(e) => update({ expiresOn: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      {exemption && !exemption.certificateNumber.trim() && (
+        <p className="text-xs text-destructive">Tax is charged until a certificate number is entered</p>
+      )}
+      {exemption && exemption.certificateNumber.trim() && isExemptionExpired(exemption) && (
+        <p className="text-xs text-destructive">The certificate has expired; tax is charged until it is renewed</p>
+      )}
+    </div>
+  );
+};
+
+export default TaxExemptionSelector;
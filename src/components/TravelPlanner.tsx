@@ -0,0 +1,105 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FleetVehicle } from '@/lib/database';
+import { TRAVEL_SOURCE_LABELS, type TravelEstimate, type TravelPlan, type TravelSettings } from '@/lib/travelCalculator';
+
+type SiteStatus = 'idle' | 'locating' | 'located' | 'not-found';
+
+interface TravelPlannerProps {
+  plan: TravelPlan;
+  settings?: TravelSettings; // region yard and supplier
+  vehicles: FleetVehicle[];
+  siteStatus: SiteStatus;
+  travel?: TravelEstimate; // from the current estimate
+  onPlanChange: (plan: TravelPlan) => void;
+}
+
+const DEFAULT_TRUCK = 'default';
+
+const SITE_STATUS_LABELS: Record<SiteStatus, string> = {
+  idle: 'Enter the job address to price travel from the yard',
+  locating: 'Locating job site…',
+  located: 'Job site located',
+  'not-found': 'Address not found; using the fixed regional distance'
+};
+
+const TravelPlanner: React.FC<TravelPlannerProps> = ({ plan, settings, vehicles, siteStatus, travel, onPlanChange }) => {
+  const selectedVehicle = vehicles.find(vehicle => vehicle.name === plan.vehicleName);
+
+  const selectVehicle = (id: string) => {
+    const vehicle = vehicles.find(candidate => candidate.id === id);
+    onPlanChange({ ...plan, vehicleName: vehicle?.name, vehicleMpg: vehicle?.mpg ?? undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-muted-foreground">
+        {settings ? `From ${settings.yard.name} • ${SITE_STATUS_LABELS[siteStatus]}` : 'No yard set for this region; using the fixed distance'}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Truck</label>
+          <Select value={selectedVehicle?.id ?? DEFAULT_TRUCK} onValueChange={selectVehicle}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_TRUCK}>Region default mpg</SelectItem>
+              {vehicles.map(vehicle => (
+                <SelectItem key={vehicle.id} value={vehicle.id}>
+                  {vehicle.name} {vehicle.mpg ? `(${vehicle.mpg} mpg)` : '(no mpg set)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Route miles (one way)</label>
+          <Input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="From map"
+            value={plan.routeMiles ?? ''}
+            onChange={(e) =>
+              onPlanChange({
+                ...plan,
+                routeMiles: e.target.value === '' || Number(e.target.value) <= 0 ? undefined : Number(e.target.value)
+              })
+            }
+          />
+        </div>
+      </div>
+
+      {settings?.supplier && (
+        <div className="flex items-center justify-between">
+          <label htmlFor="supplier-pickup" className="text-xs text-muted-foreground">
+            Pick up materials at {settings.supplier.name}
+          </label>
+          <Switch
+            id="supplier-pickup"
+            checked={!!plan.supplierPickup}
+            onCheckedChange={(checked) => onPlanChange({ ...plan, supplierPickup: checked })}
+          />
+        </div>
+      )}
+
+      {travel && (
+        <div className="space-y-1 text-xs">
+          {travel.legs.map((leg, index) => (
+            <div key={index} className="flex justify-between">
+              <span>{leg.from} → {leg.to}</span>
+              <span className="text-muted-foreground">{leg.miles.toFixed(1)} mi</span>
+            </div>
+          ))}
+          <div className="text-muted-foreground">{TRAVEL_SOURCE_LABELS[travel.source]}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TravelPlanner;
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { SlidersHorizontal } from 'lucide-react';
+import type { DetailedEstimate } from '@/lib/calculationEngine';
+import {
+  analyzeSensitivity,
+  SENSITIVITY_VARIABLES,
+  type SensitivityPoint,
+  type SensitivityVariable
+} from '@/lib/sensitivityAnalysis';
+
+interface WhatIfPanelProps {
+  estimate: DetailedEstimate;
+}
+
+type Metric = 'finalTotal' | 'margin' | 'marginAtQuote';
+
+const METRIC_LABELS: Record<Metric, string> = {
+  finalTotal: 'Final total',
+  margin: 'Margin (re-priced)',
+  marginAtQuote: 'Margin at quoted price'
+};
+
+const RANGES = [0.05, 0.1, 0.2, 0.3];
+
+const SERIES_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#dc2626'];
+
+const TORNADO_CONFIG: ChartConfig = {
+  low: { label: 'Input lowered', color: '#2563eb' },
+  high: { label: 'Input raised', color: '#d97706' }
+};
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${Math.round(change * 100)}%`;
+
+const WhatIfPanel: React.FC<WhatIfPanelProps> = ({ estimate }) => {
+  const [variables, setVariables] = useState<SensitivityVariable[]>(['area', 'sealerPrice', 'laborHours']);
+  const [range, setRange] = useState(0.1);
+  const [metric, setMetric] = useState<Metric>('finalTotal');
+
+  const analysis = useMemo(
+    () => (variables.length > 0 ? analyzeSensitivity(estimate, variables, range) : null),
+    [estimate, variables, range]
+  );
+
+  const formatMetric = (value: number) => (metric === 'finalTotal' ? formatCurrency(value) : `${value.toFixed(1)}%`);
+  const valueOf = (point: SensitivityPoint) => point[metric];
+
+  // Tooltip rows keep the series name next to the formatted value
+  const tooltipFor = (config: ChartConfig) => (
+    <ChartTooltipContent
+      formatter={(value, name) => (
+        <div className="flex w-full justify-between gap-4">
+          <span className="text-muted-foreground">{config[String(name)]?.label ?? name}</span>
+          <span className="font-mono font-medium tabular-nums">{formatMetric(Number(value))}</span>
+        </div>
+      )}
+    />
+  );
+
+  const toggle = (variable: SensitivityVariable, checked: boolean) =>
+    setVariables(current =>
+      checked
+        ? (Object.keys(SENSITIVITY_VARIABLES) as SensitivityVariable[]).filter(key => key === variable || current.includes(key))
+        : current.filter(key => key !== variable)
+    );
+
+  // Tornado bars are the change from the base at each end of the range
+  const tornadoData = analysis?.tornado.map(bar => ({
+    label: bar.label,
+    low: valueOf(bar.low) - valueOf(analysis.base),
+    high: valueOf(bar.high) - valueOf(analysis.base)
+  }));
+
+  const lineConfig: ChartConfig = Object.fromEntries(
+    (analysis?.series ?? []).map((line, index) => [line.variable, { label: line.label, color: SERIES_COLORS[index % SERIES_COLORS.length] }])
+  );
+  const lineData = analysis?.series[0].points.map((point, index) => ({
+    change: formatChange(point.change),
+    ...Object.fromEntries(analysis.series.map(line => [line.variable, valueOf(line.points[index])]))
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          What-If Analysis
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          {(Object.entries(SENSITIVITY_VARIABLES) as [SensitivityVariable, string][]).map(([variable, label]) => (
+            <label key={variable} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={variables.includes(variable)}
+                onCheckedChange={(checked) => toggle(variable, checked === true)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Range</label>
+            <Select value={String(range)} onValueChange={(value) => setRange(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    ±{Math.round(option * 100)}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Show</label>
+            <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(METRIC_LABELS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {analysis ? (
+          <>
+            <div className="text-sm text-muted-foreground">
+              Base: {formatMetric(valueOf(analysis.base))}. Bars show the change at ±{Math.round(analysis.range * 100)}%,
+              largest first.
+            </div>
+
+            <ChartContainer config={TORNADO_CONFIG} className="aspect-auto h-56 w-full">
+              <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ left: 16, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickFormatter={formatMetric} />
+                <YAxis type="category" dataKey="label" width={90} />
+                <ReferenceLine x={0} stroke="#888" />
+                <ChartTooltip content={tooltipFor(TORNADO_CONFIG)} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="low" stackId="swing" fill="var(--color-low)" />
+                <Bar dataKey="high" stackId="swing" fill="var(--color-high)" />
+              </BarChart>
+            </ChartContainer>
+
+            <ChartContainer config={lineConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={lineData} margin={{ left: 16, right: 16 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="change" />
+                <YAxis tickFormatter={formatMetric} width={80} domain={['auto', 'auto']} />
+                <ChartTooltip content={tooltipFor(lineConfig)} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {analysis.series.map(line => (
+                  <Line
+                    key={line.variable}
+                    dataKey={line.variable}
+                    stroke={`var(--color-${line.variable})`}
+                    strokeWidth={2}
+                    strokeDasharray={line.variable === 'combined' ? '5 5' : undefined}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </>
+        ) : (
+          <div className="text-sm text-muted-foreground">Pick at least one input to vary</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WhatIfPanel;
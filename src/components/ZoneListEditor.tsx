@@ -0,0 +1,198 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { APPLICATION_METHODS, type ApplicationMethod, type CoatPlan } from '@/lib/calculationEngine';
+import {
+  addExclusion,
+  EXCLUSION_TYPES,
+  excludedZoneArea,
+  netZoneArea,
+  PAVEMENT_CONDITIONS,
+  type EstimateZone,
+  type ExclusionType,
+  type JobType,
+  type PavementCondition,
+  type ZoneExclusion
+} from '@/lib/estimateZones';
+
+interface ZoneListEditorProps {
+  zones: EstimateZone[];
+  onZonesChange: (zones: EstimateZone[]) => void;
+  onShapesRemoved?: () => void; // a removed zone or exclusion is still drawn on the map until it redraws
+}
+
+// Selects can't hold undefined, so this stands in for "use the job's coat plan"
+const JOB_PLAN = 'job';
+
+const ZoneListEditor: React.FC<ZoneListEditorProps> = ({ zones, onZonesChange, onShapesRemoved }) => {
+  const updateZone = (id: string, changes: Partial<EstimateZone>) => {
+    onZonesChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  // Cleared fields are dropped so the job's plan shows through
+  const updateCoatPlan = (zone: EstimateZone, changes: Partial<CoatPlan>) => {
+    const coatPlan = Object.fromEntries(
+      Object.entries({ ...zone.coatPlan, ...changes }).filter(([, value]) => value !== undefined)
+    ) as Partial<CoatPlan>;
+    updateZone(zone.id, { coatPlan });
+  };
+
+  const updateExclusion = (zone: EstimateZone, id: string, changes: Partial<ZoneExclusion>) => {
+    updateZone(zone.id, {
+      exclusions: zone.exclusions?.map(exclusion => (exclusion.id === id ? { ...exclusion, ...changes } : exclusion))
+    });
+  };
+
+  const removeExclusion = (zone: EstimateZone, id: string) => {
+    updateZone(zone.id, { exclusions: zone.exclusions?.filter(exclusion => exclusion.id !== id) });
+    onShapesRemoved?.();
+  };
+
+  const formatArea = (area: number) => `${Math.round(area).toLocaleString('en-US')} sq ft`;
+
+  const removeZone = (id: string) => {
+    onZonesChange(zones.filter(zone => zone.id !== id));
+    onShapesRemoved?.();
+  };
+
+  if (zones.length === 0) {
+    return <p className="text-xs text-muted-foreground">Each area drawn on the map is added here</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {zones.map(zone => (
+        <div key={zone.id} className="space-y-2 rounded-md border border-border p-2">
+          <div className="flex gap-2">
+            <Input value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} />
+            <Button variant="ghost" size="sm" onClick={() => removeZone(zone.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {excludedZoneArea(zone) > 0
+              ? `${formatArea(zone.area)} gross − ${formatArea(excludedZoneArea(zone))} excluded = ${formatArea(netZoneArea(zone))} net`
+              : formatArea(zone.area)}
+            {zone.perimeter ? ` • ${Math.round(zone.perimeter).toLocaleString('en-US')} ft perimeter` : ''}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Job type</label>
+              <Select value={zone.jobType} onValueChange={(value) => updateZone(zone.id, { jobType: value as JobType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="driveway">Driveway</SelectItem>
+                  <SelectItem value="parking-lot">Parking Lot</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Condition</label>
+              <Select
+                value={zone.condition}
+                onValueChange={(value) => updateZone(zone.id, { condition: value as PavementCondition })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAVEMENT_CONDITIONS).map(([id, condition]) => (
+                    <SelectItem key={id} value={id}>
+                      {condition.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Coats</label>
+              <Select
+                value={zone.coatPlan?.coats ? String(zone.coatPlan.coats) : JOB_PLAN}
+                onValueChange={(value) =>
+                  updateCoatPlan(zone, { coats: value === JOB_PLAN ? undefined : (Number(value) as CoatPlan['coats']) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={JOB_PLAN}>Job plan</SelectItem>
+                  <SelectItem value="1">1 coat</SelectItem>
+                  <SelectItem value="2">2 coats</SelectItem>
+                  <SelectItem value="3">3 coats</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">Method</label>
+              <Select
+                value={zone.coatPlan?.method ?? JOB_PLAN}
+                onValueChange={(value) =>
+                  updateCoatPlan(zone, { method: value === JOB_PLAN ? undefined : (value as ApplicationMethod) })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={JOB_PLAN}>Job plan</SelectItem>
+                  {Object.entries(APPLICATION_METHODS).map(([id, method]) => (
+                    <SelectItem key={id} value={id}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {zone.exclusions?.map(exclusion => (
+            <div key={exclusion.id} className="flex gap-2">
+              <Select
+                value={exclusion.type}
+                onValueChange={(value) => updateExclusion(zone, exclusion.id, { type: value as ExclusionType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXCLUSION_TYPES).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                className="w-28"
+                placeholder="sq ft"
+                value={exclusion.area || ''}
+                onChange={(e) => updateExclusion(zone, exclusion.id, { area: Math.max(Number(e.target.value), 0) })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => removeExclusion(zone, exclusion.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full flex items-center gap-2"
+            onClick={() => onZonesChange(zones.map(current => (current.id === zone.id ? addExclusion(current, 'island', 0) : current)))}
+          >
+            <Plus className="h-4 w-4" />
+            Add Exclusion
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ZoneListEditor;
@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { db } from "@/lib/database";
+import { mappingService } from "@/lib/mappingServices";
+import { useAuth } from "@/hooks/useAuth";
+
+export const useFleetVehicles = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["fleet-vehicles"],
+    queryFn: () => db.getFleetVehicles(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+// Locates the job address for travel pricing; the same address is only geocoded once
+export const useGeocodedSite = (address: string) => {
+  const trimmed = address.trim();
+
+  return useQuery({
+    queryKey: ["geocode", trimmed],
+    queryFn: () => mappingService.geocode(trimmed),
+    enabled: trimmed.length > 0,
+    staleTime: Infinity,
+    retry: false,
+  });
+};
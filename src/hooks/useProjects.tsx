@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { customerTaxExemption, db, taxExemptionColumns, type EstimateRecord, type Project } from "@/lib/database";
+import type { DetailedEstimate } from "@/lib/calculationEngine";
+import type { EstimateZone } from "@/lib/estimateZones";
+import type { TaxExemption } from "@/lib/salesTax";
+import { zonesToGeoJSON, type CrackLine } from "@/lib/measurementGeometry";
+import { useAuth } from "@/hooks/useAuth";
+
+export const PROJECTS_QUERY_KEY = ["projects"];
+
+interface SaveEstimateInput {
+  projectId: string | null; // null creates the customer and project first
+  projectName: string;
+  customerName: string;
+  estimate: DetailedEstimate;
+  zones: EstimateZone[];
+  cracks?: CrackLine[];
+  taxExemption?: TaxExemption | null; // kept on the customer so proposals and reopened projects see it
+  notes?: string;
+}
+
+export const useProjects = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: PROJECTS_QUERY_KEY,
+    queryFn: () => db.getProjects(),
+    enabled: !!user,
+  });
+};
+
+export const useEstimateHistory = (projectId: string | null) => {
+  return useQuery({
+    queryKey: [...PROJECTS_QUERY_KEY, "estimates", projectId],
+    queryFn: () => db.getEstimateHistory(projectId),
+    enabled: !!projectId,
+  });
+};
+
+// Every save is a new estimate version carrying the measurements it was priced from
+export const useSaveEstimate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ projectId, projectName, customerName, estimate, zones, cracks, taxExemption, notes }: SaveEstimateInput) => {
+      const { projectInfo, inputs } = estimate;
+      let project: Pick<Project, "id"> = { id: projectId };
+
+      if (!projectId) {
+        const customer = await db.createCustomer({
+          name: customerName,
+          address: projectInfo.address,
+          customer_type: inputs.customerType,
+          ...taxExemptionColumns(taxExemption),
+        });
+        project = await db.createProject({
+          customer_id: customer.id,
+          name: projectName,
+          address: projectInfo.address,
+          job_type: projectInfo.jobType,
+          area: projectInfo.area,
+          status: "draft",
+          region: inputs.region,
+          customer_type: inputs.customerType,
+        });
+      } else {
+        // A new version can change the exemption; the customer keeps the latest
+        const existing = await db.getProjectById(projectId);
+        const columns = taxExemptionColumns(taxExemption);
+        const current = taxExemptionColumns(customerTaxExemption(existing?.customer));
+        const changed = (Object.keys(columns) as (keyof typeof columns)[]).some(key => columns[key] !== current[key]);
+        if (existing?.customer_id && changed) {
+          await db.updateCustomer(existing.customer_id, columns);
+        }
+      }
+
+      return db.saveEstimate({
+        project_id: project.id,
+        estimate_data: estimate,
+        is_current: true,
+        notes,
+        measurements: zonesToGeoJSON(zones, cracks),
+      });
+    },
+    onSuccess: (record: EstimateRecord) => {
+      queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: [...PROJECTS_QUERY_KEY, "estimates", record.project_id] });
+    },
+  });
+};
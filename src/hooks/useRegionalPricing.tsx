@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { calculationEngine, type PriceBookEntry, type RegionalPricing } from "@/lib/calculationEngine";
+import { db, type RegionalPricingRecord } from "@/lib/database";
+import { useAuth } from "@/hooks/useAuth";
+
+export const REGIONAL_PRICING_QUERY_KEY = ["regional-pricing"];
+
+const NO_RECORDS: RegionalPricingRecord[] = [];
+
+interface SavePricingInput {
+  region: string;
+  pricing: RegionalPricing;
+  effectiveFrom?: Date;
+  notes?: string;
+}
+
+// Loads every saved pricing version into the engine's price books once per session.
+// `isReady` turns true once saved pricing is applied (or failed to load, leaving
+// the built-in defaults), so estimates can wait for it before calculating.
+export const useRegionalPricing = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: REGIONAL_PRICING_QUERY_KEY,
+    enabled: !!user,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const records = await db.getRegionalPricingVersions();
+      const books: Record<string, PriceBookEntry[]> = {};
+      for (const record of records) {
+        (books[record.region] ??= []).push({
+          effectiveFrom: new Date(record.effective_from),
+          pricing: record.pricing_data,
+        });
+      }
+      calculationEngine.loadPriceBooks(books);
+      return records;
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ region, pricing, effectiveFrom, notes }: SavePricingInput) =>
+      db.saveRegionalPricing(region, pricing, effectiveFrom, notes),
+    onSuccess: (record) => {
+      queryClient.invalidateQueries({ queryKey: REGIONAL_PRICING_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: [...REGIONAL_PRICING_QUERY_KEY, "history", record.region] });
+    },
+  });
+
+  // Imports go through the engine for parsing, then each region is saved as a new version
+  const importPricing = async (jsonData: string, effectiveFrom?: Date) => {
+    const regions = calculationEngine.importRegionalPricing(jsonData);
+    for (const region of regions) {
+      const pricing = calculationEngine.getRegionalPricing(region);
+      if (pricing) {
+        await saveMutation.mutateAsync({ region, pricing, effectiveFrom, notes: "Imported from JSON" });
+      }
+    }
+  };
+
+  return {
+    records: query.data ?? NO_RECORDS,
+    isReady: query.isSuccess || query.isError,
+    savePricing: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    importPricing,
+  };
+};
+
+export const useRegionalPricingHistory = (region: string) => {
+  return useQuery({
+    queryKey: [...REGIONAL_PRICING_QUERY_KEY, "history", region],
+    queryFn: () => db.getRegionalPricingHistory(region),
+    enabled: !!region,
+  });
+};
@@ -560,6 +560,9 @@ export type Database = {
           id: string
           name: string
           phone: string | null
+          tax_exempt_certificate: string | null
+          tax_exempt_expires_on: string | null
+          tax_exempt_reason: string | null
           updated_at: string | null
         }
         Insert: {
@@ -570,6 +573,9 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
+          tax_exempt_certificate?: string | null
+          tax_exempt_expires_on?: string | null
+          tax_exempt_reason?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -580,6 +586,9 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
+          tax_exempt_certificate?: string | null
+          tax_exempt_expires_on?: string | null
+          tax_exempt_reason?: string | null
           updated_at?: string | null
         }
         Relationships: []
@@ -1343,6 +1352,7 @@ export type Database = {
           id: string
           last_maintenance: string | null
           license_plate: string
+          mpg: number | null
           name: string
           next_maintenance: string | null
           odometer: number | null
@@ -1358,6 +1368,7 @@ export type Database = {
           id?: string
           last_maintenance?: string | null
           license_plate: string
+          mpg?: number | null
           name: string
           next_maintenance?: string | null
           odometer?: number | null
@@ -1373,6 +1384,7 @@ export type Database = {
           id?: string
           last_maintenance?: string | null
           license_plate?: string
+          mpg?: number | null
           name?: string
           next_maintenance?: string | null
           odometer?: number | null
@@ -2584,6 +2596,59 @@ export type Database = {
           },
         ]
       }
+      regional_pricing: {
+        Row: {
+          company_id: string | null
+          created_at: string | null
+          effective_from: string
+          id: string
+          is_active: boolean
+          notes: string | null
+          pricing_data: Json
+          region: string
+          state: string
+          updated_at: string | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          company_id?: string | null
+          created_at?: string | null
+          effective_from?: string
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          pricing_data: Json
+          region: string
+          state: string
+          updated_at?: string | null
+          user_id: string
+          version?: number
+        }
+        Update: {
+          company_id?: string | null
+          created_at?: string | null
+          effective_from?: string
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          pricing_data?: Json
+          region?: string
+          state?: string
+          updated_at?: string | null
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regional_pricing_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resource_allocations: {
         Row: {
           allocated_at: string | null
@@ -3379,6 +3444,7 @@ export type Database = {
       }
       user_profiles: {
         Row: {
+          company_id: string | null
           created_at: string | null
           email: string | null
           first_name: string | null
@@ -3390,6 +3456,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          company_id?: string | null
           created_at?: string | null
           email?: string | null
           first_name?: string | null
@@ -3401,6 +3468,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          company_id?: string | null
           created_at?: string | null
           email?: string | null
           first_name?: string | null
@@ -3411,7 +3479,15 @@ export type Database = {
           role?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -1,4 +1,7 @@
 import { toast } from 'sonner';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { segmentPavedSurfaces } from './surfaceSegmentation';
 
 // AI Service interfaces
 export interface ImageAnalysisResult {
@@ -10,9 +13,10 @@ export interface ImageAnalysisResult {
 
 export interface DetectedShape {
   type: 'rectangle' | 'polygon' | 'circle';
-  coordinates: number[][];
-  area: number;
+  coordinates: number[][]; // closed ring in image pixels
+  area: number; // sq ft; 0 when an image's scale isn't known
   confidence: number;
+  label?: string; // what the model saw, e.g. road or sidewalk
   boundingBox: {
     x: number;
     y: number;
@@ -45,6 +49,7 @@ export interface MarketTrend {
 }
 
 export interface SmartEstimate {
+  narrative: string; // plain-language summary for the customer
   baseEstimate: number;
   adjustedEstimate: number;
   adjustmentFactors: AdjustmentFactor[];
@@ -82,145 +87,124 @@ export interface LocationInsights {
   };
 }
 
-// Mock AI Service implementations (would connect to real AI APIs in production)
-export class AIImageAnalysisService {
-  private static instance: AIImageAnalysisService;
+export type JobType = 'driveway' | 'parking-lot';
 
-  static getInstance(): AIImageAnalysisService {
-    if (!this.instance) {
-      this.instance = new AIImageAnalysisService();
-    }
-    return this.instance;
-  }
-
-  async analyzeImage(imageFile: File): Promise<ImageAnalysisResult> {
-    toast.info('Analyzing image with AI...');
-    
-    // Simulate AI processing time
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Mock analysis results - in production, this would call a real AI service
-    const mockShapes: DetectedShape[] = [
-      {
-        type: 'rectangle',
-        coordinates: [
-          [-80.0170, 36.5951],
-          [-80.0160, 36.5951],
-          [-80.0160, 36.5941],
-          [-80.0170, 36.5941],
-          [-80.0170, 36.5951]
-        ],
-        area: 2500, // sq ft
-        confidence: 0.92,
-        boundingBox: { x: 100, y: 150, width: 200, height: 125 }
-      },
-      {
-        type: 'polygon',
-        coordinates: [
-          [-80.0175, 36.5945],
-          [-80.0165, 36.5948],
-          [-80.0168, 36.5940],
-          [-80.0175, 36.5942],
-          [-80.0175, 36.5945]
-        ],
-        area: 1800, // sq ft
-        confidence: 0.87,
-        boundingBox: { x: 50, y: 200, width: 150, height: 100 }
-      }
-    ];
+export interface EstimateFactors {
+  currentCondition?: 'excellent' | 'good' | 'fair' | 'poor';
+  accessibility?: 'easy' | 'moderate' | 'difficult';
+  timeline?: 'urgent' | 'normal' | 'flexible';
+}
 
-    const totalArea = mockShapes.reduce((sum, shape) => sum + shape.area, 0);
+// What a provider can do. Image analysis and location insights are optional; the
+// manager falls back to the local provider for image analysis.
+export interface AIProvider {
+  id: string;
+  name: string;
+  description: string;
+  analyzeImage?(image: Blob | string, feetPerPixel?: number): Promise<ImageAnalysisResult>;
+  predictPricing(area: number, location: [number, number], jobType: JobType, season?: string): Promise<PricePrediction>;
+  generateSmartEstimate(area: number, location: [number, number], jobType: JobType, factors?: EstimateFactors): Promise<SmartEstimate>;
+  getLocationInsights?(coordinates: [number, number]): Promise<LocationInsights>;
+}
 
-    toast.success('Image analysis complete!');
+export class AIProviderError extends Error {
+  providerId: string;
+  status?: number; // HTTP status, for remote providers
 
-    return {
-      detectedShapes: mockShapes,
-      suggestedArea: totalArea,
-      confidence: 0.89,
-      processingTime: 2000
-    };
+  constructor(providerId: string, message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.providerId = providerId;
+    this.status = status;
   }
+}
 
-  async detectAreaFromSatellite(coordinates: [number, number], radius: number): Promise<ImageAnalysisResult> {
-    toast.info('Analyzing satellite imagery...');
-    
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // Mock satellite analysis
-    const mockArea = Math.PI * radius * radius * 10.764; // Convert to sq ft
-
-    const mockShape: DetectedShape = {
-      type: 'circle',
-      coordinates: [[coordinates[1], coordinates[0]]], // lng, lat format
-      area: mockArea,
-      confidence: 0.94,
-      boundingBox: { x: 0, y: 0, width: radius * 2, height: radius * 2 }
-    };
+const SEASON_MULTIPLIERS: Record<string, number> = {
+  spring: 1.15,
+  summer: 1.25,
+  fall: 1.10,
+  winter: 0.85
+};
+
+const seasonOf = (date: Date) => {
+  const month = date.getMonth();
+  if (month >= 2 && month <= 4) return 'spring';
+  if (month >= 5 && month <= 7) return 'summer';
+  if (month >= 8 && month <= 10) return 'fall';
+  return 'winter';
+};
+
+// Closer to a large metro area costs more
+const URBAN_CENTERS = [
+  [37.7749, -122.4194], // San Francisco
+  [40.7128, -74.0060],  // New York
+  [34.0522, -118.2437], // Los Angeles
+];
+
+const locationMultiplier = ([lat, lng]: [number, number]) => {
+  const distance = Math.min(...URBAN_CENTERS.map(([centerLat, centerLng]) => Math.hypot(lat - centerLat, lng - centerLng)));
+  return Math.max(0.8, Math.min(1.4, 1.2 - distance * 0.1));
+};
+
+const CONDITION_MULTIPLIERS = { excellent: 0.95, good: 1.0, fair: 1.15, poor: 1.35 };
+const ACCESS_MULTIPLIERS = { easy: 0.95, moderate: 1.0, difficult: 1.25 };
+const TIMELINE_MULTIPLIERS = { urgent: 1.20, normal: 1.0, flexible: 0.92 };
+
+const formatDollars = (amount: number) => `$${Math.round(amount).toLocaleString('en-US')}`;
+
+// Rule-based provider that runs in the browser. The same inputs always give the same
+// results; the season comes from the clock unless one is passed. Images are segmented
+// on the device.
+export class LocalAIProvider implements AIProvider {
+  id = 'local';
+  name = 'Local rules';
+  description = 'Rules of thumb and on-device image segmentation; no data leaves the browser';
+  private now: () => Date;
+
+  // The clock can be fixed so seasonal pricing is reproducible
+  constructor(now: () => Date = () => new Date()) {
+    this.now = now;
+  }
 
-    toast.success('Satellite analysis complete!');
+  // Paved surfaces segmented from an aerial image or site plan photo. Areas need the
+  // image's scale in feet per pixel; confidence is the model's own pavement probability.
+  async analyzeImage(image: Blob | string, feetPerPixel?: number): Promise<ImageAnalysisResult> {
+    const started = performance.now();
+    const surfaces = await segmentPavedSurfaces(image);
+    const detectedShapes: DetectedShape[] = surfaces.map(surface => {
+      const xs = surface.outline.map(([x]) => x);
+      const ys = surface.outline.map(([, y]) => y);
+      const [x, y] = [Math.min(...xs), Math.min(...ys)];
+      return {
+        type: 'polygon',
+        coordinates: [...surface.outline, surface.outline[0]],
+        area: feetPerPixel ? surface.pixelArea * feetPerPixel ** 2 : 0,
+        confidence: surface.confidence,
+        label: surface.label,
+        boundingBox: { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+      };
+    });
 
+    const totalPixels = surfaces.reduce((sum, surface) => sum + surface.pixelArea, 0);
     return {
-      detectedShapes: [mockShape],
-      suggestedArea: mockArea,
-      confidence: 0.94,
-      processingTime: 1500
+      detectedShapes,
+      suggestedArea: detectedShapes.reduce((sum, shape) => sum + shape.area, 0),
+      // Weighted by size, so specks don't count as much as the lot itself
+      confidence: totalPixels > 0
+        ? surfaces.reduce((sum, surface) => sum + surface.confidence * surface.pixelArea, 0) / totalPixels
+        : 0,
+      processingTime: Math.round(performance.now() - started)
     };
   }
-}
-
-export class AIPricingService {
-  private static instance: AIPricingService;
-
-  static getInstance(): AIPricingService {
-    if (!this.instance) {
-      this.instance = new AIPricingService();
-    }
-    return this.instance;
-  }
 
-  async predictPricing(
-    area: number,
-    location: [number, number],
-    jobType: 'driveway' | 'parking-lot',
-    seasonality?: string
-  ): Promise<PricePrediction> {
-    toast.info('Analyzing market data and pricing trends...');
-
-    await new Promise(resolve => setTimeout(resolve, 1200));
-
-    // Mock AI pricing algorithm
+  async predictPricing(area: number, location: [number, number], jobType: JobType, season?: string): Promise<PricePrediction> {
     const baseRate = jobType === 'driveway' ? 0.25 : 0.22; // per sq ft
-    const seasonalMultiplier = this.getSeasonalMultiplier(seasonality);
-    const locationMultiplier = this.getLocationMultiplier(location);
-    
-    const predictedPrice = area * baseRate * seasonalMultiplier * locationMultiplier;
-    const variance = predictedPrice * 0.15; // 15% variance
-
-    const factors: PriceFactor[] = [
-      {
-        name: 'Seasonal Demand',
-        impact: seasonalMultiplier - 1,
-        description: `${seasonality || 'Current'} season affects pricing`
-      },
-      {
-        name: 'Location Premium',
-        impact: locationMultiplier - 1,
-        description: 'Local market conditions and competition'
-      },
-      {
-        name: 'Project Type',
-        impact: jobType === 'parking-lot' ? -0.1 : 0.1,
-        description: `${jobType} pricing adjustment`
-      }
-    ];
+    const currentSeason = season || seasonOf(this.now());
+    const seasonalMultiplier = SEASON_MULTIPLIERS[currentSeason] ?? 1.0;
+    const locationAdjustment = locationMultiplier(location);
 
-    const trends: MarketTrend[] = [
-      { period: 'Last 3 months', trend: 'increasing', percentage: 5.2 },
-      { period: 'Last 6 months', trend: 'stable', percentage: 1.1 },
-      { period: 'Last year', trend: 'increasing', percentage: 8.7 }
-    ];
-
-    toast.success('Pricing prediction complete!');
+    const predictedPrice = area * baseRate * seasonalMultiplier * locationAdjustment;
+    const variance = predictedPrice * 0.15;
 
     return {
       predictedPrice,
@@ -228,284 +212,406 @@ export class AIPricingService {
         min: predictedPrice - variance,
         max: predictedPrice + variance
       },
-      factors,
-      confidence: 0.85,
-      marketTrends: trends
-    };
-  }
-
-  private getSeasonalMultiplier(season?: string): number {
-    const seasonMap: Record<string, number> = {
-      'spring': 1.15,
-      'summer': 1.25,
-      'fall': 1.10,
-      'winter': 0.85
+      factors: [
+        {
+          name: 'Seasonal Demand',
+          impact: seasonalMultiplier - 1,
+          description: `${currentSeason} season affects pricing`
+        },
+        {
+          name: 'Location Premium',
+          impact: locationAdjustment - 1,
+          description: 'Distance from major metro markets'
+        },
+        {
+          name: 'Project Type',
+          impact: jobType === 'parking-lot' ? -0.1 : 0.1,
+          description: `${jobType} pricing adjustment`
+        }
+      ],
+      confidence: 0.5, // rules of thumb, not market data
+      marketTrends: [] // no market data locally
     };
-    
-    const currentSeason = season || this.getCurrentSeason();
-    return seasonMap[currentSeason] || 1.0;
-  }
-
-  private getCurrentSeason(): string {
-    const month = new Date().getMonth();
-    if (month >= 2 && month <= 4) return 'spring';
-    if (month >= 5 && month <= 7) return 'summer';
-    if (month >= 8 && month <= 10) return 'fall';
-    return 'winter';
-  }
-
-  private getLocationMultiplier(location: [number, number]): number {
-    // Mock location-based pricing (would use real market data)
-    const [lat, lng] = location;
-    
-    // Simple mock: urban areas (closer to certain coordinates) cost more
-    const urbanCenters = [
-      [37.7749, -122.4194], // San Francisco
-      [40.7128, -74.0060],  // New York
-      [34.0522, -118.2437], // Los Angeles
-    ];
-
-    let minDistance = Infinity;
-    urbanCenters.forEach(([centerLat, centerLng]) => {
-      const distance = Math.sqrt(Math.pow(lat - centerLat, 2) + Math.pow(lng - centerLng, 2));
-      minDistance = Math.min(minDistance, distance);
-    });
-
-    // Closer to urban centers = higher multiplier
-    return Math.max(0.8, Math.min(1.4, 1.2 - (minDistance * 0.1)));
-  }
-}
-
-export class AIEstimationService {
-  private static instance: AIEstimationService;
-
-  static getInstance(): AIEstimationService {
-    if (!this.instance) {
-      this.instance = new AIEstimationService();
-    }
-    return this.instance;
   }
 
   async generateSmartEstimate(
     area: number,
     location: [number, number],
-    jobType: 'driveway' | 'parking-lot',
-    additionalFactors?: {
-      currentCondition?: 'excellent' | 'good' | 'fair' | 'poor';
-      accessibility?: 'easy' | 'moderate' | 'difficult';
-      timeline?: 'urgent' | 'normal' | 'flexible';
-    }
+    jobType: JobType,
+    factors: EstimateFactors = {}
   ): Promise<SmartEstimate> {
-    toast.info('Generating smart estimate with AI...');
-
-    await new Promise(resolve => setTimeout(resolve, 1800));
-
-    // Base calculation
     const baseRate = jobType === 'driveway' ? 0.25 : 0.22;
     const baseEstimate = area * baseRate;
 
-    // AI adjustments
     const adjustmentFactors: AdjustmentFactor[] = [];
-    let totalMultiplier = 1.0;
-
-    // Condition adjustment
-    if (additionalFactors?.currentCondition) {
-      const conditionMultipliers = {
-        excellent: 0.95,
-        good: 1.0,
-        fair: 1.15,
-        poor: 1.35
-      };
-      const multiplier = conditionMultipliers[additionalFactors.currentCondition];
-      totalMultiplier *= multiplier;
+    if (factors.currentCondition) {
+      const multiplier = CONDITION_MULTIPLIERS[factors.currentCondition];
       adjustmentFactors.push({
         factor: 'Surface Condition',
         multiplier,
-        reason: `${additionalFactors.currentCondition} condition requires ${multiplier > 1 ? 'additional' : 'less'} preparation`
+        reason: `${factors.currentCondition} condition requires ${multiplier > 1 ? 'additional' : 'less'} preparation`
       });
     }
-
-    // Accessibility adjustment
-    if (additionalFactors?.accessibility) {
-      const accessMultipliers = {
-        easy: 0.95,
-        moderate: 1.0,
-        difficult: 1.25
-      };
-      const multiplier = accessMultipliers[additionalFactors.accessibility];
-      totalMultiplier *= multiplier;
+    if (factors.accessibility) {
       adjustmentFactors.push({
         factor: 'Site Accessibility',
-        multiplier,
-        reason: `${additionalFactors.accessibility} access affects equipment and labor costs`
+        multiplier: ACCESS_MULTIPLIERS[factors.accessibility],
+        reason: `${factors.accessibility} access affects equipment and labor costs`
       });
     }
-
-    // Timeline adjustment
-    if (additionalFactors?.timeline) {
-      const timelineMultipliers = {
-        urgent: 1.20,
-        normal: 1.0,
-        flexible: 0.92
-      };
-      const multiplier = timelineMultipliers[additionalFactors.timeline];
-      totalMultiplier *= multiplier;
+    if (factors.timeline) {
       adjustmentFactors.push({
         factor: 'Timeline Requirements',
-        multiplier,
-        reason: `${additionalFactors.timeline} timeline affects scheduling and resource allocation`
+        multiplier: TIMELINE_MULTIPLIERS[factors.timeline],
+        reason: `${factors.timeline} timeline affects scheduling and resource allocation`
       });
     }
+    const adjustedEstimate = adjustmentFactors.reduce((total, factor) => total * factor.multiplier, baseEstimate);
 
-    const adjustedEstimate = baseEstimate * totalMultiplier;
-
-    // Generate recommendations
     const recommendations: string[] = [
       'Consider scheduling during off-peak season for 10-15% savings',
       'Bulk material ordering can reduce costs by 5-8%',
       'Weather-dependent scheduling may offer flexibility discounts'
     ];
-
     if (area > 5000) {
       recommendations.push('Large project qualification may enable volume discounts');
     }
-
     if (jobType === 'parking-lot') {
       recommendations.push('Commercial project tax benefits may apply');
     }
 
-    // Risk assessment
     const riskFactors: string[] = [];
     const mitigations: string[] = [];
-
-    if (additionalFactors?.currentCondition === 'poor') {
+    if (factors.currentCondition === 'poor') {
       riskFactors.push('Significant prep work required');
       mitigations.push('Detailed site inspection recommended');
     }
-
-    if (additionalFactors?.accessibility === 'difficult') {
+    if (factors.accessibility === 'difficult') {
       riskFactors.push('Equipment access challenges');
       mitigations.push('Site visit for equipment planning');
     }
+    const level = riskFactors.length === 0 ? 'low' : riskFactors.length === 1 ? 'medium' : 'high';
 
-    const riskLevel = riskFactors.length === 0 ? 'low' : riskFactors.length === 1 ? 'medium' : 'high';
-
-    toast.success('Smart estimate generated!');
+    const adjustments = adjustmentFactors.map(factor => `${factor.factor.toLowerCase()} (x${factor.multiplier.toFixed(2)})`);
+    const narrative = [
+      `Sealcoating ${Math.round(area).toLocaleString('en-US')} sq ft of ${jobType === 'driveway' ? 'driveway' : 'parking lot'} starts at ${formatDollars(baseEstimate)}.`,
+      adjustments.length > 0
+        ? `Adjusted for ${adjustments.join(', ')}, the estimate is ${formatDollars(adjustedEstimate)}.`
+        : 'No site adjustments apply.',
+      `Overall risk is ${level}${riskFactors.length > 0 ? `: ${riskFactors.join('; ').toLowerCase()}` : ''}.`
+    ].join(' ');
 
     return {
+      narrative,
       baseEstimate,
       adjustedEstimate,
       adjustmentFactors,
       recommendations,
       riskAssessment: {
-        level: riskLevel,
+        level,
         factors: riskFactors,
         mitigation: mitigations
       }
     };
   }
+}
 
-  async getLocationInsights(coordinates: [number, number]): Promise<LocationInsights> {
-    toast.info('Gathering location insights...');
+export interface HttpProviderOptions {
+  id: string;
+  name: string;
+  baseUrl: string;
+  getAccessToken?: () => Promise<string | null | undefined>; // sent as a bearer token
+  timeoutMs?: number;
+}
 
-    await new Promise(resolve => setTimeout(resolve, 1000));
+// Responses are checked before use, so a provider that sends the wrong shape
+// fails its task instead of the screen that shows it
+const shapeSchema = z.object({
+  type: z.enum(['rectangle', 'polygon', 'circle']),
+  coordinates: z.array(z.array(z.number())),
+  area: z.number(),
+  confidence: z.number(),
+  label: z.string().optional(),
+  boundingBox: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+});
+
+const imageAnalysisSchema = z.object({
+  detectedShapes: z.array(shapeSchema),
+  suggestedArea: z.number(),
+  confidence: z.number(),
+  processingTime: z.number()
+});
+
+const pricePredictionSchema = z.object({
+  predictedPrice: z.number(),
+  priceRange: z.object({ min: z.number(), max: z.number() }),
+  factors: z.array(z.object({ name: z.string(), impact: z.number(), description: z.string() })),
+  confidence: z.number(),
+  marketTrends: z.array(z.object({
+    period: z.string(),
+    trend: z.enum(['increasing', 'decreasing', 'stable']),
+    percentage: z.number()
+  }))
+});
+
+const smartEstimateSchema = z.object({
+  narrative: z.string(),
+  baseEstimate: z.number(),
+  adjustedEstimate: z.number(),
+  adjustmentFactors: z.array(z.object({ factor: z.string(), multiplier: z.number(), reason: z.string() })),
+  recommendations: z.array(z.string()),
+  riskAssessment: z.object({
+    level: z.enum(['low', 'medium', 'high']),
+    factors: z.array(z.string()),
+    mitigation: z.array(z.string())
+  })
+});
+
+// A provider behind an HTTP API: images are POSTed as-is to /image-analysis (with
+// ?feetPerPixel= when known); pricing and estimates POST their arguments as JSON to
+// /price-prediction and /smart-estimate. Responses are the result types above.
+// The browser holds no provider key: the URL should be this business's own server
+// or function, which keeps the key and checks the signed-in user's token.
+export class HttpAIProvider implements AIProvider {
+  id: string;
+  name: string;
+  description: string;
+  private baseUrl: string;
+  private getAccessToken?: () => Promise<string | null | undefined>;
+  private timeoutMs: number;
+
+  constructor({ id, name, baseUrl, getAccessToken, timeoutMs = 30000 }: HttpProviderOptions) {
+    this.id = id;
+    this.name = name;
+    this.description = `Remote AI service at ${baseUrl}`;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.getAccessToken = getAccessToken;
+    this.timeoutMs = timeoutMs;
+  }
 
-    // Mock location data - would integrate with real APIs
-    const mockInsights: LocationInsights = {
-      demographics: {
-        averageIncome: 75000 + Math.random() * 50000,
-        propertyValues: 300000 + Math.random() * 400000,
-        competitionLevel: ['low', 'medium', 'high'][Math.floor(Math.random() * 3)] as 'low' | 'medium' | 'high'
-      },
-      weather: {
-        averageTemp: 15 + Math.random() * 20, // Celsius
-        rainfallMm: 800 + Math.random() * 400,
-        seasonalFactors: [
-          'Spring: High demand season',
-          'Summer: Peak working conditions',
-          'Fall: Pre-winter preparation rush',
-          'Winter: Limited working days'
-        ]
-      },
-      accessibility: {
-        trafficLevel: Math.floor(Math.random() * 10) + 1,
-        parkingAvailable: Math.random() > 0.3,
-        equipmentAccess: ['easy', 'moderate', 'difficult'][Math.floor(Math.random() * 3)] as 'easy' | 'moderate' | 'difficult'
+  private async request<T>(path: string, body: BodyInit, contentType: string, schema: z.ZodTypeAny): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const token = await this.getAccessToken?.();
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': contentType,
+          ...(token && { Authorization: `Bearer ${token}` })
+        },
+        body,
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new AIProviderError(this.id, `${this.name} returned ${response.status} for ${path}`, response.status);
       }
-    };
+      const result = schema.safeParse(await response.json());
+      if (!result.success) {
+        const fields = result.error.issues.map(issue => issue.path.join('.') || '(response)').join(', ');
+        throw new AIProviderError(this.id, `${this.name} sent an unexpected response for ${path} (${fields})`);
+      }
+      return result.data as T;
+    } catch (error) {
+      if (error instanceof AIProviderError) throw error;
+      const reason = controller.signal.aborted ? `timed out after ${this.timeoutMs} ms` : error.message;
+      throw new AIProviderError(this.id, `${this.name} ${path} failed: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async analyzeImage(image: Blob | string, feetPerPixel?: number): Promise<ImageAnalysisResult> {
+    const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+    const query = feetPerPixel ? `?feetPerPixel=${feetPerPixel}` : '';
+    return this.request<ImageAnalysisResult>(`/image-analysis${query}`, blob, blob.type || 'application/octet-stream', imageAnalysisSchema);
+  }
 
-    toast.success('Location insights loaded!');
+  async predictPricing(area: number, location: [number, number], jobType: JobType, season?: string): Promise<PricePrediction> {
+    return this.request<PricePrediction>('/price-prediction', JSON.stringify({ area, location, jobType, season }), 'application/json', pricePredictionSchema);
+  }
 
-    return mockInsights;
+  async generateSmartEstimate(area: number, location: [number, number], jobType: JobType, factors?: EstimateFactors): Promise<SmartEstimate> {
+    return this.request<SmartEstimate>('/smart-estimate', JSON.stringify({ area, location, jobType, factors }), 'application/json', smartEstimateSchema);
   }
 }
 
+export type AITask = 'imageAnalysis' | 'pricePrediction' | 'smartEstimate' | 'locationInsights';
+
+// How one part of a full analysis went, and which provider ran it
+export interface AITaskReport {
+  task: AITask;
+  providerId: string;
+  durationMs: number;
+  status: 'succeeded' | 'failed';
+  error?: string;
+}
+
+const TASK_LABELS: Record<AITask, string> = {
+  imageAnalysis: 'Image analysis',
+  pricePrediction: 'Price prediction',
+  smartEstimate: 'Smart estimate',
+  locationInsights: 'Location insights'
+};
+
 // Main AI Service Manager
 export class AIServiceManager {
-  private imageAnalysis: AIImageAnalysisService;
-  private pricing: AIPricingService;
-  private estimation: AIEstimationService;
+  private providers: Map<string, AIProvider> = new Map();
+  private activeProvider: string = 'local';
 
   constructor() {
-    this.imageAnalysis = AIImageAnalysisService.getInstance();
-    this.pricing = AIPricingService.getInstance();
-    this.estimation = AIEstimationService.getInstance();
+    this.registerProvider(new LocalAIProvider());
+
+    const url = import.meta.env.VITE_AI_PROVIDER_URL;
+    if (url) {
+      this.registerProvider(new HttpAIProvider({
+        id: 'http',
+        name: import.meta.env.VITE_AI_PROVIDER_NAME || 'Remote AI',
+        baseUrl: url,
+        getAccessToken: async () => (await supabase.auth.getSession()).data.session?.access_token
+      }));
+      this.activeProvider = 'http';
+    }
+  }
+
+  // Registering under an existing id replaces that provider
+  registerProvider(provider: AIProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  getProviders(): AIProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getProvider(id: string): AIProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  setActiveProvider(providerId: string): void {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+    this.activeProvider = providerId;
+    toast.success(`Switched AI provider to ${provider.name}`);
+  }
+
+  getActiveProvider(): AIProvider {
+    return this.providers.get(this.activeProvider)!;
+  }
+
+  private imageProvider(): AIProvider {
+    const provider = this.getActiveProvider();
+    return provider.analyzeImage ? provider : this.providers.get('local')!;
   }
 
-  getImageAnalysisService(): AIImageAnalysisService {
-    return this.imageAnalysis;
+  async analyzeImage(image: Blob | string, feetPerPixel?: number): Promise<ImageAnalysisResult> {
+    const provider = this.imageProvider();
+    toast.info('Detecting paved surfaces...');
+
+    try {
+      const result = await provider.analyzeImage(image, feetPerPixel);
+      const count = result.detectedShapes.length;
+      toast.success(count > 0 ? `Found ${count} paved surface${count === 1 ? '' : 's'}` : 'No paved surfaces found');
+      return result;
+    } catch (error) {
+      toast.error(`Surface detection failed with ${provider.name}`);
+      throw error;
+    }
   }
 
-  getPricingService(): AIPricingService {
-    return this.pricing;
+  async predictPricing(area: number, location: [number, number], jobType: JobType, season?: string): Promise<PricePrediction> {
+    const provider = this.getActiveProvider();
+    try {
+      return await provider.predictPricing(area, location, jobType, season);
+    } catch (error) {
+      toast.error(`Price prediction failed with ${provider.name}`);
+      throw error;
+    }
   }
 
-  getEstimationService(): AIEstimationService {
-    return this.estimation;
+  async generateSmartEstimate(
+    area: number,
+    location: [number, number],
+    jobType: JobType,
+    factors?: EstimateFactors
+  ): Promise<SmartEstimate> {
+    const provider = this.getActiveProvider();
+    try {
+      return await provider.generateSmartEstimate(area, location, jobType, factors);
+    } catch (error) {
+      toast.error(`Smart estimate failed with ${provider.name}`);
+      throw error;
+    }
   }
 
-  // Combined AI workflow
+  private async runTask<T>(task: AITask, provider: AIProvider, run: () => Promise<T>, reports: AITaskReport[]): Promise<T | undefined> {
+    const started = performance.now();
+    try {
+      const result = await run();
+      reports.push({ task, providerId: provider.id, durationMs: Math.round(performance.now() - started), status: 'succeeded' });
+      return result;
+    } catch (error) {
+      reports.push({
+        task,
+        providerId: provider.id,
+        durationMs: Math.round(performance.now() - started),
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  // Every part runs even when another fails; the reports say which provider ran
+  // each part, how long it took and why it failed
   async performFullAnalysis(params: {
-    imageFile?: File;
+    image?: Blob | string;
+    feetPerPixel?: number;
     area: number;
     location: [number, number];
-    jobType: 'driveway' | 'parking-lot';
-    additionalFactors?: any;
+    jobType: JobType;
+    additionalFactors?: EstimateFactors;
   }): Promise<{
     imageAnalysis?: ImageAnalysisResult;
-    pricePrediction: PricePrediction;
-    smartEstimate: SmartEstimate;
-    locationInsights: LocationInsights;
+    pricePrediction?: PricePrediction;
+    smartEstimate?: SmartEstimate;
+    locationInsights?: LocationInsights;
+    reports: AITaskReport[];
   }> {
-    toast.info('Running comprehensive AI analysis...');
-
-    try {
-      const promises: Promise<any>[] = [
-        this.pricing.predictPricing(params.area, params.location, params.jobType),
-        this.estimation.generateSmartEstimate(params.area, params.location, params.jobType, params.additionalFactors),
-        this.estimation.getLocationInsights(params.location)
-      ];
-
-      if (params.imageFile) {
-        promises.unshift(this.imageAnalysis.analyzeImage(params.imageFile));
-      }
-
-      const results = await Promise.all(promises);
-
+    const provider = this.getActiveProvider();
+    const imageProvider = this.imageProvider();
+    const reports: AITaskReport[] = [];
+
+    const [imageAnalysis, pricePrediction, smartEstimate, locationInsights] = await Promise.all([
+      params.image
+        ? this.runTask('imageAnalysis', imageProvider, () => imageProvider.analyzeImage(params.image, params.feetPerPixel), reports)
+        : undefined,
+      this.runTask('pricePrediction', provider, () => provider.predictPricing(params.area, params.location, params.jobType), reports),
+      this.runTask(
+        'smartEstimate',
+        provider,
+        () => provider.generateSmartEstimate(params.area, params.location, params.jobType, params.additionalFactors),
+        reports
+      ),
+      provider.getLocationInsights
+        ? this.runTask('locationInsights', provider, () => provider.getLocationInsights(params.location), reports)
+        : undefined
+    ]);
+
+    const failed = reports.filter(report => report.status === 'failed');
+    if (failed.length === reports.length) {
+      toast.error(`AI analysis failed: ${failed.map(report => `${TASK_LABELS[report.task]} (${report.error})`).join('; ')}`);
+    } else if (failed.length > 0) {
+      toast.warning(`Partial AI analysis: ${failed.map(report => `${TASK_LABELS[report.task]} failed with ${this.providers.get(report.providerId)?.name ?? report.providerId}`).join('; ')}`);
+    } else {
       toast.success('AI analysis complete!');
-
-      return {
-        imageAnalysis: params.imageFile ? results[0] : undefined,
-        pricePrediction: params.imageFile ? results[1] : results[0],
-        smartEstimate: params.imageFile ? results[2] : results[1],
-        locationInsights: params.imageFile ? results[3] : results[2]
-      };
-    } catch (error) {
-      toast.error('AI analysis failed');
-      throw error;
     }
+
+    return { imageAnalysis, pricePrediction, smartEstimate, locationInsights, reports };
   }
 }
 
 // Global AI service instance
-export const aiService = new AIServiceManager();
\ No newline at end of file
+export const aiService = new AIServiceManager();
@@ -1,5 +1,7 @@
 import { toast } from 'sonner';
-import { db } from './database';
+import { customerTaxExemption, db } from './database';
+import { calculationEngine } from './calculationEngine';
+import { calculateSalesTax, extractZipCode, lookupTaxJurisdiction, type TaxBreakdown, type TaxExemption, type TaxLocation } from './salesTax';
 
 // Business Service Interfaces
 export interface Customer {
@@ -115,6 +117,7 @@ export interface Proposal {
   totalAmount: number;
   discountAmount: number;
   taxAmount: number;
+  taxBasis?: TaxBreakdown;
   finalAmount: number;
   paymentSchedule: PaymentSchedule[];
   digitalSignature?: {
@@ -134,6 +137,9 @@ export interface ProposalSection {
   subtotal: number;
 }
 
+// Items default to labor; states tax materials and labor differently
+export type TaxCategory = 'materials' | 'labor';
+
 export interface ProposalItem {
   id: string;
   description: string;
@@ -141,6 +147,7 @@ export interface ProposalItem {
   unit: string;
   unitPrice: number;
   totalPrice: number;
+  taxCategory?: TaxCategory;
   notes?: string;
 }
 
@@ -169,6 +176,7 @@ export interface Invoice {
   subtotal: number;
   taxRate: number;
   taxAmount: number;
+  taxBasis?: TaxBreakdown;
   discountAmount: number;
   totalAmount: number;
   paidAmount: number;
@@ -187,6 +195,7 @@ export interface InvoiceItem {
   unitPrice: number;
   totalPrice: number;
   taxable: boolean;
+  taxCategory?: TaxCategory;
 }
 
 export interface PaymentRecord {
@@ -562,8 +571,22 @@ export class ProposalService {
         finalAmount: 0 // Will be calculated
       };
 
-      // Calculate taxes and final amount
-      proposal.taxAmount = proposal.totalAmount * 0.08; // 8% tax
+      // Calculate taxes for the customer's location and final amount
+      const materialsAmount = sections
+        .flatMap(section => section.items)
+        .filter(item => item.taxCategory === 'materials')
+        .reduce((total, item) => total + item.totalPrice, 0);
+      // Work on real property is taxed where the job site is
+      const state = calculationEngine.getRegionalPricing(project.region)?.state ?? '';
+      proposal.taxBasis = calculateSalesTax(
+        { materials: materialsAmount, labor: proposal.totalAmount - materialsAmount },
+        lookupTaxJurisdiction(
+          { state, zipCode: extractZipCode(project.address) },
+          calculationEngine.getDefaultTaxRate(state)
+        ),
+        customerTaxExemption(customer)
+      );
+      proposal.taxAmount = proposal.taxBasis.taxAmount;
       proposal.finalAmount = proposal.totalAmount + proposal.taxAmount - proposal.discountAmount;
 
       // Save to database (mock implementation)
@@ -623,7 +646,8 @@ export class ProposalService {
           quantity: Math.ceil((project.budget.estimated || 1000) / 500), // Estimate gallons
           unit: 'gallon',
           unitPrice: 25,
-          totalPrice: Math.ceil((project.budget.estimated || 1000) / 500) * 25
+          totalPrice: Math.ceil((project.budget.estimated || 1000) / 500) * 25,
+          taxCategory: 'materials'
         },
         {
           id: 'sand',
@@ -631,7 +655,8 @@ export class ProposalService {
           quantity: 10,
           unit: 'pounds',
           unitPrice: 2,
-          totalPrice: 20
+          totalPrice: 20,
+          taxCategory: 'materials'
         }
       ],
       subtotal: Math.ceil((project.budget.estimated || 1000) / 500) * 25 + 20
@@ -714,13 +739,19 @@ export class BillingService {
     return this.instance;
   }
 
-  async createInvoice(invoiceData: Omit<Invoice, 'id' | 'invoiceNumber' | 'created_at' | 'updated_at' | 'balanceAmount' | 'paymentHistory'>): Promise<Invoice> {
+  // With a tax location, tax is worked out from the taxable items instead of
+  // trusting the rate and amount passed in
+  async createInvoice(
+    invoiceData: Omit<Invoice, 'id' | 'invoiceNumber' | 'created_at' | 'updated_at' | 'balanceAmount' | 'paymentHistory'>,
+    tax?: { location: TaxLocation; exemption?: TaxExemption }
+  ): Promise<Invoice> {
     try {
       const invoiceNumber = this.generateInvoiceNumber();
-      const balanceAmount = invoiceData.totalAmount - invoiceData.paidAmount;
+      const pricedData = tax ? this.applyInvoiceTax(invoiceData, tax.location, tax.exemption) : invoiceData;
+      const balanceAmount = pricedData.totalAmount - pricedData.paidAmount;
 
       const invoice: Invoice = {
-        ...invoiceData,
+        ...pricedData,
         id: `invoice_${Date.now()}`,
         invoiceNumber,
         balanceAmount,
@@ -737,6 +768,33 @@ export class BillingService {
     }
   }
 
+  private applyInvoiceTax<T extends Pick<Invoice, 'items' | 'issueDate' | 'subtotal' | 'discountAmount' | 'taxRate' | 'taxAmount' | 'totalAmount'>>(
+    invoiceData: T,
+    location: TaxLocation,
+    exemption?: TaxExemption
+  ): T {
+    const taxableItems = invoiceData.items.filter(item => item.taxable);
+    const materials = taxableItems
+      .filter(item => item.taxCategory === 'materials')
+      .reduce((total, item) => total + item.totalPrice, 0);
+    const labor = taxableItems.reduce((total, item) => total + item.totalPrice, 0) - materials;
+
+    const taxBasis = calculateSalesTax(
+      { materials, labor },
+      lookupTaxJurisdiction(location, calculationEngine.getDefaultTaxRate(location.state)),
+      exemption,
+      invoiceData.issueDate
+    );
+
+    return {
+      ...invoiceData,
+      taxRate: taxBasis.rate,
+      taxAmount: taxBasis.taxAmount,
+      taxBasis,
+      totalAmount: invoiceData.subtotal - invoiceData.discountAmount + taxBasis.taxAmount
+    };
+  }
+
   private generateInvoiceNumber(): string {
     const year = new Date().getFullYear();
     const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
@@ -1,4 +1,51 @@
 import { toast } from 'sonner';
+import {
+  calculateStriping,
+  hasStripingWork,
+  DEFAULT_STRIPING_PLAN,
+  DEFAULT_STRIPING_PRICING,
+  type StripingEstimate,
+  type StripingPlan,
+  type StripingPricing
+} from './stripingCalculator';
+import {
+  calculateRepairs,
+  DEFAULT_REPAIR_PRICING,
+  type RepairEstimate,
+  type RepairItem,
+  type RepairPricing
+} from './repairCalculator';
+import {
+  scheduleLabor,
+  DEFAULT_LABOR_SCHEDULING,
+  type CrewPlan,
+  type LaborSchedule,
+  type LaborScheduling,
+  type WorkPhase
+} from './laborScheduler';
+import {
+  calculateEquipment,
+  defaultEquipmentIds,
+  CRACK_FILL_FEET_PER_HOUR,
+  DEFAULT_EQUIPMENT_CATALOG,
+  type EquipmentItem,
+  type EquipmentLineEstimate
+} from './equipmentCatalog';
+import { calculateTravel, DEFAULT_ROAD_FACTOR, TRAVEL_SOURCE_LABELS, type TravelEstimate, type TravelPlan, type TravelSettings } from './travelCalculator';
+import { applyPackage, DEFAULT_ESTIMATE_PACKAGES, type EstimatePackage, type PackageEstimate } from './estimatePackages';
+import { applyPricingAdjustments, type PricingAdjustments } from './pricingAdjustments';
+import { marginOf, priceForMargin, roundUpTo, type MarginCheck, type PricingMode } from './marginPricing';
+import {
+  excludedZoneArea,
+  netZoneArea,
+  pavementCondition,
+  totalZoneArea,
+  totalZonePerimeter,
+  type EstimateZone,
+  type ZoneEstimate
+} from './estimateZones';
+import { calculateSalesTax, lookupTaxJurisdiction, type TaxBreakdown, type TaxExemption, type TaxLocation } from './salesTax';
+import { previewPricingImport, PricingImportError, type PricingImportPreview } from './pricingSchema';
 
 // Types for the enhanced calculation engine
 export interface MaterialPricing {
@@ -6,31 +53,38 @@ export interface MaterialPricing {
     pricePerGallon: number;
     coverageRate: number; // sq ft per gallon
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
   sand: {
     pricePerBag: number;
     bagsPerGallon: number; // bags needed per gallon of sealer
+    poundsPerBag?: number; // defaults to 50 lb bags
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
   fastDry: {
     pricePerBucket: number;
     bucketsPerGallon: number; // buckets needed per gallon of sealer
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
   prepSeal: {
     pricePerBucket: number;
     bucketsPerProject: number; // typically 1 per project
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
   crackFiller: {
     pricePerBox: number;
     coveragePerBox: number; // linear feet per box
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
   propane: {
     pricePerTank: number;
     tanksPerLinearFoot: number; // tanks needed per linear foot
     supplier: string;
+    validFrom?: string; // ISO date this price took effect
   };
 }
 
@@ -40,47 +94,105 @@ export interface LaborRates {
   minimumHours: number;
   overtimeMultiplier: number;
   skillLevel: 'basic' | 'intermediate' | 'expert';
+  scheduling?: LaborScheduling; // defaults to DEFAULT_LABOR_SCHEDULING
 }
 
 export interface RegionalPricing {
   region: string;
   state: string;
-  taxRate: number;
+  taxRate: number; // used where no zip or county rate applies
   materials: MaterialPricing;
   labor: LaborRates;
   fuel: {
     pricePerGallon: number;
-    mpg: number;
-    roundTripDistance: number;
+    mpg: number; // used when the estimate doesn't name a truck
+    roundTripDistance: number; // used when the job site hasn't been located
   };
   businessCosts: {
     insuranceRate: number; // percentage of project cost
-    equipmentDepreciation: number; // flat rate per project
+    equipmentDepreciation: number; // flat rate per project for small tools and squeegees
     permitCosts: number; // flat rate per project
   };
+  equipment?: EquipmentItem[]; // defaults to DEFAULT_EQUIPMENT_CATALOG
+  travel?: TravelSettings; // yard and supplier; without it every job uses the fixed round trip
+  striping?: StripingPricing; // defaults to DEFAULT_STRIPING_PRICING
+  repairs?: RepairPricing; // defaults to DEFAULT_REPAIR_PRICING
+  tiers?: PricingTiers; // defaults to DEFAULT_PRICING_TIERS
+}
+
+export interface VolumeDiscount {
+  threshold: number; // sq ft
+  discount: number; // fraction, 0.05 = 5%
+}
+
+// 'markup' shrinks the markup percentage; 'price' takes the discount off the pre-tax price
+export type DiscountTarget = 'markup' | 'price';
+
+export interface PricingTier {
+  markup: number;
+  minimumCharge: number;
+  volumeDiscounts: VolumeDiscount[];
+  discountAppliesTo: DiscountTarget;
 }
 
 export interface PricingTiers {
-  residential: {
-    markup: number;
-    minimumCharge: number;
-  };
-  commercial: {
-    markup: number;
-    minimumCharge: number;
-    volumeDiscounts: {
-      threshold: number; // sq ft
-      discount: number; // percentage
-    }[];
-  };
-  industrial: {
-    markup: number;
-    minimumCharge: number;
-    volumeDiscounts: {
-      threshold: number;
-      discount: number;
-    }[];
-  };
+  residential: PricingTier;
+  commercial: PricingTier;
+  industrial: PricingTier;
+}
+
+export type CustomerType = keyof PricingTiers;
+
+// One version of a region's pricing in its price book
+export interface PriceBookEntry {
+  effectiveFrom: Date;
+  pricing: RegionalPricing;
+}
+
+export type ApplicationMethod = 'squeegee' | 'spray';
+
+// How the sealer is mixed and applied
+export interface CoatPlan {
+  coats: 1 | 2 | 3;
+  method: ApplicationMethod;
+  dilutionRatio: number; // gallons of water per gallon of concentrate (0.2 = 20%)
+  sandLbsPerGallon: number; // pounds of sand per gallon of concentrate
+}
+
+export interface CoatPlanSummary extends CoatPlan {
+  coverageRates: number[]; // sq ft per mixed gallon, per coat
+  mixedGallonsPerCoat: number[];
+  mixedGallons: number;
+  sandPounds: number;
+}
+
+// Where a linear measurement came from: drawn on the map, borrowed from the
+// perimeter, or the sqrt(area) × 4 square approximation
+export type MeasurementSource = 'measured' | 'perimeter' | 'approximated';
+
+export interface EstimateOptions {
+  coatPlan?: Partial<CoatPlan>;
+  perimeter?: number; // measured edge length in linear feet
+  crackLength?: number; // measured crack length in linear feet
+  crackFill?: boolean; // false leaves crack filling out of the job; defaults to true
+  striping?: Partial<StripingPlan>;
+  repairs?: RepairItem[];
+  asOf?: Date; // price with the price book in effect on this date; defaults to now
+  taxLocation?: Omit<TaxLocation, 'state'>; // zip or county; the state comes from the region
+  taxExemption?: TaxExemption | null;
+  crew?: Partial<CrewPlan>; // defaults to a lead and one helper at the region's hourly rate
+  equipment?: string[]; // catalog ids; defaults to the catalog's standard kit for the work
+  travel?: TravelPlan; // located job site, route miles, supplier pickup and truck
+  pricingMode?: PricingMode; // defaults to the tier markup
+  adjustments?: PricingAdjustments; // what-if multipliers on the region's pricing
+  zones?: EstimateZone[]; // drawn areas with their own job type, condition and coat plan; they make up the job area
+}
+
+export interface MaterialLineItem {
+  quantity: number;
+  unitCost: number;
+  totalCost: number;
+  supplier: string;
 }
 
 export interface DetailedEstimate {
@@ -91,25 +203,51 @@ export interface DetailedEstimate {
     region: string;
     estimateDate: Date;
     validUntil: Date;
+    pricedAsOf: Date;
+  };
+  // What the estimate was calculated from, so it can be re-priced later
+  inputs: {
+    region: string;
+    customerType: CustomerType;
+    options: EstimateOptions;
+  };
+  measurements: {
+    grossArea: number; // as drawn
+    excludedArea: number; // islands, pads and buildings cut out of the zones
+    perimeter: number;
+    perimeterSource: MeasurementSource;
+    crackLength: number;
+    crackLengthSource: MeasurementSource;
   };
+  coatPlan: CoatPlanSummary;
+  zones: ZoneEstimate[]; // per-area subtotals; a job without zones is a single zone
   materials: {
-    sealer: { quantity: number; unitCost: number; totalCost: number; supplier: string };
-    sand: { quantity: number; unitCost: number; totalCost: number; supplier: string };
-    fastDry: { quantity: number; unitCost: number; totalCost: number; supplier: string };
-    prepSeal: { quantity: number; unitCost: number; totalCost: number; supplier: string };
-    crackFiller: { quantity: number; unitCost: number; totalCost: number; supplier: string };
-    propane: { quantity: number; unitCost: number; totalCost: number; supplier: string };
+    sealer: MaterialLineItem; // concentrate, in gallons
+    water: MaterialLineItem; // dilution water, in gallons
+    sand: MaterialLineItem;
+    fastDry: MaterialLineItem;
+    prepSeal: MaterialLineItem;
+    crackFiller: MaterialLineItem;
+    propane: MaterialLineItem;
   };
   labor: {
-    hours: number;
-    rate: number;
+    hours: number; // paid man-hours, including drive time
+    rate: number; // blended crew rate
     totalCost: number;
     skillLevel: string;
+    schedule: LaborSchedule;
   };
+  striping: StripingEstimate | null;
+  repairs: RepairEstimate | null;
   expenses: {
-    fuel: { distance: number; rate: number; totalCost: number };
+    fuel: { distance: number; rate: number; totalCost: number; travel?: TravelEstimate };
+    mobilization: { days: number; perDay: number; totalCost: number };
     insurance: { rate: number; totalCost: number };
-    equipment: { totalCost: number };
+    equipment: {
+      items: EquipmentLineEstimate[];
+      smallTools: number;
+      totalCost: number;
+    };
     permits: { totalCost: number };
   };
   pricing: {
@@ -119,8 +257,19 @@ export interface DetailedEstimate {
     beforeTax: number;
     taxRate: number;
     taxAmount: number;
+    tax: TaxBreakdown;
+    discount: {
+      threshold: number;
+      rate: number;
+      appliesTo: DiscountTarget;
+      amount: number;
+    } | null;
+    minimumChargeApplied: boolean;
+    mode: PricingMode['type'];
+    margin: MarginCheck;
     finalTotal: number;
     pricePerSqFt: number;
+    explanation: string[]; // why this price, in plain language
   };
   profitAnalysis: {
     grossProfit: number;
@@ -179,6 +328,11 @@ const DEFAULT_REGIONAL_PRICING: Record<string, RegionalPricing> = {
       mpg: 8, // C30 truck
       roundTripDistance: 90 // 45 miles each way to SealMaster
     },
+    travel: {
+      yard: { name: 'Stuart yard', coordinates: [36.6407, -80.2659] },
+      supplier: { name: 'SealMaster Greensboro', coordinates: [36.0726, -79.7920] },
+      roadFactor: DEFAULT_ROAD_FACTOR
+    },
     businessCosts: {
       insuranceRate: 0.02, // 2% of project cost
       equipmentDepreciation: 25.00,
@@ -233,6 +387,11 @@ const DEFAULT_REGIONAL_PRICING: Record<string, RegionalPricing> = {
       mpg: 8,
       roundTripDistance: 80
     },
+    travel: {
+      yard: { name: 'Madison yard', coordinates: [36.3857, -79.9595] },
+      supplier: { name: 'SealMaster Greensboro', coordinates: [36.0726, -79.7920] },
+      roadFactor: DEFAULT_ROAD_FACTOR
+    },
     businessCosts: {
       insuranceRate: 0.025,
       equipmentDepreciation: 30.00,
@@ -242,14 +401,17 @@ const DEFAULT_REGIONAL_PRICING: Record<string, RegionalPricing> = {
 };
 
 // Pricing tiers for different customer types
-const PRICING_TIERS: PricingTiers = {
+export const DEFAULT_PRICING_TIERS: PricingTiers = {
   residential: {
     markup: 0.25, // 25%
-    minimumCharge: 200.00
+    minimumCharge: 200.00,
+    volumeDiscounts: [],
+    discountAppliesTo: 'markup'
   },
   commercial: {
     markup: 0.20, // 20%
     minimumCharge: 500.00,
+    discountAppliesTo: 'markup',
     volumeDiscounts: [
       { threshold: 5000, discount: 0.05 }, // 5% off for 5000+ sq ft
       { threshold: 10000, discount: 0.10 }, // 10% off for 10000+ sq ft
@@ -259,6 +421,7 @@ const PRICING_TIERS: PricingTiers = {
   industrial: {
     markup: 0.15, // 15%
     minimumCharge: 1000.00,
+    discountAppliesTo: 'markup',
     volumeDiscounts: [
       { threshold: 10000, discount: 0.05 },
       { threshold: 25000, discount: 0.10 },
@@ -267,21 +430,163 @@ const PRICING_TIERS: PricingTiers = {
   }
 };
 
+// Coverage and crew speed relative to a squeegee pass
+export const APPLICATION_METHODS: Record<ApplicationMethod, { label: string; coverageMultiplier: number; laborMultiplier: number }> = {
+  squeegee: { label: 'Squeegee', coverageMultiplier: 1, laborMultiplier: 1 },
+  spray: { label: 'Spray', coverageMultiplier: 1.15, laborMultiplier: 0.7 }
+};
+
+// Follow-up coats go down on a sealed, less porous surface with no prep
+const ADDITIONAL_COAT_COVERAGE_MULTIPLIER = 1.1;
+const ADDITIONAL_COAT_LABOR_MULTIPLIER = 0.75;
+const DEFAULT_SAND_BAG_POUNDS = 50;
+
+export interface RepriceLine {
+  key: string;
+  description: string;
+  originalCost: number;
+  currentCost: number;
+  delta: number;
+}
+
+export interface RepriceResult {
+  originalAsOf: Date;
+  currentAsOf: Date;
+  current: DetailedEstimate;
+  lines: RepriceLine[];
+  totals: {
+    original: number;
+    current: number;
+    delta: number;
+    deltaPercent: number;
+  };
+}
+
+const MATERIAL_LABELS: Record<keyof DetailedEstimate['materials'], string> = {
+  sealer: 'Sealer Concentrate',
+  water: 'Dilution Water',
+  sand: 'Sand',
+  fastDry: 'Fast Dry Additive',
+  prepSeal: 'Prep Seal',
+  crackFiller: 'Crack Filler',
+  propane: 'Propane'
+};
+
+// Cost lines shared by re-pricing comparisons, in display order
+const getCostLines = (estimate: DetailedEstimate): { key: string; description: string; cost: number }[] => [
+  ...Object.entries(estimate.materials).map(([key, item]) => ({
+    key: `materials.${key}`,
+    description: MATERIAL_LABELS[key as keyof DetailedEstimate['materials']] ?? key,
+    cost: item.totalCost
+  })),
+  { key: 'labor', description: 'Labor', cost: estimate.labor.totalCost },
+  { key: 'striping', description: 'Striping & Markings', cost: estimate.striping?.totalCost ?? 0 },
+  { key: 'repairs', description: 'Repairs & Patching', cost: estimate.repairs?.totalCost ?? 0 },
+  { key: 'expenses.fuel', description: 'Fuel & Transportation', cost: estimate.expenses.fuel.totalCost },
+  { key: 'expenses.mobilization', description: 'Mobilization', cost: estimate.expenses.mobilization?.totalCost ?? 0 },
+  { key: 'expenses.insurance', description: 'Insurance', cost: estimate.expenses.insurance.totalCost },
+  { key: 'expenses.equipment', description: 'Equipment', cost: estimate.expenses.equipment.totalCost },
+  { key: 'expenses.permits', description: 'Permits', cost: estimate.expenses.permits.totalCost },
+  { key: 'pricing.markup', description: 'Markup', cost: estimate.pricing.markupAmount },
+  {
+    key: 'pricing.discount',
+    description: 'Volume Discount',
+    cost: estimate.pricing.discount?.appliesTo === 'price' ? -estimate.pricing.discount.amount : 0
+  },
+  { key: 'pricing.tax', description: 'Tax', cost: estimate.pricing.taxAmount }
+];
+
 export class AdvancedCalculationEngine {
   private regionalPricing: Record<string, RegionalPricing>;
-  private pricingTiers: PricingTiers;
+  private priceBooks: Record<string, PriceBookEntry[]>;
 
   constructor() {
     this.regionalPricing = { ...DEFAULT_REGIONAL_PRICING };
-    this.pricingTiers = { ...PRICING_TIERS };
+    this.priceBooks = {};
   }
 
   // Add or update regional pricing
   updateRegionalPricing(region: string, pricing: RegionalPricing): void {
-    this.regionalPricing[region.toLowerCase()] = pricing;
+    this.setCurrentPricing(region.toLowerCase(), pricing);
     toast.success(`Pricing updated for ${region}`);
   }
 
+  // Replace the price books with saved versions; regions without a saved
+  // version keep the built-in defaults
+  loadPriceBooks(books: Record<string, PriceBookEntry[]>): void {
+    this.priceBooks = Object.fromEntries(
+      Object.entries(books).map(([region, entries]) => [
+        region.toLowerCase(),
+        [...entries].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())
+      ])
+    );
+
+    const now = new Date();
+    this.regionalPricing = { ...DEFAULT_REGIONAL_PRICING };
+    for (const region of Object.keys(this.priceBooks)) {
+      const pricing = this.resolvePricing(region, now);
+      if (pricing) this.regionalPricing[region] = pricing;
+    }
+  }
+
+  getPriceBook(region: string): PriceBookEntry[] {
+    return this.priceBooks[region.toLowerCase()] ?? [];
+  }
+
+  // Pricing in effect on a date: the newest version effective by then, with each
+  // material taken from the newest version whose validFrom has passed
+  resolvePricing(region: string, asOf: Date = new Date()): RegionalPricing | undefined {
+    const key = region.toLowerCase();
+    const book = this.priceBooks[key];
+    if (!book || book.length === 0) return this.regionalPricing[key];
+
+    const effective = book.filter(entry => entry.effectiveFrom <= asOf);
+    if (effective.length === 0) return DEFAULT_REGIONAL_PRICING[key] ?? book[0].pricing;
+
+    const newestFirst = [...effective].reverse();
+    const base = newestFirst[0].pricing;
+    const materials = Object.fromEntries(
+      (Object.keys(base.materials) as (keyof MaterialPricing)[]).map(name => {
+        const valid = newestFirst.find(entry => {
+          const validFrom = entry.pricing.materials[name]?.validFrom;
+          return !validFrom || new Date(validFrom) <= asOf;
+        });
+        return [name, (valid ?? newestFirst[newestFirst.length - 1]).pricing.materials[name]];
+      })
+    ) as unknown as MaterialPricing;
+
+    return { ...base, materials };
+  }
+
+  // Record a new current version so dated lookups see it from now on
+  private setCurrentPricing(region: string, pricing: RegionalPricing): void {
+    const previous = this.regionalPricing[region];
+    const book = this.priceBooks[region] ?? (previous ? [{ effectiveFrom: new Date(0), pricing: previous }] : []);
+    this.priceBooks[region] = [...book, { effectiveFrom: new Date(), pricing }];
+    this.regionalPricing[region] = pricing;
+  }
+
+  getRegionalPricing(region: string): RegionalPricing | undefined {
+    return this.regionalPricing[region.toLowerCase()];
+  }
+
+  // Equipment saved with the region, or the built-in catalog
+  getEquipmentCatalog(region: string): EquipmentItem[] {
+    return this.regionalPricing[region.toLowerCase()]?.equipment ?? DEFAULT_EQUIPMENT_CATALOG;
+  }
+
+  // Yard and supplier saved with the region; versions saved before travel
+  // settings existed fall back to the built-in ones
+  getTravelSettings(region: string): TravelSettings | undefined {
+    const key = region.toLowerCase();
+    return this.regionalPricing[key]?.travel ?? DEFAULT_REGIONAL_PRICING[key]?.travel;
+  }
+
+  // Customer tiers saved with the region, or the built-in defaults
+  getPricingTiers(region: string): PricingTiers {
+    return this.regionalPricing[region.toLowerCase()]?.tiers ?? DEFAULT_PRICING_TIERS;
+  }
+
   // Get available regions
   getAvailableRegions(): string[] {
     return Object.keys(this.regionalPricing).map(key => 
@@ -289,26 +594,110 @@ export class AdvancedCalculationEngine {
     );
   }
 
+  // Region keys paired with display names, for selectors
+  getRegionOptions(): { id: string; name: string }[] {
+    return Object.keys(this.regionalPricing).map(key => ({
+      id: key,
+      name: this.regionalPricing[key].region
+    }));
+  }
+
+  // Region tax rate for a state, for documents priced outside an estimate
+  getDefaultTaxRate(state: string): number {
+    const pricing = Object.values(this.regionalPricing).find(
+      regional => regional.state.toUpperCase() === state.toUpperCase()
+    );
+    return pricing?.taxRate ?? 0;
+  }
+
   // Calculate detailed estimate
   calculateDetailedEstimate(
     area: number,
     jobType: 'driveway' | 'parking-lot',
     address: string,
     region: string = 'virginia',
-    customerType: 'residential' | 'commercial' | 'industrial' = 'residential'
+    customerType: CustomerType = 'residential',
+    options: EstimateOptions = {}
   ): DetailedEstimate {
-    const pricing = this.regionalPricing[region.toLowerCase()];
-    if (!pricing) {
+    const pricedAsOf = options.asOf ?? new Date();
+    const resolvedPricing = this.resolvePricing(region, pricedAsOf);
+    if (!resolvedPricing) {
       throw new Error(`Pricing data not available for region: ${region}`);
     }
+    const pricing = applyPricingAdjustments(resolvedPricing, options.adjustments);
 
-    const tier = this.pricingTiers[customerType];
+    const tier = (pricing.tiers ?? DEFAULT_PRICING_TIERS)[customerType];
     
-    // Calculate estimated perimeter (square approximation)
-    const estimatedPerimeter = Math.sqrt(area) * 4;
+    // Zones: each drawn area with its own coat plan and condition; a job
+    // without zones is one zone covering the whole area
+    const zones: EstimateZone[] = options.zones?.length
+      ? options.zones
+      : [{ id: 'job', name: 'Job', area, perimeter: options.perimeter, jobType, condition: 'good' }];
+    const jobArea = options.zones?.length ? totalZoneArea(options.zones) : area;
+
+    // Linear footage: measured values win, the square approximation is the last resort
+    const measurements = this.resolveMeasurements(jobArea, options);
+    const crackFillLength = options.crackFill === false ? 0 : measurements.crackLength;
+
+    // Coat plan per zone: mixed gallons and man-hours per coat, full first pass
+    // and lighter follow-up coats
+    const zonePlans = zones.map(zone => {
+      const plan = this.resolveCoatPlan(pricing, { ...options.coatPlan, ...zone.coatPlan });
+      const method = APPLICATION_METHODS[plan.method];
+      const condition = pavementCondition(zone.condition);
+      const coverageRates = Array.from({ length: plan.coats }, (_, index) =>
+        pricing.materials.sealer.coverageRate *
+        method.coverageMultiplier *
+        (index === 0 ? 1 : ADDITIONAL_COAT_COVERAGE_MULTIPLIER) /
+        condition.sealerFactor
+      );
+      const area = netZoneArea(zone);
+      const mixedGallonsPerCoat = coverageRates.map(rate => area / rate);
+      const mixedGallons = mixedGallonsPerCoat.reduce((sum, gallons) => sum + gallons, 0);
+      const sealerGallons = mixedGallons / (1 + plan.dilutionRatio);
+      const manHoursPerCoat = coverageRates.map((_, index) =>
+        area * pricing.labor.hoursPerSqFt * method.laborMultiplier * condition.laborFactor *
+        (index === 0 ? 1 : ADDITIONAL_COAT_LABOR_MULTIPLIER)
+      );
+      return {
+        zone,
+        plan,
+        coverageRates,
+        mixedGallonsPerCoat,
+        mixedGallons,
+        sealerGallons,
+        sandPounds: sealerGallons * plan.sandLbsPerGallon,
+        manHoursPerCoat
+      };
+    });
+
+    // The job's plan is the largest zone's, run for as many coats as any zone gets;
+    // coverage per coat is the coated area over the gallons across zones
+    const primaryZone = zonePlans.reduce((largest, zonePlan) =>
+      (netZoneArea(zonePlan.zone) > netZoneArea(largest.zone) ? zonePlan : largest)
+    );
+    const coatPlan: CoatPlan = {
+      ...primaryZone.plan,
+      coats: Math.max(...zonePlans.map(zonePlan => zonePlan.plan.coats)) as CoatPlan['coats']
+    };
+    const coatedZones = Array.from({ length: coatPlan.coats }, (_, index) =>
+      zonePlans.filter(zonePlan => zonePlan.plan.coats > index)
+    );
+    const mixedGallonsPerCoat = coatedZones.map((coated, index) =>
+      coated.reduce((sum, zonePlan) => sum + zonePlan.mixedGallonsPerCoat[index], 0)
+    );
+    const coverageRates = coatedZones.map((coated, index) =>
+      mixedGallonsPerCoat[index] > 0
+        ? totalZoneArea(coated.map(zonePlan => zonePlan.zone)) / mixedGallonsPerCoat[index]
+        : coated[0].coverageRates[index]
+    );
+    const mixedGallons = mixedGallonsPerCoat.reduce((sum, gallons) => sum + gallons, 0);
+    const sealerGallons = zonePlans.reduce((sum, zonePlan) => sum + zonePlan.sealerGallons, 0);
+    const waterGallons = mixedGallons - sealerGallons;
+    const sandPounds = zonePlans.reduce((sum, zonePlan) => sum + zonePlan.sandPounds, 0);
+    const sandBags = Math.ceil(sandPounds / (pricing.materials.sand.poundsPerBag ?? DEFAULT_SAND_BAG_POUNDS));
 
     // Material calculations
-    const sealerGallons = area / pricing.materials.sealer.coverageRate;
     const materials = {
       sealer: {
         quantity: sealerGallons,
@@ -316,10 +705,16 @@ export class AdvancedCalculationEngine {
         totalCost: sealerGallons * pricing.materials.sealer.pricePerGallon,
         supplier: pricing.materials.sealer.supplier
       },
+      water: {
+        quantity: waterGallons,
+        unitCost: 0,
+        totalCost: 0,
+        supplier: 'On site'
+      },
       sand: {
-        quantity: Math.ceil(sealerGallons * pricing.materials.sand.bagsPerGallon),
+        quantity: sandBags,
         unitCost: pricing.materials.sand.pricePerBag,
-        totalCost: Math.ceil(sealerGallons * pricing.materials.sand.bagsPerGallon) * pricing.materials.sand.pricePerBag,
+        totalCost: sandBags * pricing.materials.sand.pricePerBag,
         supplier: pricing.materials.sand.supplier
       },
       fastDry: {
@@ -335,47 +730,128 @@ export class AdvancedCalculationEngine {
         supplier: pricing.materials.prepSeal.supplier
       },
       crackFiller: {
-        quantity: Math.ceil(estimatedPerimeter / pricing.materials.crackFiller.coveragePerBox),
+        quantity: Math.ceil(crackFillLength / pricing.materials.crackFiller.coveragePerBox),
         unitCost: pricing.materials.crackFiller.pricePerBox,
-        totalCost: Math.ceil(estimatedPerimeter / pricing.materials.crackFiller.coveragePerBox) * pricing.materials.crackFiller.pricePerBox,
+        totalCost: Math.ceil(crackFillLength / pricing.materials.crackFiller.coveragePerBox) * pricing.materials.crackFiller.pricePerBox,
         supplier: pricing.materials.crackFiller.supplier
       },
       propane: {
-        quantity: Math.ceil(estimatedPerimeter * pricing.materials.propane.tanksPerLinearFoot),
+        quantity: Math.ceil(crackFillLength * pricing.materials.propane.tanksPerLinearFoot),
         unitCost: pricing.materials.propane.pricePerTank,
-        totalCost: Math.ceil(estimatedPerimeter * pricing.materials.propane.tanksPerLinearFoot) * pricing.materials.propane.pricePerTank,
+        totalCost: Math.ceil(crackFillLength * pricing.materials.propane.tanksPerLinearFoot) * pricing.materials.propane.pricePerTank,
         supplier: pricing.materials.propane.supplier
       }
     };
 
-    // Labor calculations
-    const laborHours = Math.max(
-      area * pricing.labor.hoursPerSqFt,
-      pricing.labor.minimumHours
+    // Labor calculations: each coat's man-hours across the zones that get it,
+    // scaled up together when the job is under the minimum
+    const coatManHours = coatedZones.map((coated, index) =>
+      coated.reduce((sum, zonePlan) => sum + zonePlan.manHoursPerCoat[index], 0)
+    );
+    const sealingHours = coatManHours.reduce((sum, hours) => sum + hours, 0);
+    const laborHours = Math.max(sealingHours, pricing.labor.minimumHours);
+    const phaseWeights = sealingHours > 0
+      ? coatManHours
+      : coatManHours.map((_, index) => (index === 0 ? 1 : ADDITIONAL_COAT_LABOR_MULTIPLIER));
+    const phaseWeightTotal = phaseWeights.reduce((sum, weight) => sum + weight, 0);
+
+    // Crew schedule: coats in order with cure gaps, daily caps, drive time each day
+    const scheduling = pricing.labor.scheduling ?? DEFAULT_LABOR_SCHEDULING;
+    const crewPlan: CrewPlan = {
+      members: options.crew?.members?.length
+        ? options.crew.members
+        : [
+            { role: 'lead', hourlyRate: pricing.labor.hourlyRate },
+            { role: 'helper', hourlyRate: pricing.labor.hourlyRate }
+          ],
+      overtimePolicy: options.crew?.overtimePolicy ?? 'overtime',
+      driveTimeHours: options.crew?.driveTimeHours
+    };
+    // Yard to the located job site, or the region's fixed round trip
+    const travel = calculateTravel(
+      pricing.travel ?? DEFAULT_REGIONAL_PRICING[region.toLowerCase()]?.travel,
+      options.travel ?? {},
+      pricing.fuel
+    );
+    const phases: WorkPhase[] = Array.from({ length: coatPlan.coats }, (_, index) => ({
+      name: index === 0 ? 'Prep & coat 1' : `Coat ${index + 1}`,
+      manHours: laborHours * phaseWeights[index] / phaseWeightTotal,
+      cureHoursAfter: scheduling.cureHoursBetweenCoats
+    }));
+    const schedule = scheduleLabor(
+      phases,
+      crewPlan,
+      scheduling,
+      crewPlan.driveTimeHours ?? travel.roundTripMiles / scheduling.driveSpeedMph,
+      pricing.labor.overtimeMultiplier
     );
     const labor = {
-      hours: laborHours,
-      rate: pricing.labor.hourlyRate,
-      totalCost: laborHours * pricing.labor.hourlyRate,
-      skillLevel: pricing.labor.skillLevel
+      hours: schedule.paidHours,
+      rate: schedule.paidHours > 0 ? schedule.laborCost / schedule.paidHours : pricing.labor.hourlyRate,
+      totalCost: schedule.laborCost,
+      skillLevel: pricing.labor.skillLevel,
+      schedule
     };
+    const jobDays = Math.max(schedule.days.length, 1);
+
+    // Striping and pavement markings, priced as their own section
+    const stripingPlan = { ...DEFAULT_STRIPING_PLAN, ...options.striping };
+    const striping = hasStripingWork(stripingPlan)
+      ? calculateStriping(stripingPlan, pricing.striping ?? DEFAULT_STRIPING_PRICING, pricing.labor.hourlyRate)
+      : null;
 
-    // Expense calculations
-    const fuelGallons = pricing.fuel.roundTripDistance / pricing.fuel.mpg;
-    const subtotalForExpenses = Object.values(materials).reduce((sum, mat) => sum + mat.totalCost, 0) + labor.totalCost;
+    // Patching and repairs done ahead of the sealcoat
+    const repairs = calculateRepairs(
+      options.repairs ?? [],
+      pricing.repairs ?? DEFAULT_REPAIR_PRICING,
+      pricing.labor.hourlyRate
+    );
+
+    // Expense calculations: one round trip per job day, plus any supplier pickup
+    const travelMiles = travel.roundTripMiles * jobDays + travel.supplierPickupMiles;
+    const fuelGallons = travelMiles / travel.mpg;
+    const subtotalForExpenses = Object.values(materials).reduce((sum, mat) => sum + mat.totalCost, 0) +
+                               labor.totalCost +
+                               (striping?.totalCost ?? 0) +
+                               (repairs?.totalCost ?? 0);
     
+    // Equipment runs for the part of the job it's used on
+    const catalog = this.getEquipmentCatalog(region);
+    const equipmentUsage = {
+      sealcoating: schedule.days.reduce((sum, day) => sum + day.workHours, 0),
+      crackFilling: crackFillLength / CRACK_FILL_FEET_PER_HOUR,
+      striping: striping?.labor.hours ?? 0,
+      jobDays,
+      hoursPerDay: scheduling.regularHoursPerDay
+    };
+    const equipmentItems = calculateEquipment(
+      catalog,
+      options.equipment ?? defaultEquipmentIds(catalog, equipmentUsage),
+      equipmentUsage,
+      pricing.fuel.pricePerGallon
+    );
+
     const expenses = {
       fuel: {
-        distance: pricing.fuel.roundTripDistance,
+        distance: travelMiles,
         rate: pricing.fuel.pricePerGallon,
-        totalCost: fuelGallons * pricing.fuel.pricePerGallon
+        totalCost: fuelGallons * pricing.fuel.pricePerGallon,
+        travel
+      },
+      mobilization: {
+        days: jobDays,
+        perDay: scheduling.mobilizationPerDay,
+        totalCost: jobDays * scheduling.mobilizationPerDay
       },
       insurance: {
         rate: pricing.businessCosts.insuranceRate,
         totalCost: subtotalForExpenses * pricing.businessCosts.insuranceRate
       },
       equipment: {
-        totalCost: pricing.businessCosts.equipmentDepreciation
+        items: equipmentItems,
+        smallTools: pricing.businessCosts.equipmentDepreciation,
+        totalCost: equipmentItems.reduce((sum, item) => sum + item.totalCost, 0) +
+                   pricing.businessCosts.equipmentDepreciation
       },
       permits: {
         totalCost: pricing.businessCosts.permitCosts
@@ -385,107 +861,301 @@ export class AdvancedCalculationEngine {
     // Calculate subtotal
     const subtotal = subtotalForExpenses + 
                     expenses.fuel.totalCost + 
+                    expenses.mobilization.totalCost +
                     expenses.insurance.totalCost + 
                     expenses.equipment.totalCost + 
                     expenses.permits.totalCost;
 
-    // Apply volume discounts for commercial/industrial
-    let effectiveMarkup = tier.markup;
-    if (customerType !== 'residential') {
-      const applicableDiscount = tier.volumeDiscounts
-        .filter(discount => area >= discount.threshold)
-        .sort((a, b) => b.threshold - a.threshold)[0];
-      
-      if (applicableDiscount) {
-        effectiveMarkup = tier.markup * (1 - applicableDiscount.discount);
-      }
+    // Volume discount: the largest threshold the job reaches
+    const applicableDiscount = tier.volumeDiscounts
+      .filter(discount => jobArea >= discount.threshold)
+      .sort((a, b) => b.threshold - a.threshold)[0];
+    const discountsMarkup = !!applicableDiscount && tier.discountAppliesTo === 'markup';
+    const pricingMode = options.pricingMode ?? { type: 'markup' };
+    const marginTarget = pricingMode.type === 'margin' ? pricingMode : null;
+
+    // Pricing calculations. Margin mode back-solves the pre-tax price from the
+    // target margin, where a markup discount lowers the target, then rounds up.
+    let markupAmount: number;
+    let priceDiscount: number;
+    let markupDiscount: number;
+    let beforeTax: number;
+    let unroundedPrice = 0;
+    let targetMargin = 0;
+    if (marginTarget) {
+      targetMargin = discountsMarkup
+        ? marginTarget.targetMargin * (1 - applicableDiscount.discount)
+        : marginTarget.targetMargin;
+      const listPrice = priceForMargin(subtotal, targetMargin);
+      markupDiscount = priceForMargin(subtotal, marginTarget.targetMargin) - listPrice;
+      priceDiscount = applicableDiscount && !discountsMarkup ? listPrice * applicableDiscount.discount : 0;
+      unroundedPrice = listPrice - priceDiscount;
+      beforeTax = roundUpTo(unroundedPrice, marginTarget.roundTo);
+      markupAmount = beforeTax + priceDiscount - subtotal;
+    } else {
+      const discountedMarkup = discountsMarkup ? tier.markup * (1 - applicableDiscount.discount) : tier.markup;
+      markupAmount = subtotal * discountedMarkup;
+      markupDiscount = subtotal * (tier.markup - discountedMarkup);
+      priceDiscount = applicableDiscount && !discountsMarkup
+        ? (subtotal + markupAmount) * applicableDiscount.discount
+        : 0;
+      beforeTax = subtotal + markupAmount - priceDiscount;
     }
+    const effectiveMarkup = subtotal > 0 ? markupAmount / subtotal : 0;
+    const discount = applicableDiscount
+      ? {
+          threshold: applicableDiscount.threshold,
+          rate: applicableDiscount.discount,
+          appliesTo: tier.discountAppliesTo,
+          amount: discountsMarkup ? markupDiscount : priceDiscount
+        }
+      : null;
+
+    // Sales tax: markup is spread over materials and labor in proportion to cost,
+    // and everything that isn't a material is taxed as labor
+    const materialsCost = Object.values(materials).reduce((sum, mat) => sum + mat.totalCost, 0) +
+                          (striping ? Object.values(striping.materials).reduce((sum, mat) => sum + mat.totalCost, 0) : 0) +
+                          (repairs?.lines.reduce((sum, line) => sum + line.material.cost + line.tackCoat.cost, 0) ?? 0);
+    const taxableMaterials = subtotal > 0 ? beforeTax * (materialsCost / subtotal) : 0;
+    const tax = calculateSalesTax(
+      { materials: taxableMaterials, labor: beforeTax - taxableMaterials },
+      lookupTaxJurisdiction({ state: pricing.state, ...options.taxLocation }, pricing.taxRate),
+      options.taxExemption,
+      pricedAsOf
+    );
+    const taxAmount = tax.taxAmount;
+    const calculatedTotal = beforeTax + taxAmount;
+    const minimumChargeApplied = calculatedTotal < tier.minimumCharge;
+    const finalTotal = minimumChargeApplied ? tier.minimumCharge : calculatedTotal;
+
+    // Per-zone subtotals: sealing materials and crew time by sealing hours, with
+    // the final total shared out in proportion
+    const zoneSubtotals = zonePlans.map(zonePlan => {
+      const manHours = zonePlan.manHoursPerCoat.reduce((sum, hours) => sum + hours, 0);
+      const materialsCost = zonePlan.sealerGallons * pricing.materials.sealer.pricePerGallon +
+        (sandPounds > 0 ? materials.sand.totalCost * zonePlan.sandPounds / sandPounds : 0) +
+        (sealerGallons > 0 ? materials.fastDry.totalCost * zonePlan.sealerGallons / sealerGallons : 0);
+      const laborCost = sealingHours > 0 ? labor.totalCost * manHours / sealingHours : labor.totalCost / zonePlans.length;
+      return {
+        zone: zonePlan.zone,
+        coatPlan: zonePlan.plan,
+        mixedGallons: zonePlan.mixedGallons,
+        sealerGallons: zonePlan.sealerGallons,
+        manHours,
+        materialsCost,
+        laborCost,
+        subtotal: materialsCost + laborCost
+      };
+    });
+    const zonesSubtotal = zoneSubtotals.reduce((sum, zone) => sum + zone.subtotal, 0);
+    const zoneEstimates: ZoneEstimate[] = zoneSubtotals.map(zone => ({
+      ...zone,
+      price: zonesSubtotal > 0 ? finalTotal * zone.subtotal / zonesSubtotal : finalTotal / zoneSubtotals.length
+    }));
 
-    // Pricing calculations
-    const markupAmount = subtotal * effectiveMarkup;
-    const beforeTax = subtotal + markupAmount;
-    const taxAmount = beforeTax * pricing.taxRate;
-    const finalTotal = Math.max(beforeTax + taxAmount, tier.minimumCharge);
+    // Margin is gross profit over the pre-tax price; tax is passed through, not earned
+    const preTaxRevenue = minimumChargeApplied ? finalTotal - taxAmount : beforeTax;
+    const achievedMargin = marginOf(preTaxRevenue, subtotal);
+    const margin: MarginCheck = {
+      target: marginTarget?.targetMargin ?? null,
+      achieved: achievedMargin,
+      floor: marginTarget?.marginFloor ?? null,
+      belowFloor: !!marginTarget && achievedMargin < marginTarget.marginFloor
+    };
+
+    const formatMoney = (amount: number) => amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+    const tierLabel = customerType.charAt(0).toUpperCase() + customerType.slice(1);
+    const explanation = [
+      `Job cost ${formatMoney(subtotal)}: materials, labor and expenses for ${Math.round(jobArea).toLocaleString('en-US')} sq ft`,
+      ...(zones.length > 1
+        ? [`${zones.length} areas: ` + zoneEstimates
+            .map(({ zone, coatPlan: plan }) =>
+              `${zone.name} ${Math.round(netZoneArea(zone)).toLocaleString('en-US')} sq ft, ${plan.coats} coat${plan.coats === 1 ? '' : 's'}, ${pavementCondition(zone.condition).label.toLowerCase()} condition`)
+            .join('; ')]
+        : []),
+      `Crew of ${schedule.crew.length} for ${jobDays} day${jobDays === 1 ? '' : 's'}` +
+        (schedule.overtimeHours > 0 ? `, including ${schedule.overtimeHours.toFixed(1)} overtime man-hours` : ''),
+      `Travel ${Math.round(travel.roundTripMiles)} mi round trip per day (${TRAVEL_SOURCE_LABELS[travel.source].toLowerCase()})` +
+        (travel.supplierPickupMiles > 0 ? ` plus ${Math.round(travel.supplierPickupMiles)} mi for the supplier pickup` : '') +
+        ` at ${travel.mpg} mpg`,
+      marginTarget
+        ? `Target margin ${formatRate(marginTarget.targetMargin)} of the pre-tax price: job cost ÷ ${formatRate(1 - marginTarget.targetMargin)}`
+        : `${tierLabel} markup ${formatRate(tier.markup)} of job cost`,
+      ...(discount
+        ? [discount.appliesTo === 'markup'
+            ? `Volume discount for ${discount.threshold.toLocaleString('en-US')}+ sq ft cuts the ${marginTarget ? 'target margin' : 'markup'} by ${formatRate(discount.rate)} to ${formatRate(marginTarget ? targetMargin : effectiveMarkup)} (saves ${formatMoney(discount.amount)})`
+            : `Volume discount for ${discount.threshold.toLocaleString('en-US')}+ sq ft takes ${formatRate(discount.rate)} off the price (−${formatMoney(discount.amount)})`]
+        : []),
+      ...(marginTarget && marginTarget.roundTo > 0 && beforeTax - unroundedPrice > 0.005
+        ? [`Rounded up from ${formatMoney(unroundedPrice)} to the nearest ${formatMoney(marginTarget.roundTo)}: ${formatMoney(beforeTax)} before tax`]
+        : []),
+      ...(margin.belowFloor
+        ? [`Warning: margin of ${formatRate(margin.achieved)} is below the ${formatRate(margin.floor)} floor`]
+        : []),
+      `Sales tax: ${tax.basis}`,
+      ...(minimumChargeApplied
+        ? [`${tierLabel} minimum charge of ${formatMoney(tier.minimumCharge)} applies (calculated total ${formatMoney(calculatedTotal)})`]
+        : [])
+    ];
 
     const pricingDetails = {
       subtotal,
       markup: effectiveMarkup,
       markupAmount,
       beforeTax,
-      taxRate: pricing.taxRate,
+      taxRate: tax.rate,
       taxAmount,
+      tax,
+      discount,
+      minimumChargeApplied,
+      mode: pricingMode.type,
+      margin,
       finalTotal,
-      pricePerSqFt: finalTotal / area
+      pricePerSqFt: finalTotal / jobArea,
+      explanation
     };
 
     // Profit analysis
+    const grossProfit = preTaxRevenue - subtotal;
     const profitAnalysis = {
-      grossProfit: markupAmount,
-      profitMargin: (markupAmount / finalTotal) * 100,
+      grossProfit,
+      profitMargin: achievedMargin * 100,
       breakEvenPoint: subtotal
     };
 
     return {
       projectInfo: {
-        area,
+        area: jobArea,
         jobType,
         address,
         region: pricing.region,
         estimateDate: new Date(),
-        validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days from now
+        validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+        pricedAsOf
+      },
+      inputs: {
+        region: region.toLowerCase(),
+        customerType,
+        options
+      },
+      measurements,
+      coatPlan: {
+        ...coatPlan,
+        coverageRates,
+        mixedGallonsPerCoat,
+        mixedGallons,
+        sandPounds
       },
+      zones: zoneEstimates,
       materials,
       labor,
+      striping,
+      repairs,
       expenses,
       pricing: pricingDetails,
       profitAnalysis
     };
   }
 
-  // Quick estimate (compatible with existing interface)
-  calculateQuickEstimate(area: number, region: string = 'virginia'): any {
-    const detailed = this.calculateDetailedEstimate(area, 'driveway', '', region);
-    
+  // Price the same measurements as several option packages for the customer to choose from
+  calculatePackages(
+    area: number,
+    jobType: 'driveway' | 'parking-lot',
+    address: string,
+    region: string = 'virginia',
+    customerType: CustomerType = 'residential',
+    options: EstimateOptions = {},
+    packages: EstimatePackage[] = DEFAULT_ESTIMATE_PACKAGES
+  ): PackageEstimate[] {
+    return packages.map(pkg => ({
+      package: pkg,
+      estimate: this.calculateDetailedEstimate(area, jobType, address, region, customerType, applyPackage(options, pkg))
+    }));
+  }
+
+  // Recalculate a saved estimate with the pricing in effect on `asOf` and
+  // compare it line by line with what was originally quoted
+  repriceEstimate(estimate: DetailedEstimate, asOf: Date = new Date()): RepriceResult {
+    const { projectInfo } = estimate;
+    // Estimates saved before inputs were recorded only carry the region's display name
+    const inputs = estimate.inputs ?? {
+      region: this.getRegionOptions().find(option => option.name === projectInfo.region)?.id ?? projectInfo.region,
+      customerType: 'residential' as CustomerType,
+      options: {}
+    };
+
+    const current = this.calculateDetailedEstimate(
+      projectInfo.area,
+      projectInfo.jobType,
+      projectInfo.address,
+      inputs.region,
+      inputs.customerType,
+      { ...inputs.options, asOf }
+    );
+
+    const currentLines = new Map(getCostLines(current).map(line => [line.key, line.cost]));
+    const lines = getCostLines(estimate).map(line => {
+      const currentCost = currentLines.get(line.key) ?? 0;
+      return {
+        key: line.key,
+        description: line.description,
+        originalCost: line.cost,
+        currentCost,
+        delta: currentCost - line.cost
+      };
+    });
+
+    const original = estimate.pricing.finalTotal;
+    const delta = current.pricing.finalTotal - original;
+
     return {
-      area,
-      materials: {
-        sealer: { 
-          gallons: detailed.materials.sealer.quantity, 
-          cost: detailed.materials.sealer.totalCost 
-        },
-        sand: { 
-          bags: detailed.materials.sand.quantity, 
-          cost: detailed.materials.sand.totalCost 
-        },
-        fastDry: { 
-          buckets: detailed.materials.fastDry.quantity, 
-          cost: detailed.materials.fastDry.totalCost 
-        },
-        prepSeal: { 
-          buckets: detailed.materials.prepSeal.quantity, 
-          cost: detailed.materials.prepSeal.totalCost 
-        },
-        crackFiller: { 
-          boxes: detailed.materials.crackFiller.quantity, 
-          cost: detailed.materials.crackFiller.totalCost 
-        },
-        propane: { 
-          tanks: detailed.materials.propane.quantity, 
-          cost: detailed.materials.propane.totalCost 
-        },
-      },
-      labor: {
-        hours: detailed.labor.hours,
-        cost: detailed.labor.totalCost
-      },
-      fuel: {
-        distance: detailed.expenses.fuel.distance,
-        cost: detailed.expenses.fuel.totalCost
-      },
-      subtotal: detailed.pricing.subtotal,
-      markup25: detailed.pricing.beforeTax,
-      roundedUp: Math.ceil(detailed.pricing.beforeTax / 10) * 10,
-      finalTotal: detailed.pricing.finalTotal
+      // Saved estimates come back from JSON with dates as strings
+      originalAsOf: new Date(projectInfo.pricedAsOf ?? projectInfo.estimateDate),
+      currentAsOf: asOf,
+      current,
+      lines,
+      totals: {
+        original,
+        current: current.pricing.finalTotal,
+        delta,
+        deltaPercent: original > 0 ? (delta / original) * 100 : 0
+      }
+    };
+  }
+
+  // Crack footage falls back to the perimeter, the perimeter to sqrt(area) × 4;
+  // the gross area adds the zones' exclusions back onto the sealed area
+  private resolveMeasurements(area: number, options: EstimateOptions): DetailedEstimate['measurements'] {
+    const measuredPerimeter = options.perimeter ?? totalZonePerimeter(options.zones ?? []);
+    const hasPerimeter = measuredPerimeter !== undefined && measuredPerimeter > 0;
+    const perimeter = hasPerimeter ? measuredPerimeter : Math.sqrt(area) * 4;
+    const perimeterSource: MeasurementSource = hasPerimeter ? 'measured' : 'approximated';
+    const excludedArea = (options.zones ?? []).reduce((sum, zone) => sum + excludedZoneArea(zone), 0);
+    const grossArea = area + excludedArea;
+
+    if (options.crackLength !== undefined && options.crackLength > 0) {
+      return { grossArea, excludedArea, perimeter, perimeterSource, crackLength: options.crackLength, crackLengthSource: 'measured' };
+    }
+
+    return {
+      grossArea,
+      excludedArea,
+      perimeter,
+      perimeterSource,
+      crackLength: perimeter,
+      crackLengthSource: hasPerimeter ? 'perimeter' : 'approximated'
+    };
+  }
+
+  // Fill in a partial coat plan; sand loading defaults to the region's bags per gallon
+  private resolveCoatPlan(pricing: RegionalPricing, plan: Partial<CoatPlan> = {}): CoatPlan {
+    const poundsPerBag = pricing.materials.sand.poundsPerBag ?? DEFAULT_SAND_BAG_POUNDS;
+    return {
+      coats: plan.coats ?? 1,
+      method: plan.method ?? 'squeegee',
+      dilutionRatio: Math.max(plan.dilutionRatio ?? 0, 0),
+      sandLbsPerGallon: Math.max(plan.sandLbsPerGallon ?? pricing.materials.sand.bagsPerGallon * poundsPerBag, 0)
     };
   }
 
@@ -494,14 +1164,29 @@ export class AdvancedCalculationEngine {
     return JSON.stringify(this.regionalPricing, null, 2);
   }
 
-  // Import regional pricing from JSON
-  importRegionalPricing(jsonData: string): void {
+  // Validate an import and list what it would change, without applying it
+  previewRegionalPricingImport(jsonData: string): PricingImportPreview {
+    return previewPricingImport(jsonData, this.regionalPricing);
+  }
+
+  // Import regional pricing from JSON, returning the imported region keys
+  importRegionalPricing(jsonData: string): string[] {
     try {
-      const imported = JSON.parse(jsonData);
-      this.regionalPricing = { ...this.regionalPricing, ...imported };
+      const preview = this.previewRegionalPricingImport(jsonData);
+      if (preview.issues.length > 0) {
+        throw new PricingImportError(preview.issues);
+      }
+
+      for (const [region, pricing] of Object.entries(preview.regions)) {
+        this.setCurrentPricing(region, pricing);
+      }
       toast.success('Regional pricing data imported successfully');
+      return Object.keys(preview.regions);
     } catch (error) {
-      toast.error('Failed to import pricing data: Invalid JSON format');
+      const count = error instanceof PricingImportError ? error.issues.length : 0;
+      toast.error(count > 0
+        ? `Failed to import pricing data: ${count} invalid field${count > 1 ? 's' : ''}`
+        : 'Failed to import pricing data: Invalid JSON format');
       throw error;
     }
   }
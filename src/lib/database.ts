@@ -1,6 +1,9 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { DetailedEstimate } from './calculationEngine';
+import { DetailedEstimate, RegionalPricing } from './calculationEngine';
+import type { TaxExemptReason, TaxExemption } from './salesTax';
+import type { MeasurementCollection } from './measurementGeometry';
+import { validateRegionalPricing } from './pricingSchema';
 
 // Database types
 export interface Customer {
@@ -10,6 +13,9 @@ export interface Customer {
   phone?: string;
   address?: string;
   customer_type: 'residential' | 'commercial' | 'industrial';
+  tax_exempt_reason?: TaxExemptReason | null;
+  tax_exempt_certificate?: string | null; // exemption only applies with a certificate on file
+  tax_exempt_expires_on?: string | null; // ISO date
   created_at?: string;
   updated_at?: string;
 }
@@ -26,6 +32,8 @@ export interface Project {
   customer_type: 'residential' | 'commercial' | 'industrial';
   estimated_cost?: number;
   final_cost?: number;
+  measurements?: MeasurementCollection | null; // zones as last saved
+  customer?: Customer | null; // joined by getProjectById
   created_at?: string;
   updated_at?: string;
   user_id: string;
@@ -38,6 +46,7 @@ export interface EstimateRecord {
   version: number;
   is_current: boolean;
   notes?: string;
+  measurements?: MeasurementCollection | null; // the geometry this version was priced from
   created_at?: string;
   user_id: string;
 }
@@ -64,6 +73,57 @@ export interface ActivityLog {
   user_id: string;
 }
 
+export interface RegionalPricingRecord {
+  id?: string;
+  company_id: string | null;
+  region: string;
+  state: string;
+  pricing_data: RegionalPricing;
+  version: number;
+  effective_from: string;
+  is_active: boolean;
+  notes?: string | null;
+  created_at?: string;
+  user_id: string;
+}
+
+export interface FleetVehicle {
+  id: string;
+  name: string;
+  type: string | null;
+  license_plate: string;
+  mpg: number | null;
+  status: string | null;
+}
+// The exemption on file for a customer, in the shape the tax calculation takes
+export const customerTaxExemption = (customer?: Customer | null): TaxExemption | null =>
+  customer?.tax_exempt_certificate
+    ? {
+        reason: customer.tax_exempt_reason ?? 'other',
+        certificateNumber: customer.tax_exempt_certificate,
+        expiresOn: customer.tax_exempt_expires_on ?? undefined
+      }
+    : null;
+
+export const taxExemptionColumns = (
+  exemption?: TaxExemption | null
+): Pick<Customer, 'tax_exempt_reason' | 'tax_exempt_certificate' | 'tax_exempt_expires_on'> => ({
+  tax_exempt_reason: exemption?.reason ?? null,
+  tax_exempt_certificate: exemption?.certificateNumber.trim() || null,
+  tax_exempt_expires_on: exemption?.expiresOn || null
+});
+
+// Stored versions are checked before they reach the engine; one that fails (edited
+// by hand, or saved before a check existed) is skipped instead of priced with
+const validPricingRecords = (rows: RegionalPricingRecord[]): RegionalPricingRecord[] =>
+  rows.filter(row => {
+    const issues = validateRegionalPricing(row.region, row.pricing_data);
+    if (issues.length > 0) {
+      console.warn(`Skipping invalid ${row.region} pricing v${row.version}:`, issues);
+    }
+    return issues.length === 0;
+  });
+
 export class DatabaseService {
   // Customer Management
   async createCustomer(customer: Omit<Customer, 'id' | 'created_at' | 'updated_at'>): Promise<Customer> {
@@ -288,11 +348,13 @@ export class DatabaseService {
 
       if (error) throw error;
 
-      // Update project with estimated cost
+      // Update project with estimated cost and the measurements behind it
       if (estimate.is_current) {
         await this.updateProject(estimate.project_id, {
           estimated_cost: estimate.estimate_data.pricing.finalTotal,
-          status: 'estimated'
+          area: estimate.estimate_data.projectInfo.area,
+          status: 'estimated',
+          ...(estimate.measurements !== undefined && { measurements: estimate.measurements })
         });
       }
 
@@ -453,6 +515,141 @@ export class DatabaseService {
     }
   }
 
+  // Regional Pricing
+  async getCompanyId(): Promise<string | null> {
+    const user = await this.getCurrentUser();
+    if (!user) return null;
+
+    const { data } = await supabase
+      .from('user_profiles')
+      .select('company_id')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    return data?.company_id ?? null;
+  }
+
+  // Every active pricing version, oldest first; a company's versions replace the
+  // shared defaults for any region the company has priced
+  async getRegionalPricingVersions(): Promise<RegionalPricingRecord[]> {
+    try {
+      const companyId = await this.getCompanyId();
+
+      let query = supabase
+        .from('regional_pricing')
+        .select('*')
+        .eq('is_active', true)
+        .order('effective_from', { ascending: true })
+        .order('version', { ascending: true });
+
+      query = companyId
+        ? query.or(`company_id.eq.${companyId},company_id.is.null`)
+        : query.is('company_id', null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows = validPricingRecords((data || []) as unknown as RegionalPricingRecord[]);
+      const companyRegions = new Set(rows.filter(row => row.company_id !== null).map(row => row.region));
+      return rows.filter(row => row.company_id !== null || !companyRegions.has(row.region));
+    } catch (error) {
+      toast.error('Failed to load regional pricing');
+      throw error;
+    }
+  }
+
+  async getRegionalPricingHistory(region: string): Promise<RegionalPricingRecord[]> {
+    try {
+      const companyId = await this.getCompanyId();
+
+      let query = supabase
+        .from('regional_pricing')
+        .select('*')
+        .eq('region', region)
+        .order('version', { ascending: false });
+
+      query = companyId ? query.eq('company_id', companyId) : query.is('company_id', null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return validPricingRecords((data || []) as unknown as RegionalPricingRecord[]);
+    } catch (error) {
+      toast.error('Failed to fetch pricing history');
+      throw error;
+    }
+  }
+
+  // Saving never overwrites: each save is a new version effective from the given date
+  async saveRegionalPricing(
+    region: string,
+    pricing: RegionalPricing,
+    effectiveFrom: Date = new Date(),
+    notes?: string
+  ): Promise<RegionalPricingRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const companyId = await this.getCompanyId();
+      // Numbered after every stored version, including ones the history skips
+      let latest = supabase
+        .from('regional_pricing')
+        .select('version')
+        .eq('region', region)
+        .order('version', { ascending: false })
+        .limit(1);
+      latest = companyId ? latest.eq('company_id', companyId) : latest.is('company_id', null);
+      const { data: latestRows, error: versionError } = await latest;
+      if (versionError) throw versionError;
+      const nextVersion = latestRows && latestRows.length > 0 ? latestRows[0].version + 1 : 1;
+
+      const { data, error } = await supabase
+        .from('regional_pricing')
+        .insert([{
+          company_id: companyId,
+          region,
+          state: pricing.state,
+          pricing_data: JSON.parse(JSON.stringify(pricing)),
+          version: nextVersion,
+          effective_from: effectiveFrom.toISOString(),
+          notes: notes || null,
+          user_id: user.id
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await this.logActivity(
+        'regional_pricing_saved',
+        `Saved ${pricing.region} pricing v${nextVersion}`,
+        { region, version: nextVersion, effective_from: effectiveFrom.toISOString() }
+      );
+
+      toast.success(`${pricing.region} pricing saved (v${nextVersion})`);
+      return data as unknown as RegionalPricingRecord;
+    } catch (error) {
+      toast.error('Failed to save regional pricing');
+      throw error;
+    }
+  }
+
+  // Fleet
+  async getFleetVehicles(): Promise<FleetVehicle[]> {
+    try {
+      const { data, error } = await supabase
+        .from('fleet_vehicles')
+        .select('id, name, type, license_plate, mpg, status')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      toast.error('Failed to load fleet vehicles');
+      throw error;
+    }
+  }
+
   // Activity Logging
   async logActivity(
     action: string, 
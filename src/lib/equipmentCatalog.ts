@@ -0,0 +1,169 @@
+// Types for the equipment catalog and per-job equipment costing
+export type EquipmentCategory = 'sealcoat-rig' | 'crack-melter' | 'blower' | 'line-striper' | 'trailer';
+
+// Which part of the job the equipment runs for
+export type EquipmentUsage = 'sealcoating' | 'crack-filling' | 'striping' | 'job';
+
+export interface EquipmentItem {
+  id: string;
+  name: string;
+  category: EquipmentCategory;
+  costBasis: 'hour' | 'day';
+  ownershipCost: number; // depreciation, financing and insurance per hour or day
+  maintenanceReserve: number; // set aside for repairs, per hour or day
+  fuelGallonsPerHour: number; // engine fuel while running
+  usage: EquipmentUsage;
+  includeByDefault: boolean;
+}
+
+export interface EquipmentUsageHours {
+  sealcoating: number;
+  crackFilling: number;
+  striping: number;
+  jobDays: number;
+  hoursPerDay: number; // regular workday, to turn run hours into days
+}
+
+export interface EquipmentLineEstimate {
+  equipment: EquipmentItem;
+  hours: number;
+  days: number;
+  ownershipCost: number;
+  maintenanceCost: number;
+  fuelCost: number;
+  totalCost: number;
+}
+
+export const EQUIPMENT_CATEGORY_LABELS: Record<EquipmentCategory, string> = {
+  'sealcoat-rig': 'Sealcoat Rigs',
+  'crack-melter': 'Crack Melters',
+  blower: 'Blowers',
+  'line-striper': 'Line Stripers',
+  trailer: 'Trailers'
+};
+
+export const DEFAULT_EQUIPMENT_CATALOG: EquipmentItem[] = [
+  {
+    id: 'sealcoat-rig-550',
+    name: '550 gal sealcoat skid',
+    category: 'sealcoat-rig',
+    costBasis: 'hour',
+    ownershipCost: 18.00,
+    maintenanceReserve: 4.00,
+    fuelGallonsPerHour: 0.5,
+    usage: 'sealcoating',
+    includeByDefault: true
+  },
+  {
+    id: 'sealcoat-rig-300',
+    name: '300 gal sealcoat skid',
+    category: 'sealcoat-rig',
+    costBasis: 'hour',
+    ownershipCost: 12.00,
+    maintenanceReserve: 3.00,
+    fuelGallonsPerHour: 0.4,
+    usage: 'sealcoating',
+    includeByDefault: false
+  },
+  {
+    id: 'crack-melter-30',
+    name: '30 gal crack melter',
+    category: 'crack-melter',
+    costBasis: 'hour',
+    ownershipCost: 10.00,
+    maintenanceReserve: 3.00,
+    fuelGallonsPerHour: 0, // burns propane, priced as a material
+    usage: 'crack-filling',
+    includeByDefault: true
+  },
+  {
+    id: 'backpack-blower',
+    name: 'Backpack blower',
+    category: 'blower',
+    costBasis: 'hour',
+    ownershipCost: 1.50,
+    maintenanceReserve: 0.50,
+    fuelGallonsPerHour: 0.1,
+    usage: 'sealcoating',
+    includeByDefault: true
+  },
+  {
+    id: 'walk-behind-blower',
+    name: 'Walk-behind blower',
+    category: 'blower',
+    costBasis: 'hour',
+    ownershipCost: 3.00,
+    maintenanceReserve: 1.00,
+    fuelGallonsPerHour: 0.25,
+    usage: 'sealcoating',
+    includeByDefault: false
+  },
+  {
+    id: 'airless-striper',
+    name: 'Airless line striper',
+    category: 'line-striper',
+    costBasis: 'hour',
+    ownershipCost: 8.00,
+    maintenanceReserve: 2.00,
+    fuelGallonsPerHour: 0.15,
+    usage: 'striping',
+    includeByDefault: true
+  },
+  {
+    id: 'utility-trailer',
+    name: 'Equipment trailer',
+    category: 'trailer',
+    costBasis: 'day',
+    ownershipCost: 35.00,
+    maintenanceReserve: 5.00,
+    fuelGallonsPerHour: 0,
+    usage: 'job',
+    includeByDefault: true
+  }
+];
+
+// Linear feet of cracks one operator routes and fills per hour
+export const CRACK_FILL_FEET_PER_HOUR = 250;
+
+const runHours = (item: EquipmentItem, usage: EquipmentUsageHours): number => {
+  switch (item.usage) {
+    case 'sealcoating':
+      return usage.sealcoating;
+    case 'crack-filling':
+      return usage.crackFilling;
+    case 'striping':
+      return usage.striping;
+    case 'job':
+      return usage.jobDays * usage.hoursPerDay;
+  }
+};
+
+// Defaults skip equipment for work the job doesn't have
+export const defaultEquipmentIds = (catalog: EquipmentItem[], usage: EquipmentUsageHours): string[] =>
+  catalog.filter(item => item.includeByDefault && runHours(item, usage) > 0).map(item => item.id);
+
+export const calculateEquipment = (
+  catalog: EquipmentItem[],
+  selectedIds: string[],
+  usage: EquipmentUsageHours,
+  fuelPricePerGallon: number
+): EquipmentLineEstimate[] =>
+  catalog
+    .filter(item => selectedIds.includes(item.id))
+    .map(item => {
+      const hours = runHours(item, usage);
+      const days = item.usage === 'job' ? usage.jobDays : Math.ceil(hours / usage.hoursPerDay);
+      const units = item.costBasis === 'hour' ? hours : days;
+      const ownershipCost = units * item.ownershipCost;
+      const maintenanceCost = units * item.maintenanceReserve;
+      const fuelCost = hours * item.fuelGallonsPerHour * fuelPricePerGallon;
+      return {
+        equipment: item,
+        hours,
+        days,
+        ownershipCost,
+        maintenanceCost,
+        fuelCost,
+        totalCost: ownershipCost + maintenanceCost + fuelCost
+      };
+    });
@@ -0,0 +1,53 @@
+import type { CoatPlan, DetailedEstimate, EstimateOptions } from './calculationEngine';
+
+// Types for Good/Better/Best option packages priced from one set of measurements
+export interface EstimatePackage {
+  id: string;
+  name: string;
+  description: string;
+  coats: CoatPlan['coats'];
+  crackFill: boolean;
+  striping: boolean; // uses the estimate's striping plan when there is one
+}
+
+export interface PackageEstimate {
+  package: EstimatePackage;
+  estimate: DetailedEstimate;
+}
+
+export const DEFAULT_ESTIMATE_PACKAGES: EstimatePackage[] = [
+  {
+    id: 'good',
+    name: 'Good',
+    description: 'Seal only',
+    coats: 1,
+    crackFill: false,
+    striping: false
+  },
+  {
+    id: 'better',
+    name: 'Better',
+    description: 'Crack fill + seal',
+    coats: 1,
+    crackFill: true,
+    striping: false
+  },
+  {
+    id: 'best',
+    name: 'Best',
+    description: 'Crack fill + 2 coats + striping',
+    coats: 2,
+    crackFill: true,
+    striping: true
+  }
+];
+
+// The package decides the scope; everything else (measurements, crew, tax,
+// travel, pricing mode) comes from the base estimate options
+export const applyPackage = (options: EstimateOptions, pkg: EstimatePackage): EstimateOptions => ({
+  ...options,
+  coatPlan: { ...options.coatPlan, coats: pkg.coats },
+  zones: options.zones?.map(zone => ({ ...zone, coatPlan: { ...zone.coatPlan, coats: pkg.coats } })),
+  crackFill: pkg.crackFill,
+  striping: pkg.striping ? options.striping : undefined
+});
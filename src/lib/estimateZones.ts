@@ -0,0 +1,108 @@
+import type { CoatPlan, DetailedEstimate } from './calculationEngine';
+
+// Types for multi-area jobs: each drawn shape is a named zone with its own scope
+export type JobType = DetailedEstimate['projectInfo']['jobType'];
+
+export type PavementCondition = 'good' | 'fair' | 'poor';
+
+// Unpaved or unsealed shapes cut out of a zone
+export type ExclusionType = 'island' | 'dumpster-pad' | 'building' | 'other';
+
+export interface ZoneExclusion {
+  id: string;
+  type: ExclusionType;
+  area: number; // sq ft
+  outline?: number[][]; // [lng, lat] ring when drawn on the live map
+}
+
+export interface EstimateZone {
+  id: string;
+  name: string;
+  area: number; // sq ft as drawn, before exclusions
+  perimeter?: number; // measured edge length in linear feet
+  jobType: JobType;
+  condition: PavementCondition;
+  coatPlan?: Partial<CoatPlan>; // overrides the job's coat plan for this zone
+  exclusions?: ZoneExclusion[]; // holes in the zone that aren't sealed
+  outline?: number[][]; // [lng, lat] ring when drawn on the live map; sketch pad shapes have none
+}
+
+export interface ZoneEstimate {
+  zone: EstimateZone;
+  coatPlan: CoatPlan;
+  mixedGallons: number;
+  sealerGallons: number; // concentrate
+  manHours: number; // sealing hours, before the job's labor minimum
+  materialsCost: number; // sealer, plus its share of sand and fast dry
+  laborCost: number; // share of the crew cost by sealing hours
+  subtotal: number;
+  price: number; // share of the final total by subtotal
+}
+
+// Worn pavement soaks up more sealer and takes longer to prep
+export const PAVEMENT_CONDITIONS: Record<PavementCondition, { label: string; sealerFactor: number; laborFactor: number }> = {
+  good: { label: 'Good', sealerFactor: 1, laborFactor: 1 },
+  fair: { label: 'Fair', sealerFactor: 1.1, laborFactor: 1.1 },
+  poor: { label: 'Poor', sealerFactor: 1.25, laborFactor: 1.2 }
+};
+
+export const EXCLUSION_TYPES: Record<ExclusionType, string> = {
+  island: 'Landscaped island',
+  'dumpster-pad': 'Dumpster pad',
+  building: 'Building footprint',
+  other: 'Other'
+};
+
+// Saved zones are read back from JSON, so their values are checked before use
+const hasKey = <T extends object>(record: T, value: unknown): value is keyof T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+
+export const isPavementCondition = (value: unknown): value is PavementCondition => hasKey(PAVEMENT_CONDITIONS, value);
+
+export const isExclusionType = (value: unknown): value is ExclusionType => hasKey(EXCLUSION_TYPES, value);
+
+export const isJobType = (value: unknown): value is JobType => value === 'driveway' || value === 'parking-lot';
+
+// Unknown conditions price and read as good pavement
+export const pavementCondition = (condition: PavementCondition) =>
+  PAVEMENT_CONDITIONS[condition] ?? PAVEMENT_CONDITIONS.good;
+
+export const excludedZoneArea = (zone: EstimateZone): number =>
+  (zone.exclusions ?? []).reduce((sum, exclusion) => sum + exclusion.area, 0);
+
+// Area that actually gets sealed
+export const netZoneArea = (zone: EstimateZone): number =>
+  Math.max(zone.area - excludedZoneArea(zone), 0);
+
+export const totalZoneArea = (zones: EstimateZone[]): number =>
+  zones.reduce((sum, zone) => sum + netZoneArea(zone), 0);
+
+// Perimeters add up only when every zone was measured
+export const totalZonePerimeter = (zones: EstimateZone[]): number | undefined =>
+  zones.length > 0 && zones.every(zone => zone.perimeter !== undefined && zone.perimeter > 0)
+    ? zones.reduce((sum, zone) => sum + zone.perimeter, 0)
+    : undefined;
+
+// A freshly drawn shape, numbered after the zones already on the job; the
+// map's shape id lets exclusions drawn later find their zone
+export const createZone = (
+  zones: EstimateZone[],
+  area: number,
+  perimeter: number | undefined,
+  jobType: JobType,
+  id: string = Date.now().toString(),
+  outline?: number[][]
+): EstimateZone => ({
+  id,
+  name: `Area ${zones.length + 1}`,
+  area,
+  perimeter,
+  jobType,
+  condition: 'good',
+  outline
+});
+
+export const addExclusion = (zone: EstimateZone, type: ExclusionType, area: number, outline?: number[][]): EstimateZone => ({
+  ...zone,
+  exclusions: [...(zone.exclusions ?? []), { id: Date.now().toString(), type, area, outline }]
+});
@@ -2,30 +2,12 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
 import { toast } from 'sonner';
-
-interface EstimateData {
-  area: number;
-  materials: {
-    sealer: { gallons: number; cost: number };
-    sand: { bags: number; cost: number };
-    fastDry: { buckets: number; cost: number };
-    prepSeal: { buckets: number; cost: number };
-    crackFiller: { boxes: number; cost: number };
-    propane: { tanks: number; cost: number };
-  };
-  labor: {
-    hours: number;
-    cost: number;
-  };
-  fuel: {
-    distance: number;
-    cost: number;
-  };
-  subtotal: number;
-  markup25: number;
-  roundedUp: number;
-  finalTotal: number;
-}
+import { APPLICATION_METHODS, type DetailedEstimate } from './calculationEngine';
+import { REPAIR_METHODS } from './repairCalculator';
+import { TRAVEL_SOURCE_LABELS } from './travelCalculator';
+import type { PackageEstimate } from './estimatePackages';
+import { netZoneArea, pavementCondition } from './estimateZones';
+import { measurementsToDxf, measurementsToKml, zonesToGeoJSON, type CrackLine } from './measurementGeometry';
 
 interface ProjectInfo {
   address: string;
@@ -55,6 +37,14 @@ const defaultCompanyInfo: CompanyInfo = {
   logoUrl: import.meta.env.VITE_COMPANY_LOGO_URL
 };
 
+export type MeasurementFormat = 'geojson' | 'kml' | 'dxf';
+
+const MEASUREMENT_FILE_TYPES: Record<MeasurementFormat, { extension: string; type: string }> = {
+  geojson: { extension: 'geojson', type: 'application/geo+json' },
+  kml: { extension: 'kml', type: 'application/vnd.google-earth.kml+xml' },
+  dxf: { extension: 'dxf', type: 'application/dxf' }
+};
+
 export class ExportService {
   private static generateEstimateNumber(): string {
     const date = new Date();
@@ -79,22 +69,241 @@ export class ExportService {
     }).format(num);
   }
 
+  private static formatPercent(rate: number): string {
+    return `${this.formatNumber(rate * 100, 2)}%`;
+  }
+
+  // Coats, application method and mix, as one summary line
+  private static describeCoatPlan(estimate: DetailedEstimate): string {
+    const { coats, method, dilutionRatio, sandLbsPerGallon } = estimate.coatPlan;
+    return `${coats} coat${coats > 1 ? 's' : ''}, ${APPLICATION_METHODS[method].label.toLowerCase()}, ${this.formatPercent(dilutionRatio)} water, ${this.formatNumber(sandLbsPerGallon, 1)} lbs sand/gal`;
+  }
+
+  // Net area, with what was cut out of the drawn shapes when there was any
+  private static describeArea(estimate: DetailedEstimate): string {
+    const { grossArea, excludedArea } = estimate.measurements;
+    const net = `${this.formatNumber(estimate.projectInfo.area, 0)} sq ft`;
+    return excludedArea > 0
+      ? `${net} (${this.formatNumber(grossArea, 0)} gross less ${this.formatNumber(excludedArea, 0)} excluded)`
+      : net;
+  }
+
+  // Line items shared by the PDF table and the Excel summary sheet
+  private static getLineItems(estimate: DetailedEstimate): { description: string; quantity: string; unitCost: number; totalCost: number }[] {
+    const { materials, labor, expenses } = estimate;
+    return [
+      { description: 'Sealer Concentrate', quantity: `${this.formatNumber(materials.sealer.quantity, 1)} gallons`, unitCost: materials.sealer.unitCost, totalCost: materials.sealer.totalCost },
+      { description: 'Dilution Water', quantity: `${this.formatNumber(materials.water.quantity, 1)} gallons`, unitCost: materials.water.unitCost, totalCost: materials.water.totalCost },
+      { description: 'Sand', quantity: `${materials.sand.quantity} bags`, unitCost: materials.sand.unitCost, totalCost: materials.sand.totalCost },
+      { description: 'Fast Dry Additive', quantity: `${materials.fastDry.quantity} buckets`, unitCost: materials.fastDry.unitCost, totalCost: materials.fastDry.totalCost },
+      { description: 'Prep Seal', quantity: `${materials.prepSeal.quantity} buckets`, unitCost: materials.prepSeal.unitCost, totalCost: materials.prepSeal.totalCost },
+      { description: `Crack Filler (${this.formatNumber(estimate.measurements.crackLength, 0)} lf)`, quantity: `${materials.crackFiller.quantity} boxes`, unitCost: materials.crackFiller.unitCost, totalCost: materials.crackFiller.totalCost },
+      { description: 'Propane', quantity: `${materials.propane.quantity} tanks`, unitCost: materials.propane.unitCost, totalCost: materials.propane.totalCost },
+      { description: `Labor (crew of ${labor.schedule.crew.length}, ${labor.schedule.days.length} days)`, quantity: `${this.formatNumber(labor.hours, 1)} hours`, unitCost: labor.rate, totalCost: labor.totalCost },
+      { description: 'Fuel & Transportation', quantity: `${this.formatNumber(expenses.fuel.distance, 0)} miles`, unitCost: expenses.fuel.rate, totalCost: expenses.fuel.totalCost },
+      { description: 'Mobilization', quantity: `${expenses.mobilization.days} days`, unitCost: expenses.mobilization.perDay, totalCost: expenses.mobilization.totalCost },
+      { description: 'Insurance', quantity: this.formatPercent(expenses.insurance.rate), unitCost: 0, totalCost: expenses.insurance.totalCost },
+      ...expenses.equipment.items.map(item => ({
+        description: `Equipment - ${item.equipment.name}`,
+        quantity: item.equipment.costBasis === 'hour' ? `${this.formatNumber(item.hours, 1)} hours` : `${item.days} days`,
+        unitCost: item.equipment.ownershipCost + item.equipment.maintenanceReserve,
+        totalCost: item.totalCost
+      })),
+      { description: 'Small Tools', quantity: '1 project', unitCost: expenses.equipment.smallTools, totalCost: expenses.equipment.smallTools },
+      { description: 'Permits', quantity: '1 project', unitCost: expenses.permits.totalCost, totalCost: expenses.permits.totalCost },
+    ];
+  }
+
+  // jspdf-autotable records the last table's bottom edge on the document
+  private static getLastTableY(pdf: jsPDF): number {
+    return (pdf as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  }
+
+  private static getStripingItems(estimate: DetailedEstimate): { description: string; quantity: string; unitCost: number; totalCost: number }[] {
+    const { striping } = estimate;
+    if (!striping) return [];
+
+    const { plan, materials, labor } = striping;
+    return [
+      { description: `Line Paint (${this.formatNumber(striping.stripeLinearFeet, 0)} lf, ${plan.stalls} stalls at ${plan.stallLayout}°)`, quantity: `${materials.paint.quantity} gallons`, unitCost: materials.paint.unitCost, totalCost: materials.paint.totalCost },
+      { description: `Curb Paint (${this.formatNumber(plan.curbLinearFeet, 0)} lf)`, quantity: `${materials.curbPaint.quantity} gallons`, unitCost: materials.curbPaint.unitCost, totalCost: materials.curbPaint.totalCost },
+      { description: 'Glass Beads', quantity: `${materials.beads.quantity} bags`, unitCost: materials.beads.unitCost, totalCost: materials.beads.totalCost },
+      { description: `Stencils (${plan.handicapSymbols} handicap, ${plan.arrows} arrows, ${plan.stopBars} stop bars)`, quantity: `${materials.stencils.quantity} sets`, unitCost: 0, totalCost: materials.stencils.totalCost },
+      { description: 'Striping Labor', quantity: `${this.formatNumber(labor.hours, 1)} hours`, unitCost: labor.rate, totalCost: labor.totalCost },
+    ].filter(item => item.totalCost > 0);
+  }
+
+  // One line per area when the job has several, priced at its share of the total
+  private static getZoneItems(estimate: DetailedEstimate): { description: string; quantity: string; totalCost: number }[] {
+    const zones = estimate.zones ?? [];
+    if (zones.length < 2) return [];
+
+    return zones.map(({ zone, coatPlan, price }) => ({
+      description: `${zone.name} (${zone.jobType === 'driveway' ? 'driveway' : 'parking lot'}, ${pavementCondition(zone.condition).label.toLowerCase()} condition)`,
+      quantity: `${this.formatNumber(netZoneArea(zone), 0)} sq ft, ${coatPlan.coats} coat${coatPlan.coats > 1 ? 's' : ''}`,
+      totalCost: price
+    }));
+  }
+
+  private static getRepairItems(estimate: DetailedEstimate): { description: string; quantity: string; unitCost: number; totalCost: number }[] {
+    if (!estimate.repairs) return [];
+
+    return estimate.repairs.lines.flatMap(line => {
+      const label = `${REPAIR_METHODS[line.item.method].label} (${this.formatNumber(line.item.area, 0)} sq ft × ${this.formatNumber(line.item.depthInches, 1)}")`;
+      return [
+        { description: `${label} - Asphalt`, quantity: `${this.formatNumber(line.tons, 2)} tons`, unitCost: line.tons > 0 ? line.material.cost / line.tons : 0, totalCost: line.material.cost },
+        { description: `${label} - Tack Coat`, quantity: `${this.formatNumber(line.tackCoat.gallons, 1)} gallons`, unitCost: 0, totalCost: line.tackCoat.cost },
+        { description: `${label} - Saw Cutting`, quantity: `${this.formatNumber(line.sawCut.linearFeet, 0)} lf`, unitCost: 0, totalCost: line.sawCut.cost },
+        { description: `${label} - Compaction`, quantity: `${this.formatNumber(line.compaction.hours, 1)} hours`, unitCost: 0, totalCost: line.compaction.cost },
+        { description: `${label} - Disposal`, quantity: `${this.formatNumber(line.disposal.tons, 2)} tons`, unitCost: 0, totalCost: line.disposal.cost },
+        { description: `${label} - Labor`, quantity: `${this.formatNumber(line.labor.hours, 1)} hours`, unitCost: line.labor.rate, totalCost: line.labor.cost },
+      ].filter(item => item.totalCost > 0);
+    });
+  }
+
+  // Titled breakdown table below the previous one; skipped when empty
+  private static addSectionTable(
+    pdf: jsPDF,
+    title: string,
+    items: { description: string; quantity: string; totalCost: number }[]
+  ): void {
+    if (items.length === 0) return;
+
+    const sectionY = this.getLastTableY(pdf) + 12;
+    pdf.setFontSize(16);
+    pdf.setTextColor(0, 51, 102);
+    pdf.text(title, 20, sectionY);
+
+    autoTable(pdf, {
+      startY: sectionY + 5,
+      head: [['Description', 'Quantity', 'Cost']],
+      body: items.map(item => [
+        item.description,
+        item.quantity,
+        this.formatCurrency(item.totalCost)
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [0, 51, 102],
+        textColor: [255, 255, 255],
+        fontSize: 12,
+        fontStyle: 'bold',
+      },
+      bodyStyles: {
+        fontSize: 10,
+      },
+      columnStyles: {
+        0: { cellWidth: 80 },
+        1: { cellWidth: 50, halign: 'center' },
+        2: { cellWidth: 40, halign: 'right' },
+      },
+      margin: { left: 20, right: 20 },
+    });
+  }
+
+  private static resolveProjectInfo(estimate: DetailedEstimate, projectInfo: Partial<ProjectInfo>): ProjectInfo {
+    return {
+      address: projectInfo.address || estimate.projectInfo.address || 'Address not specified',
+      jobType: projectInfo.jobType || estimate.projectInfo.jobType,
+      customerName: projectInfo.customerName || 'Customer Name',
+      customerEmail: projectInfo.customerEmail || '',
+      customerPhone: projectInfo.customerPhone || '',
+      projectDate: projectInfo.projectDate || new Date().toLocaleDateString(),
+      estimateNumber: projectInfo.estimateNumber || this.generateEstimateNumber(),
+    };
+  }
+
+  // Company header, document title and estimate info box; returns the y below the box
+  private static addLetterhead(pdf: jsPDF, company: CompanyInfo, project: ProjectInfo, title: string): number {
+    // Set fonts
+    pdf.setFont('helvetica');
+
+    // Header Section
+    let yPosition = 20;
+
+    // Company Logo (if available)
+    if (company.logoUrl) {
+      try {
+        // Note: In a real implementation, you'd load the logo image
+        // pdf.addImage(logoData, 'PNG', 20, yPosition, 30, 20);
+      } catch (error) {
+        console.log('Logo loading failed, continuing without logo');
+      }
+    }
+
+    // Company Information
+    pdf.setFontSize(20);
+    pdf.setTextColor(0, 51, 102); // Dark blue
+    pdf.text(company.name, 20, yPosition + 10);
+
+    pdf.setFontSize(10);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(company.address, 20, yPosition + 20);
+    pdf.text(`Phone: ${company.phone} | Email: ${company.email}`, 20, yPosition + 27);
+    if (company.website) {
+      pdf.text(`Website: ${company.website}`, 20, yPosition + 34);
+    }
+
+    // Title
+    yPosition += 50;
+    pdf.setFontSize(24);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(title, 20, yPosition);
+
+    // Estimate Info Box
+    yPosition += 15;
+    pdf.setFillColor(240, 240, 240);
+    pdf.rect(20, yPosition, 170, 30, 'F');
+
+    pdf.setFontSize(12);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(`Estimate #: ${project.estimateNumber}`, 25, yPosition + 8);
+    pdf.text(`Date: ${project.projectDate}`, 25, yPosition + 16);
+    pdf.text(`Job Type: ${project.jobType.charAt(0).toUpperCase() + project.jobType.slice(1)}`, 25, yPosition + 24);
+
+    return yPosition + 30;
+  }
+
+  private static addTerms(pdf: jsPDF, termsY: number): void {
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(0, 51, 102);
+    pdf.text('TERMS & CONDITIONS', 20, termsY);
+
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(0, 0, 0);
+
+    const terms = [
+      '• This estimate is valid for 30 days from the date above.',
+      '• 50% deposit required before work begins.',
+      '• Weather conditions may affect scheduling.',
+      '• Final cost may vary based on actual site conditions.',
+      '• All work performed in accordance with industry standards.',
+      '• Customer responsible for marking underground utilities.'
+    ];
+
+    terms.forEach((term, index) => {
+      pdf.text(term, 20, termsY + 10 + (index * 6));
+    });
+  }
+
+  private static addFooter(pdf: jsPDF): void {
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    pdf.setFontSize(8);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text('Generated by PaveEstimator Pro', 20, pageHeight - 10);
+    pdf.text(new Date().toLocaleString(), 190, pageHeight - 10, { align: 'right' });
+  }
+
   static async exportToPDF(
-    estimateData: EstimateData,
+    estimate: DetailedEstimate,
     projectInfo: Partial<ProjectInfo> = {},
     companyInfo: Partial<CompanyInfo> = {}
   ): Promise<void> {
     try {
       const company = { ...defaultCompanyInfo, ...companyInfo };
-      const project: ProjectInfo = {
-        address: projectInfo.address || 'Address not specified',
-        jobType: projectInfo.jobType || 'driveway',
-        customerName: projectInfo.customerName || 'Customer Name',
-        customerEmail: projectInfo.customerEmail || '',
-        customerPhone: projectInfo.customerPhone || '',
-        projectDate: projectInfo.projectDate || new Date().toLocaleDateString(),
-        estimateNumber: projectInfo.estimateNumber || this.generateEstimateNumber(),
-      };
+      const project = this.resolveProjectInfo(estimate, projectInfo);
 
       // Create PDF document
       const pdf = new jsPDF({
@@ -102,55 +311,10 @@ export class ExportService {
         unit: 'mm',
         format: 'a4',
       });
-
-      // Set fonts
-      pdf.setFont('helvetica');
-
-      // Header Section
-      let yPosition = 20;
-      
-      // Company Logo (if available)
-      if (company.logoUrl) {
-        try {
-          // Note: In a real implementation, you'd load the logo image
-          // pdf.addImage(logoData, 'PNG', 20, yPosition, 30, 20);
-        } catch (error) {
-          console.log('Logo loading failed, continuing without logo');
-        }
-      }
-
-      // Company Information
-      pdf.setFontSize(20);
-      pdf.setTextColor(0, 51, 102); // Dark blue
-      pdf.text(company.name, 20, yPosition + 10);
-      
-      pdf.setFontSize(10);
-      pdf.setTextColor(100, 100, 100);
-      pdf.text(company.address, 20, yPosition + 20);
-      pdf.text(`Phone: ${company.phone} | Email: ${company.email}`, 20, yPosition + 27);
-      if (company.website) {
-        pdf.text(`Website: ${company.website}`, 20, yPosition + 34);
-      }
-
-      // Title
-      yPosition += 50;
-      pdf.setFontSize(24);
-      pdf.setTextColor(0, 0, 0);
-      pdf.text('SEALCOATING ESTIMATE', 20, yPosition);
-      
-      // Estimate Info Box
-      yPosition += 15;
-      pdf.setFillColor(240, 240, 240);
-      pdf.rect(20, yPosition, 170, 30, 'F');
-      
-      pdf.setFontSize(12);
-      pdf.setTextColor(0, 0, 0);
-      pdf.text(`Estimate #: ${project.estimateNumber}`, 25, yPosition + 8);
-      pdf.text(`Date: ${project.projectDate}`, 25, yPosition + 16);
-      pdf.text(`Job Type: ${project.jobType.charAt(0).toUpperCase() + project.jobType.slice(1)}`, 25, yPosition + 24);
+      let yPosition = this.addLetterhead(pdf, company, project, 'SEALCOATING ESTIMATE');
 
       // Customer Information
-      yPosition += 40;
+      yPosition += 10;
       pdf.setFontSize(16);
       pdf.setTextColor(0, 51, 102);
       pdf.text('CUSTOMER INFORMATION', 20, yPosition);
@@ -166,27 +330,20 @@ export class ExportService {
         pdf.text(`Phone: ${project.customerPhone}`, 20, yPosition + 16);
       }
       pdf.text(`Address: ${project.address}`, 20, yPosition + 24);
-      pdf.text(`Area: ${this.formatNumber(estimateData.area, 0)} sq ft`, 20, yPosition + 32);
+      pdf.text(`Area: ${this.describeArea(estimate)}`, 20, yPosition + 32);
+      pdf.text(`Application: ${this.describeCoatPlan(estimate)}`, 20, yPosition + 40);
 
       // Materials and Labor Table
-      yPosition += 50;
+      yPosition += 58;
       pdf.setFontSize(16);
       pdf.setTextColor(0, 51, 102);
       pdf.text('ESTIMATE BREAKDOWN', 20, yPosition);
 
-      const tableData = [
-        // Materials
-        ['Sealer', `${this.formatNumber(estimateData.materials.sealer.gallons, 1)} gallons`, this.formatCurrency(estimateData.materials.sealer.cost)],
-        ['Sand', `${estimateData.materials.sand.bags} bags`, this.formatCurrency(estimateData.materials.sand.cost)],
-        ['Fast Dry Additive', `${estimateData.materials.fastDry.buckets} buckets`, this.formatCurrency(estimateData.materials.fastDry.cost)],
-        ['Prep Seal', `${estimateData.materials.prepSeal.buckets} buckets`, this.formatCurrency(estimateData.materials.prepSeal.cost)],
-        ['Crack Filler', `${estimateData.materials.crackFiller.boxes} boxes`, this.formatCurrency(estimateData.materials.crackFiller.cost)],
-        ['Propane', `${estimateData.materials.propane.tanks} tanks`, this.formatCurrency(estimateData.materials.propane.cost)],
-        
-        // Labor and Fuel
-        ['Labor', `${estimateData.labor.hours} hours`, this.formatCurrency(estimateData.labor.cost)],
-        ['Fuel & Transportation', `${estimateData.fuel.distance} miles`, this.formatCurrency(estimateData.fuel.cost)],
-      ];
+      const tableData = this.getLineItems(estimate).map(item => [
+        item.description,
+        item.quantity,
+        this.formatCurrency(item.totalCost)
+      ]);
 
       autoTable(pdf, {
         startY: yPosition + 10,
@@ -210,66 +367,175 @@ export class ExportService {
         margin: { left: 20, right: 20 },
       });
 
-      // Cost Summary
-      const finalY = (pdf as any).lastAutoTable.finalY + 20;
+      // Optional sections priced alongside the sealcoat
+      this.addSectionTable(pdf, 'PRICE BY AREA', this.getZoneItems(estimate));
+      this.addSectionTable(pdf, 'STRIPING & MARKINGS', this.getStripingItems(estimate));
+      this.addSectionTable(pdf, 'REPAIRS & PATCHING', this.getRepairItems(estimate));
+
+      // Cost Summary, moved to a fresh page when it would not fit with the terms
+      let finalY = this.getLastTableY(pdf) + 20;
+      if (finalY + 110 > pdf.internal.pageSize.getHeight()) {
+        pdf.addPage();
+        finalY = 20;
+      }
       
       // Summary box
       pdf.setFillColor(250, 250, 250);
-      pdf.rect(120, finalY, 70, 40, 'F');
+      pdf.rect(120, finalY, 70, 48, 'F');
       pdf.setLineWidth(0.5);
-      pdf.rect(120, finalY, 70, 40);
+      pdf.rect(120, finalY, 70, 48);
 
       pdf.setFontSize(12);
       pdf.setTextColor(0, 0, 0);
       pdf.text('Subtotal:', 125, finalY + 8);
-      pdf.text(this.formatCurrency(estimateData.subtotal), 185, finalY + 8, { align: 'right' });
+      pdf.text(this.formatCurrency(estimate.pricing.subtotal), 185, finalY + 8, { align: 'right' });
       
-      pdf.text('25% Markup:', 125, finalY + 16);
-      pdf.text(this.formatCurrency(estimateData.markup25 - estimateData.subtotal), 185, finalY + 16, { align: 'right' });
+      // A price discount is netted against markup to keep the box to four lines
+      const priceDiscount = estimate.pricing.discount?.appliesTo === 'price' ? estimate.pricing.discount.amount : 0;
+      pdf.text(priceDiscount > 0 ? 'Markup less discount:' : `Markup (${this.formatPercent(estimate.pricing.markup)}):`, 125, finalY + 16);
+      pdf.text(this.formatCurrency(estimate.pricing.markupAmount - priceDiscount), 185, finalY + 16, { align: 'right' });
+
+      pdf.text(`Tax (${estimate.pricing.tax.exemption ? 'exempt' : this.formatPercent(estimate.pricing.taxRate)}):`, 125, finalY + 24);
+      pdf.text(this.formatCurrency(estimate.pricing.taxAmount), 185, finalY + 24, { align: 'right' });
       
       pdf.setLineWidth(1);
-      pdf.line(125, finalY + 22, 185, finalY + 22);
+      pdf.line(125, finalY + 30, 185, finalY + 30);
       
       pdf.setFontSize(14);
       pdf.setFont('helvetica', 'bold');
-      pdf.text('TOTAL:', 125, finalY + 32);
-      pdf.text(this.formatCurrency(estimateData.finalTotal), 185, finalY + 32, { align: 'right' });
+      pdf.text('TOTAL:', 125, finalY + 40);
+      pdf.text(this.formatCurrency(estimate.pricing.finalTotal), 185, finalY + 40, { align: 'right' });
+
+      // Tax basis under the summary box
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(pdf.splitTextToSize(`Tax basis: ${estimate.pricing.tax.basis}`, 70).slice(0, 2), 120, finalY + 53);
+      pdf.setTextColor(0, 0, 0);
+
+      this.addTerms(pdf, finalY + 63);
+      this.addFooter(pdf);
+
+      // Save the PDF
+      const fileName = `sealcoating-estimate-${project.estimateNumber}.pdf`;
+      pdf.save(fileName);
+      
+      toast.success(`PDF exported successfully: ${fileName}`);
+    } catch (error) {
+      console.error('PDF export error:', error);
+      toast.error('Failed to export PDF. Please try again.');
+    }
+  }
+
+  // One proposal listing every option package, with a box per option for the customer to pick
+  static async exportOptionsPDF(
+    packages: PackageEstimate[],
+    projectInfo: Partial<ProjectInfo> = {},
+    companyInfo: Partial<CompanyInfo> = {}
+  ): Promise<void> {
+    try {
+      if (packages.length === 0) {
+        throw new Error('No option packages to export');
+      }
+
+      const company = { ...defaultCompanyInfo, ...companyInfo };
+      const project = this.resolveProjectInfo(packages[0].estimate, projectInfo);
+
+      const pdf = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4',
+      });
+      let yPosition = this.addLetterhead(pdf, company, project, 'SEALCOATING OPTIONS');
+
+      // Customer Information
+      yPosition += 10;
+      pdf.setFontSize(16);
+      pdf.setTextColor(0, 51, 102);
+      pdf.text('CUSTOMER INFORMATION', 20, yPosition);
+
+      yPosition += 10;
+      pdf.setFontSize(12);
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(`Name: ${project.customerName}`, 20, yPosition);
+      pdf.text(`Address: ${project.address}`, 20, yPosition + 8);
+      pdf.text(`Area: ${this.formatNumber(packages[0].estimate.projectInfo.area, 0)} sq ft`, 20, yPosition + 16);
+
+      // Options side by side
+      yPosition += 30;
+      pdf.setFontSize(16);
+      pdf.setTextColor(0, 51, 102);
+      pdf.text('YOUR OPTIONS', 20, yPosition);
+
+      const included = (value: boolean) => (value ? 'Included' : '—');
+      const rows: [string, (option: PackageEstimate) => string][] = [
+        ['Scope', option => option.package.description],
+        ['Application', option => this.describeCoatPlan(option.estimate)],
+        ['Crack filling', option => included(option.package.crackFill)],
+        ['Striping', option => included(!!option.estimate.striping)],
+        ['Repairs', option => included(!!option.estimate.repairs)],
+        ['Price', option => this.formatCurrency(option.estimate.pricing.beforeTax)],
+        ['Tax', option => this.formatCurrency(option.estimate.pricing.taxAmount)],
+        ['Total', option => this.formatCurrency(option.estimate.pricing.finalTotal)],
+      ];
+
+      autoTable(pdf, {
+        startY: yPosition + 10,
+        head: [['', ...packages.map(option => option.package.name)]],
+        body: rows.map(([label, value]) => [label, ...packages.map(value)]),
+        theme: 'grid',
+        headStyles: {
+          fillColor: [0, 51, 102],
+          textColor: [255, 255, 255],
+          fontSize: 12,
+          fontStyle: 'bold',
+          halign: 'center',
+        },
+        bodyStyles: {
+          fontSize: 10,
+          halign: 'center',
+        },
+        columnStyles: {
+          0: { cellWidth: 35, halign: 'left', fontStyle: 'bold' },
+        },
+        margin: { left: 20, right: 20 },
+      });
+
+      // Customer selection, moved to a fresh page when it would not fit with the terms
+      let selectionY = this.getLastTableY(pdf) + 15;
+      if (selectionY + 30 + packages.length * 8 + 55 > pdf.internal.pageSize.getHeight()) {
+        pdf.addPage();
+        selectionY = 20;
+      }
 
-      // Terms and Conditions
-      const termsY = finalY + 55;
       pdf.setFontSize(12);
       pdf.setFont('helvetica', 'bold');
       pdf.setTextColor(0, 51, 102);
-      pdf.text('TERMS & CONDITIONS', 20, termsY);
-      
-      pdf.setFontSize(9);
+      pdf.text('PLEASE SELECT ONE OPTION', 20, selectionY);
+
       pdf.setFont('helvetica', 'normal');
       pdf.setTextColor(0, 0, 0);
-      
-      const terms = [
-        '• This estimate is valid for 30 days from the date above.',
-        '• 50% deposit required before work begins.',
-        '• Weather conditions may affect scheduling.',
-        '• Final cost may vary based on actual site conditions.',
-        '• All work performed in accordance with industry standards.',
-        '• Customer responsible for marking underground utilities.'
-      ];
-      
-      terms.forEach((term, index) => {
-        pdf.text(term, 20, termsY + 10 + (index * 6));
+      pdf.setLineWidth(0.3);
+      packages.forEach((option, index) => {
+        const rowY = selectionY + 10 + index * 8;
+        pdf.rect(20, rowY - 4, 5, 5);
+        pdf.text(`${option.package.name}: ${option.package.description}`, 30, rowY);
+        pdf.text(this.formatCurrency(option.estimate.pricing.finalTotal), 190, rowY, { align: 'right' });
       });
 
-      // Footer
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      pdf.setFontSize(8);
-      pdf.setTextColor(150, 150, 150);
-      pdf.text('Generated by PaveEstimator Pro', 20, pageHeight - 10);
-      pdf.text(new Date().toLocaleString(), 190, pageHeight - 10, { align: 'right' });
+      const signatureY = selectionY + 18 + packages.length * 8;
+      pdf.line(20, signatureY, 110, signatureY);
+      pdf.line(130, signatureY, 190, signatureY);
+      pdf.setFontSize(9);
+      pdf.text('Customer signature', 20, signatureY + 5);
+      pdf.text('Date', 130, signatureY + 5);
 
-      // Save the PDF
-      const fileName = `sealcoating-estimate-${project.estimateNumber}.pdf`;
+      this.addTerms(pdf, signatureY + 15);
+      this.addFooter(pdf);
+
+      const fileName = `sealcoating-options-${project.estimateNumber}.pdf`;
       pdf.save(fileName);
-      
+
       toast.success(`PDF exported successfully: ${fileName}`);
     } catch (error) {
       console.error('PDF export error:', error);
@@ -278,21 +544,13 @@ export class ExportService {
   }
 
   static async exportToExcel(
-    estimateData: EstimateData,
+    estimate: DetailedEstimate,
     projectInfo: Partial<ProjectInfo> = {},
     companyInfo: Partial<CompanyInfo> = {}
   ): Promise<void> {
     try {
       const company = { ...defaultCompanyInfo, ...companyInfo };
-      const project: ProjectInfo = {
-        address: projectInfo.address || 'Address not specified',
-        jobType: projectInfo.jobType || 'driveway',
-        customerName: projectInfo.customerName || 'Customer Name',
-        customerEmail: projectInfo.customerEmail || '',
-        customerPhone: projectInfo.customerPhone || '',
-        projectDate: projectInfo.projectDate || new Date().toLocaleDateString(),
-        estimateNumber: projectInfo.estimateNumber || this.generateEstimateNumber(),
-      };
+      const project = this.resolveProjectInfo(estimate, projectInfo);
 
       // Create workbook
       const workbook = XLSX.utils.book_new();
@@ -315,25 +573,67 @@ export class ExportService {
         ['Customer Phone', project.customerPhone],
         ['Job Address', project.address],
         ['Job Type', project.jobType],
-        ['Area (sq ft)', estimateData.area],
+        ['Region', estimate.projectInfo.region],
+        ['Area (sq ft)', estimate.projectInfo.area],
         [],
         ['Materials & Labor'],
         ['Description', 'Quantity', 'Unit Cost', 'Total Cost'],
-        ['Sealer', `${this.formatNumber(estimateData.materials.sealer.gallons, 1)} gallons`, '$3.65', this.formatCurrency(estimateData.materials.sealer.cost)],
-        ['Sand', `${estimateData.materials.sand.bags} bags`, '$10.00', this.formatCurrency(estimateData.materials.sand.cost)],
-        ['Fast Dry Additive', `${estimateData.materials.fastDry.buckets} buckets`, '$50.00', this.formatCurrency(estimateData.materials.fastDry.cost)],
-        ['Prep Seal', `${estimateData.materials.prepSeal.buckets} buckets`, '$50.00', this.formatCurrency(estimateData.materials.prepSeal.cost)],
-        ['Crack Filler', `${estimateData.materials.crackFiller.boxes} boxes`, '$44.99', this.formatCurrency(estimateData.materials.crackFiller.cost)],
-        ['Propane', `${estimateData.materials.propane.tanks} tanks`, '$10.00', this.formatCurrency(estimateData.materials.propane.cost)],
-        ['Labor', `${estimateData.labor.hours} hours`, '$12.00', this.formatCurrency(estimateData.labor.cost)],
-        ['Fuel & Transportation', `${estimateData.fuel.distance} miles`, 'Variable', this.formatCurrency(estimateData.fuel.cost)],
+        ...this.getLineItems(estimate).map(item => [
+          item.description,
+          item.quantity,
+          item.unitCost ? this.formatCurrency(item.unitCost) : '',
+          this.formatCurrency(item.totalCost)
+        ]),
+        ...(estimate.zones?.length > 1 ? [
+          [],
+          ['Areas'],
+          ['Area', 'Scope', 'Cost', 'Price'],
+          ...this.getZoneItems(estimate).map((item, index) => [
+            estimate.zones[index].zone.name,
+            item.quantity,
+            this.formatCurrency(estimate.zones[index].subtotal),
+            this.formatCurrency(item.totalCost)
+          ]),
+        ] : []),
+        ...(estimate.striping ? [
+          [],
+          ['Striping & Markings'],
+          ['Description', 'Quantity', 'Unit Cost', 'Total Cost'],
+          ...this.getStripingItems(estimate).map(item => [
+            item.description,
+            item.quantity,
+            item.unitCost ? this.formatCurrency(item.unitCost) : '',
+            this.formatCurrency(item.totalCost)
+          ]),
+          ['Striping Total', '', '', this.formatCurrency(estimate.striping.totalCost)],
+        ] : []),
+        ...(estimate.repairs ? [
+          [],
+          ['Repairs & Patching'],
+          ['Description', 'Quantity', 'Unit Cost', 'Total Cost'],
+          ...this.getRepairItems(estimate).map(item => [
+            item.description,
+            item.quantity,
+            item.unitCost ? this.formatCurrency(item.unitCost) : '',
+            this.formatCurrency(item.totalCost)
+          ]),
+          ['Repairs Total', '', '', this.formatCurrency(estimate.repairs.totalCost)],
+        ] : []),
         [],
         ['Cost Summary'],
-        ['Subtotal', this.formatCurrency(estimateData.subtotal)],
-        ['25% Markup', this.formatCurrency(estimateData.markup25 - estimateData.subtotal)],
-        ['After Markup', this.formatCurrency(estimateData.markup25)],
-        ['Rounded Up', this.formatCurrency(estimateData.roundedUp)],
-        ['Final Total', this.formatCurrency(estimateData.finalTotal)],
+        ['Subtotal', this.formatCurrency(estimate.pricing.subtotal)],
+        [`Markup (${this.formatPercent(estimate.pricing.markup)})`, this.formatCurrency(estimate.pricing.markupAmount)],
+        ...(estimate.pricing.discount?.appliesTo === 'price' ? [
+          [`Volume Discount (${this.formatPercent(estimate.pricing.discount.rate)})`, `-${this.formatCurrency(estimate.pricing.discount.amount)}`],
+        ] : []),
+        ['Before Tax', this.formatCurrency(estimate.pricing.beforeTax)],
+        [`Tax (${this.formatPercent(estimate.pricing.taxRate)})`, this.formatCurrency(estimate.pricing.taxAmount)],
+        ['Tax Basis', estimate.pricing.tax.basis],
+        ['Final Total', this.formatCurrency(estimate.pricing.finalTotal)],
+        ['Price per sq ft', this.formatCurrency(estimate.pricing.pricePerSqFt)],
+        [],
+        ['Why This Price'],
+        ...estimate.pricing.explanation.map(line => [line]),
       ];
 
       const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
@@ -350,31 +650,65 @@ export class ExportService {
       XLSX.utils.book_append_sheet(workbook, summarySheet, 'Estimate Summary');
 
       // Material Calculations Sheet (for advanced users)
+      const { measurements, coatPlan, materials, labor, expenses, pricing, profitAnalysis } = estimate;
+      const area = estimate.projectInfo.area;
       const calculationsData = [
         ['MATERIAL CALCULATIONS'],
         [],
-        ['Area (sq ft)', estimateData.area],
-        ['Sealer Coverage Rate (sq ft per gallon)', '1/0.13 = 7.69'],
-        ['Sand Ratio (bags per 50 gallons sealer)', '1 bag per 50 gallons'],
-        ['Fast Dry Ratio (buckets per 150 gallons sealer)', '1 bucket per 150 gallons'],
-        ['Crack Filler Coverage (linear feet per box)', '100 ft per box'],
-        ['Propane Usage (tanks per 200 ft perimeter)', '1 tank per 200 ft'],
-        ['Labor Rate (hours per 1000 sq ft)', '1 hour per 1000 sq ft'],
-        ['Labor Cost per Hour', '$12.00'],
-        ['Fuel Distance to SealMaster', '45 miles'],
-        ['Fuel Efficiency (mpg)', '8 mpg'],
-        ['Fuel Price per Gallon', '$3.50'],
+        ['Area (sq ft)', area],
+        ...(measurements.excludedArea > 0
+          ? [
+              ['Gross Area (sq ft)', this.formatNumber(measurements.grossArea, 0)],
+              ['Excluded Area (sq ft)', this.formatNumber(measurements.excludedArea, 0)]
+            ]
+          : []),
+        ['Perimeter (ft)', `${this.formatNumber(measurements.perimeter, 0)} (${measurements.perimeterSource})`],
+        ['Crack Length (ft)', `${this.formatNumber(measurements.crackLength, 0)} (${measurements.crackLengthSource})`],
+        ['Coat Plan', this.describeCoatPlan(estimate)],
+        ...coatPlan.mixedGallonsPerCoat.map((gallons, index) => [
+          `Coat ${index + 1} (${this.formatNumber(coatPlan.coverageRates[index], 2)} sq ft per gallon)`,
+          `${this.formatNumber(gallons, 2)} mixed gallons`
+        ]),
+        ['Mixed Gallons', this.formatNumber(coatPlan.mixedGallons, 2)],
+        ['Sand Loading', `${this.formatNumber(coatPlan.sandPounds, 0)} lbs`],
+        ['Sealer Price per Gallon', this.formatCurrency(materials.sealer.unitCost)],
+        ['Labor Cost per Hour', this.formatCurrency(labor.rate)],
+        ['Labor Skill Level', labor.skillLevel],
+        ['Crew', labor.schedule.crew.map(member => `${member.role} ${this.formatCurrency(member.hourlyRate)}/hr`).join(', ')],
+        ['Job Days', `${labor.schedule.days.length} (${labor.schedule.overtimePolicy === 'overtime' ? 'overtime allowed' : 'no overtime'})`],
+        ['Drive Time per Day', `${this.formatNumber(labor.schedule.driveHoursPerDay, 2)} hrs`],
+        ['Overtime Man-Hours', this.formatNumber(labor.schedule.overtimeHours, 2)],
+        ['Travel Distance', `${this.formatNumber(expenses.fuel.distance, 0)} miles`],
+        ...(expenses.fuel.travel
+          ? [
+              ['Distance Source', TRAVEL_SOURCE_LABELS[expenses.fuel.travel.source]],
+              ['Round Trip per Day', `${this.formatNumber(expenses.fuel.travel.roundTripMiles, 0)} miles`],
+              ['Supplier Pickup', expenses.fuel.travel.supplierPickupMiles > 0 ? `${this.formatNumber(expenses.fuel.travel.supplierPickupMiles, 0)} miles` : 'None'],
+              ['Truck', `${expenses.fuel.travel.vehicleName} (${this.formatNumber(expenses.fuel.travel.mpg, 1)} mpg)`]
+            ]
+          : []),
+        ['Fuel Price per Gallon', this.formatCurrency(expenses.fuel.rate)],
+        ['Insurance Rate', this.formatPercent(expenses.insurance.rate)],
+        ['Pricing Mode', pricing.mode === 'margin' ? 'Target gross margin' : 'Customer tier markup'],
+        ['Markup', this.formatPercent(pricing.markup)],
+        ...(typeof pricing.margin?.target === 'number'
+          ? [
+              ['Target Margin', this.formatPercent(pricing.margin.target)],
+              ['Margin Floor', `${this.formatPercent(pricing.margin.floor ?? 0)}${pricing.margin.belowFloor ? ' (below floor)' : ''}`]
+            ]
+          : []),
+        ['Tax Rate', this.formatPercent(pricing.taxRate)],
         [],
         ['Detailed Calculations'],
-        ['Sealer Gallons', `${estimateData.area} × 0.13 = ${this.formatNumber(estimateData.materials.sealer.gallons, 2)}`],
-        ['Sand Bags', `CEIL(${this.formatNumber(estimateData.materials.sealer.gallons, 2)} ÷ 50) = ${estimateData.materials.sand.bags}`],
-        ['Fast Dry Buckets', `CEIL(${this.formatNumber(estimateData.materials.sealer.gallons, 2)} ÷ 150) = ${estimateData.materials.fastDry.buckets}`],
-        ['Estimated Perimeter', `SQRT(${estimateData.area}) × 4 = ${this.formatNumber(Math.sqrt(estimateData.area) * 4, 0)} ft`],
-        ['Crack Filler Boxes', `CEIL(${this.formatNumber(Math.sqrt(estimateData.area) * 4, 0)} ÷ 100) = ${estimateData.materials.crackFiller.boxes}`],
-        ['Propane Tanks', `CEIL(${this.formatNumber(Math.sqrt(estimateData.area) * 4, 0)} ÷ 200) = ${estimateData.materials.propane.tanks}`],
-        ['Labor Hours', `CEIL(${estimateData.area} ÷ 1000) = ${estimateData.labor.hours}`],
-        ['Round Trip Distance', `${estimateData.fuel.distance / 2} × 2 = ${estimateData.fuel.distance} miles`],
-        ['Fuel Gallons', `${estimateData.fuel.distance} ÷ 8 = ${this.formatNumber(estimateData.fuel.distance / 8, 2)}`],
+        ['Sealer Concentrate Gallons', `${this.formatNumber(materials.sealer.quantity, 2)} × ${this.formatCurrency(materials.sealer.unitCost)} = ${this.formatCurrency(materials.sealer.totalCost)}`],
+        ['Dilution Water Gallons', this.formatNumber(materials.water.quantity, 2)],
+        ['Labor', `${this.formatNumber(labor.hours, 2)} hrs × ${this.formatCurrency(labor.rate)} = ${this.formatCurrency(labor.totalCost)}`],
+        ['Markup Amount', `${this.formatCurrency(pricing.subtotal)} × ${this.formatPercent(pricing.markup)} = ${this.formatCurrency(pricing.markupAmount)}`],
+        ['Taxable Amount', `${this.formatCurrency(pricing.tax.taxableAmount)} of ${this.formatCurrency(pricing.beforeTax)} (materials ${this.formatCurrency(pricing.tax.materialsAmount)}, labor ${this.formatCurrency(pricing.tax.laborAmount)})`],
+        ['Tax Amount', `${this.formatCurrency(pricing.tax.taxableAmount)} × ${this.formatPercent(pricing.taxRate)} = ${this.formatCurrency(pricing.taxAmount)}`],
+        ['Break-even Point', this.formatCurrency(profitAnalysis.breakEvenPoint)],
+        ['Gross Profit', this.formatCurrency(profitAnalysis.grossProfit)],
+        ['Profit Margin', `${this.formatNumber(profitAnalysis.profitMargin, 1)}%`],
       ];
 
       const calculationsSheet = XLSX.utils.aoa_to_sheet(calculationsData);
@@ -396,12 +730,51 @@ export class ExportService {
     }
   }
 
+  // Drawn zones, exclusions and cracks for crews (Google Earth) and engineers (GIS, CAD)
+  static exportMeasurements(estimate: DetailedEstimate, cracks: CrackLine[], format: MeasurementFormat) {
+    try {
+      const zones = estimate.inputs.options.zones ?? [];
+      const drawn = zones.filter(zone => zone.outline);
+      if (drawn.length === 0 && cracks.length === 0) {
+        toast.error('Draw areas on the satellite map to export measurements');
+        return;
+      }
+      if (drawn.length < zones.length) {
+        toast.warning(`${zones.length - drawn.length} sketch pad area(s) have no location and were left out`);
+      }
+
+      const title = estimate.projectInfo.address || 'Site measurements';
+      const content = format === 'geojson' ? JSON.stringify(zonesToGeoJSON(drawn, cracks), null, 2)
+        : format === 'kml' ? measurementsToKml(drawn, cracks, title)
+          : measurementsToDxf(drawn, cracks);
+      const { extension, type } = MEASUREMENT_FILE_TYPES[format];
+
+      const url = URL.createObjectURL(new Blob([content], { type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `site-measurements-${this.generateEstimateNumber()}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`Measurements exported successfully: ${link.download}`);
+    } catch (error) {
+      console.error('Measurement export error:', error);
+      toast.error('Failed to export measurements. Please try again.');
+    }
+  }
+
   // Quick export methods
-  static exportEstimatePDF(estimateData: EstimateData, address: string, jobType: 'driveway' | 'parking-lot') {
-    return this.exportToPDF(estimateData, { address, jobType });
+  static exportEstimatePDF(estimate: DetailedEstimate) {
+    return this.exportToPDF(estimate, {
+      address: estimate.projectInfo.address,
+      jobType: estimate.projectInfo.jobType
+    });
   }
 
-  static exportEstimateExcel(estimateData: EstimateData, address: string, jobType: 'driveway' | 'parking-lot') {
-    return this.exportToExcel(estimateData, { address, jobType });
+  static exportEstimateExcel(estimate: DetailedEstimate) {
+    return this.exportToExcel(estimate, {
+      address: estimate.projectInfo.address,
+      jobType: estimate.projectInfo.jobType
+    });
   }
 }
\ No newline at end of file
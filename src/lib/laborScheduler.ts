@@ -0,0 +1,149 @@
+// Types for crew-based, multi-day labor scheduling
+export type CrewRole = 'lead' | 'helper';
+
+export interface CrewMember {
+  role: CrewRole;
+  hourlyRate: number;
+}
+
+// What happens once the regular day is full: work overtime up to the daily
+// maximum, or stop and come back the next day
+export type OvertimePolicy = 'overtime' | 'extra-days';
+
+export interface LaborScheduling {
+  regularHoursPerDay: number;
+  maxHoursPerDay: number; // including overtime and drive time
+  mobilizationPerDay: number; // loading, trailer hookup and site setup, per trip
+  driveSpeedMph: number; // average speed used to turn round-trip miles into drive time
+  cureHoursBetweenCoats: number;
+}
+
+export interface CrewPlan {
+  members: CrewMember[];
+  overtimePolicy: OvertimePolicy;
+  driveTimeHours?: number; // round trip per day; defaults to distance / driveSpeedMph
+}
+
+export interface WorkPhase {
+  name: string;
+  manHours: number;
+  cureHoursAfter: number; // wait before the next phase can start
+}
+
+export interface ScheduleDay {
+  day: number;
+  phases: string[];
+  driveHours: number;
+  workHours: number; // crew clock hours on the pavement
+  cureHours: number; // waiting on site between coats
+  regularHours: number; // paid per crew member
+  overtimeHours: number;
+  laborCost: number;
+}
+
+export interface LaborSchedule {
+  crew: CrewMember[];
+  overtimePolicy: OvertimePolicy;
+  days: ScheduleDay[];
+  manHours: number; // production hours across the crew
+  paidHours: number; // man-hours paid, including drive time
+  overtimeHours: number; // man-hours paid at the overtime rate
+  driveHoursPerDay: number;
+  laborCost: number;
+}
+
+export const CREW_ROLE_LABELS: Record<CrewRole, string> = {
+  lead: 'Crew Lead',
+  helper: 'Helper'
+};
+
+export const DEFAULT_LABOR_SCHEDULING: LaborScheduling = {
+  regularHoursPerDay: 8,
+  maxHoursPerDay: 10,
+  mobilizationPerDay: 75.00,
+  driveSpeedMph: 40,
+  cureHoursBetweenCoats: 4
+};
+
+// Shortest useful stint; keeps a long drive from leaving no time to work
+const MIN_WORK_HOURS_PER_DAY = 1;
+
+const newDay = (day: number, driveHours: number): ScheduleDay => ({
+  day,
+  phases: [],
+  driveHours,
+  workHours: 0,
+  cureHours: 0,
+  regularHours: 0,
+  overtimeHours: 0,
+  laborCost: 0
+});
+
+// Lay phases out day by day. Each phase is split across the crew; a cure gap
+// that doesn't fit in the rest of the day cures overnight instead.
+export const scheduleLabor = (
+  phases: WorkPhase[],
+  plan: CrewPlan,
+  settings: LaborScheduling,
+  driveHoursPerDay: number,
+  overtimeMultiplier: number
+): LaborSchedule => {
+  const crew = plan.members.length > 0 ? plan.members : [{ role: 'lead' as CrewRole, hourlyRate: 0 }];
+  const dayLength = plan.overtimePolicy === 'overtime'
+    ? Math.max(settings.maxHoursPerDay, settings.regularHoursPerDay)
+    : settings.regularHoursPerDay;
+  const workWindow = Math.max(dayLength - driveHoursPerDay, MIN_WORK_HOURS_PER_DAY);
+
+  const days: ScheduleDay[] = [];
+  let current: ScheduleDay | null = null;
+  let clock = 0; // hours used in the current day's work window
+
+  phases.forEach((phase, index) => {
+    let remaining = phase.manHours / crew.length;
+    while (remaining > 1e-6) {
+      if (!current || workWindow - clock <= 1e-6) {
+        current = newDay(days.length + 1, driveHoursPerDay);
+        days.push(current);
+        clock = 0;
+      }
+      const hours = Math.min(workWindow - clock, remaining);
+      current.workHours += hours;
+      if (!current.phases.includes(phase.name)) current.phases.push(phase.name);
+      clock += hours;
+      remaining -= hours;
+    }
+
+    const isLast = index === phases.length - 1;
+    if (!isLast && phase.cureHoursAfter > 0 && current) {
+      if (clock + phase.cureHoursAfter < workWindow) {
+        current.cureHours += phase.cureHoursAfter;
+        clock += phase.cureHoursAfter;
+      } else {
+        clock = workWindow; // cures overnight; the next phase starts a new day
+      }
+    }
+  });
+
+  const crewRate = crew.reduce((sum, member) => sum + member.hourlyRate, 0);
+  for (const day of days) {
+    // Crew waiting out a cure on site is still on the clock
+    const paid = day.driveHours + day.workHours + day.cureHours;
+    day.regularHours = Math.min(paid, settings.regularHoursPerDay);
+    day.overtimeHours = paid - day.regularHours;
+    day.laborCost = crewRate * (day.regularHours + day.overtimeHours * overtimeMultiplier);
+  }
+
+  const paidHours = days.reduce((sum, day) => sum + day.regularHours + day.overtimeHours, 0) * crew.length;
+  const overtimeHours = days.reduce((sum, day) => sum + day.overtimeHours, 0) * crew.length;
+
+  return {
+    crew,
+    overtimePolicy: plan.overtimePolicy,
+    days,
+    manHours: phases.reduce((sum, phase) => sum + phase.manHours, 0),
+    paidHours,
+    overtimeHours,
+    driveHoursPerDay,
+    laborCost: days.reduce((sum, day) => sum + day.laborCost, 0)
+  };
+};
@@ -1,6 +1,7 @@
 import { toast } from 'sonner';
 import L from 'leaflet';
 import * as turf from '@turf/area';
+import { closeRing, openRing, ringPerimeter } from './measurementGeometry';
 
 // Mapping service provider interfaces
 export interface MapProvider {
@@ -16,7 +17,7 @@ export interface MapProvider {
   };
   initialize(): Promise<void>;
   createMap(containerId: string, options: MapOptions): Promise<MapInstance>;
-  calculateArea(coordinates: number[][]): number;
+  calculateArea(coordinates: number[][], holes?: number[][][]): number;
   geocode(address: string): Promise<GeocodeResult>;
 }
 
@@ -30,14 +31,27 @@ export interface MapOptions {
 export interface MapInstance {
   id: string;
   provider: string;
-  addPolygon(coordinates: number[][]): void;
+  addPolygon(coordinates: number[][], holes?: number[][][]): void;
+  addCrack(coordinates: number[][]): void; // [lng, lat] polyline
+  addExclusion(coordinates: number[][]): void; // cut a hole in the drawn polygon around it
   addRectangle(bounds: [[number, number], [number, number]]): void;
   addCircle(center: [number, number], radius: number): void;
   clearShapes(): void;
   setView(center: [number, number], zoom: number): void;
-  enableDrawing(): void;
+  fitToShapes(): void;
+  enableDrawing(mode?: 'polygon' | 'exclusion' | 'crack'): void;
   disableDrawing(): void;
-  onShapeComplete(callback: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any) => void): void;
+  finishDrawing(): void;
+  enableEditing(): void; // drag, insert and delete polygon vertices
+  disableEditing(): void;
+  undo(): void;
+  redo(): void;
+  // Areas in square meters, perimeters in meters
+  onShapeComplete(callback: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any, perimeter?: number) => void): void;
+  // Rings are [lng, lat] pairs, open (the first point isn't repeated)
+  onShapeChange(callback: (shapeIndex: number, area: number, perimeter: number, coordinates: number[][]) => void): void;
+  onExclusionComplete(callback: (shapeIndex: number, excludedArea: number, netArea: number, coordinates: number[][]) => void): void;
+  onCrackComplete(callback: (length: number, coordinates: number[][]) => void): void;
   destroy(): void;
 }
 
@@ -76,13 +90,13 @@ export class OpenStreetMapProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -135,13 +149,13 @@ export class MapboxProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -192,13 +206,13 @@ export class LeafletProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -252,13 +266,13 @@ export class HereProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -313,13 +327,13 @@ export class MapTilerProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -370,13 +384,13 @@ export class ArcGISProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -430,13 +444,13 @@ export class BingMapsProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -491,13 +505,13 @@ export class TomTomProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -547,13 +561,13 @@ export class EsriProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -604,13 +618,13 @@ export class CartoDBProvider implements MapProvider {
     return new LeafletMapInstance(map, this.id);
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes]
       }
     };
     return turf.default(polygon);
@@ -632,16 +646,66 @@ export class CartoDBProvider implements MapProvider {
   }
 }
 
+// [lng, lat] pairs, as turf takes them, to Leaflet's [lat, lng]
+const toLatLngs = (ring: number[][]) => ring.map(coord => [coord[1], coord[0]] as [number, number]);
+
+// Ray casting on a [lng, lat] ring: count edge crossings to the east of the point
+const ringContainsPoint = (ring: number[][], [x, y]: number[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Vertices within this many screen pixels of another one snap onto it
+const SNAP_PIXELS = 10;
+
+const handleIcon = (size: number, color: string) => L.divIcon({
+  className: '',
+  iconSize: [size, size],
+  html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:#fff;border:2px solid ${color};box-sizing:border-box"></div>`
+});
+const VERTEX_ICON = handleIcon(12, '#2563eb');
+const MIDPOINT_ICON = handleIcon(8, '#93c5fd');
+
+type DrawingMode = 'polygon' | 'exclusion' | 'crack';
+
+// One vertex edit on a polygon's outer ring, for undo and redo
+interface RingEdit {
+  polygon: L.Polygon;
+  before: number[][];
+  after: number[][];
+}
+
 // Leaflet Map Instance Implementation
 class LeafletMapInstance implements MapInstance {
   private shapes: L.Layer[] = [];
-  private drawingEnabled = false;
-  private onShapeCompleteCallback?: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any) => void;
+  private cracks: L.Polyline[] = []; // kept apart so shape indexes stay those of the areas
+  private drawingMode: DrawingMode | null = null;
+  private editing = false;
+  private onShapeCompleteCallback?: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any, perimeter?: number) => void;
+  private onShapeChangeCallback?: (shapeIndex: number, area: number, perimeter: number, coordinates: number[][]) => void;
+  private onExclusionCompleteCallback?: (shapeIndex: number, excludedArea: number, netArea: number, coordinates: number[][]) => void;
+  private onCrackCompleteCallback?: (length: number, coordinates: number[][]) => void;
+  // [lng, lat] rings of each drawn polygon, so it can be edited and holes added later
+  private polygonRings = new Map<L.Polygon, { outer: number[][]; holes: number[][][] }>();
+  // Points of the shape being drawn, and the ones undone from it
+  private draftPoints: L.LatLng[] = [];
+  private draftRedo: L.LatLng[] = [];
+  private draftLayer = L.polyline([], { color: 'blue', dashArray: '4 4' });
+  private handleLayer = L.layerGroup();
+  private undoStack: RingEdit[] = [];
+  private redoStack: RingEdit[] = [];
 
   constructor(
     private map: L.Map,
     public provider: string
   ) {
+    this.draftLayer.addTo(map);
+    this.handleLayer.addTo(map);
     this.setupEventHandlers();
   }
 
@@ -650,22 +714,83 @@ class LeafletMapInstance implements MapInstance {
   }
 
   private setupEventHandlers(): void {
-    this.map.on('click', (e) => {
-      if (this.drawingEnabled && this.onShapeCompleteCallback) {
-        // Simple click-to-add-point functionality
-        toast.info('Click multiple points to create a polygon, or use drawing tools');
+    // Click to add a vertex; clicking the first one again closes the shape
+    this.map.on('click', (e: L.LeafletMouseEvent) => {
+      if (!this.drawingMode) return;
+
+      const point = this.snap(e.latlng);
+      if (this.drawingMode !== 'crack' && this.draftPoints.length >= 3 && point.equals(this.draftPoints[0])) {
+        this.finishDrawing();
+        return;
+      }
+      this.draftPoints.push(point);
+      this.draftRedo = [];
+      this.renderDraft();
+    });
+
+    this.map.on('mousemove', (e: L.LeafletMouseEvent) => {
+      if (this.drawingMode && this.draftPoints.length > 0) {
+        this.renderDraft(this.snap(e.latlng));
       }
     });
+
+    this.map.on('dblclick', () => {
+      if (this.drawingMode) this.finishDrawing();
+    });
   }
 
-  addPolygon(coordinates: number[][]): void {
-    const latLngs = coordinates.map(coord => [coord[1], coord[0]] as [number, number]);
-    const polygon = L.polygon(latLngs, { color: 'blue', fillOpacity: 0.3 }).addTo(this.map);
+  addPolygon(coordinates: number[][], holes: number[][][] = []): void {
+    const outer = openRing(coordinates);
+    const polygon = L.polygon([outer, ...holes].map(toLatLngs), { color: 'blue', fillOpacity: 0.3 }).addTo(this.map);
     this.shapes.push(polygon);
+    this.polygonRings.set(polygon, { outer, holes: [...holes] });
+    this.renderHandles();
     
-    const area = this.calculatePolygonArea(coordinates);
+    const area = this.calculatePolygonArea(outer, holes);
     if (this.onShapeCompleteCallback) {
-      this.onShapeCompleteCallback(area, 'polygon', coordinates);
+      this.onShapeCompleteCallback(area, 'polygon', outer, ringPerimeter(outer));
+    }
+  }
+
+  addCrack(coordinates: number[][]): void {
+    const crack = L.polyline(toLatLngs(coordinates), { color: 'orange', weight: 3 }).addTo(this.map);
+    this.cracks.push(crack);
+
+    if (this.onCrackCompleteCallback) {
+      const length = coordinates.slice(1).reduce(
+        (sum, coord, index) => sum + L.latLng(coordinates[index][1], coordinates[index][0]).distanceTo(L.latLng(coord[1], coord[0])),
+        0
+      );
+      this.onCrackCompleteCallback(length, coordinates);
+    }
+  }
+
+  // The newest polygon that holds every point of the exclusion, outside its
+  // existing holes, gets the hole
+  addExclusion(coordinates: number[][]): void {
+    const target = [...this.polygonRings.keys()].reverse().find(polygon => {
+      const { outer, holes } = this.polygonRings.get(polygon)!;
+      return coordinates.every(point =>
+        ringContainsPoint(outer, point) && !holes.some(hole => ringContainsPoint(hole, point))
+      );
+    });
+    if (!target) {
+      toast.error('Draw exclusions inside a measured area');
+      return;
+    }
+
+    const rings = this.polygonRings.get(target)!;
+    const hole = openRing(coordinates);
+    rings.holes.push(hole);
+    target.setLatLngs([rings.outer, ...rings.holes].map(toLatLngs));
+
+    if (this.onExclusionCompleteCallback) {
+      this.onExclusionCompleteCallback(
+        this.shapes.indexOf(target),
+        this.calculatePolygonArea(hole),
+        this.calculatePolygonArea(rings.outer, rings.holes),
+        hole
+      );
     }
   }
 
@@ -684,7 +809,7 @@ class LeafletMapInstance implements MapInstance {
     
     const area = this.calculatePolygonArea(coordinates);
     if (this.onShapeCompleteCallback) {
-      this.onShapeCompleteCallback(area, 'rectangle', bounds);
+      this.onShapeCompleteCallback(area, 'rectangle', bounds, ringPerimeter(openRing(coordinates)));
     }
   }
 
@@ -695,40 +820,263 @@ class LeafletMapInstance implements MapInstance {
     // Calculate area for circle
     const area = Math.PI * radius * radius;
     if (this.onShapeCompleteCallback) {
-      this.onShapeCompleteCallback(area, 'circle', { center, radius });
+      this.onShapeCompleteCallback(area, 'circle', { center, radius }, 2 * Math.PI * radius);
     }
   }
 
   clearShapes(): void {
     this.shapes.forEach(shape => this.map.removeLayer(shape));
     this.shapes = [];
+    this.cracks.forEach(crack => this.map.removeLayer(crack));
+    this.cracks = [];
+    this.polygonRings.clear();
+    this.undoStack = [];
+    this.redoStack = [];
+    this.draftPoints = [];
+    this.draftRedo = [];
+    this.renderDraft();
+    this.renderHandles();
   }
 
   setView(center: [number, number], zoom: number): void {
     this.map.setView(center, zoom);
   }
 
-  enableDrawing(): void {
-    this.drawingEnabled = true;
-    toast.info('Drawing mode enabled - click on map to start drawing');
+  fitToShapes(): void {
+    const layers = [...this.shapes, ...this.cracks];
+    if (layers.length === 0) return;
+    this.map.fitBounds(L.featureGroup(layers).getBounds(), { padding: [20, 20], maxZoom: 20 });
+  }
+
+  enableDrawing(mode: DrawingMode = 'polygon'): void {
+    this.drawingMode = mode;
+    this.draftPoints = [];
+    this.draftRedo = [];
+    this.renderDraft();
+    // Double-click finishes the shape instead of zooming
+    this.map.doubleClickZoom.disable();
+    toast.info(
+      mode === 'exclusion' ? 'Click inside a measured area to outline the exclusion; double-click to finish'
+        : mode === 'crack' ? 'Click along the crack; double-click to finish'
+          : 'Click to add points; double-click or click the first point to finish'
+    );
   }
 
   disableDrawing(): void {
-    this.drawingEnabled = false;
+    this.stopDrawing();
     toast.info('Drawing mode disabled');
   }
 
-  onShapeComplete(callback: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any) => void): void {
+  finishDrawing(): void {
+    const mode = this.drawingMode;
+    // A double-click lands two clicks on the same spot, so drop repeated points
+    const points = this.draftPoints.filter((point, index, all) => index === 0 || !point.equals(all[index - 1]));
+    this.stopDrawing();
+
+    if (mode === 'crack') {
+      if (points.length < 2) {
+        toast.error('A crack needs at least 2 points');
+        return;
+      }
+      this.addCrack(points.map(point => [point.lng, point.lat]));
+      return;
+    }
+
+    if (points.length > 1 && points[points.length - 1].equals(points[0])) points.pop();
+    if (points.length < 3) {
+      toast.error('A shape needs at least 3 points');
+      return;
+    }
+    const coordinates = points.map(point => [point.lng, point.lat]);
+    if (mode === 'exclusion') {
+      this.addExclusion(coordinates);
+    } else {
+      this.addPolygon(coordinates);
+    }
+  }
+
+  private stopDrawing(): void {
+    this.drawingMode = null;
+    this.draftPoints = [];
+    this.draftRedo = [];
+    this.renderDraft();
+    this.map.doubleClickZoom.enable();
+  }
+
+  enableEditing(): void {
+    this.editing = true;
+    this.renderHandles();
+    toast.info('Drag points to move them, click a midpoint to add one, right-click a point to delete it');
+  }
+
+  disableEditing(): void {
+    this.editing = false;
+    this.renderHandles();
+  }
+
+  // While drawing, undo takes back the last point; otherwise the last vertex edit
+  undo(): void {
+    if (this.drawingMode) {
+      const point = this.draftPoints.pop();
+      if (point) this.draftRedo.push(point);
+      this.renderDraft();
+      return;
+    }
+
+    const edit = this.undoStack.pop();
+    if (!edit || !this.polygonRings.has(edit.polygon)) return;
+    this.redoStack.push(edit);
+    this.setOuterRing(edit.polygon, edit.before);
+  }
+
+  redo(): void {
+    if (this.drawingMode) {
+      const point = this.draftRedo.pop();
+      if (point) this.draftPoints.push(point);
+      this.renderDraft();
+      return;
+    }
+
+    const edit = this.redoStack.pop();
+    if (!edit || !this.polygonRings.has(edit.polygon)) return;
+    this.undoStack.push(edit);
+    this.setOuterRing(edit.polygon, edit.after);
+  }
+
+  onShapeComplete(callback: (area: number, type: 'polygon' | 'rectangle' | 'circle', coordinates: any, perimeter?: number) => void): void {
     this.onShapeCompleteCallback = callback;
   }
 
-  private calculatePolygonArea(coordinates: number[][]): number {
+  onShapeChange(callback: (shapeIndex: number, area: number, perimeter: number, coordinates: number[][]) => void): void {
+    this.onShapeChangeCallback = callback;
+  }
+
+  onExclusionComplete(callback: (shapeIndex: number, excludedArea: number, netArea: number, coordinates: number[][]) => void): void {
+    this.onExclusionCompleteCallback = callback;
+  }
+
+  onCrackComplete(callback: (length: number, coordinates: number[][]) => void): void {
+    this.onCrackCompleteCallback = callback;
+  }
+
+  private renderDraft(cursor?: L.LatLng): void {
+    this.draftLayer.setLatLngs(cursor ? [...this.draftPoints, cursor] : this.draftPoints);
+  }
+
+  // Snaps to the nearest vertex on screen, skipping the one being dragged
+  private snap(latlng: L.LatLng, skip?: { polygon: L.Polygon; index: number }): L.LatLng {
+    const target = this.map.latLngToContainerPoint(latlng);
+    const vertices: L.LatLng[] = [...this.draftPoints];
+    this.polygonRings.forEach((rings, polygon) => {
+      [rings.outer, ...rings.holes].forEach((ring, ringIndex) =>
+        ring.forEach((coord, index) => {
+          if (skip && polygon === skip.polygon && ringIndex === 0 && index === skip.index) return;
+          vertices.push(L.latLng(coord[1], coord[0]));
+        })
+      );
+    });
+
+    let snapped = latlng;
+    let closest = SNAP_PIXELS;
+    for (const vertex of vertices) {
+      const distance = this.map.latLngToContainerPoint(vertex).distanceTo(target);
+      if (distance < closest) {
+        closest = distance;
+        snapped = vertex;
+      }
+    }
+    return snapped;
+  }
+
+  // Vertex and midpoint handles on every polygon's outer ring while editing
+  private renderHandles(): void {
+    this.handleLayer.clearLayers();
+    if (!this.editing) return;
+
+    this.polygonRings.forEach((rings, polygon) => {
+      rings.outer.forEach((coord, index) => {
+        const vertex = L.marker([coord[1], coord[0]], { icon: VERTEX_ICON, draggable: true });
+        let before: number[][] = [];
+        vertex.on('dragstart', () => {
+          before = rings.outer.map(point => [...point]);
+        });
+        vertex.on('drag', () => {
+          const position = this.snap(vertex.getLatLng(), { polygon, index });
+          rings.outer[index] = [position.lng, position.lat];
+          this.redrawPolygon(polygon);
+        });
+        vertex.on('dragend', () => {
+          this.recordEdit(polygon, before);
+          this.renderHandles();
+        });
+        vertex.on('contextmenu', () => this.deleteVertex(polygon, index));
+        this.handleLayer.addLayer(vertex);
+
+        const next = rings.outer[(index + 1) % rings.outer.length];
+        const midpoint = [(coord[0] + next[0]) / 2, (coord[1] + next[1]) / 2];
+        L.marker([midpoint[1], midpoint[0]], { icon: MIDPOINT_ICON })
+          .on('click', () => this.insertVertex(polygon, index + 1, midpoint))
+          .addTo(this.handleLayer);
+      });
+    });
+  }
+
+  private insertVertex(polygon: L.Polygon, index: number, coordinate: number[]): void {
+    const rings = this.polygonRings.get(polygon)!;
+    const before = rings.outer.map(point => [...point]);
+    rings.outer.splice(index, 0, coordinate);
+    this.recordEdit(polygon, before);
+    this.redrawPolygon(polygon);
+    this.renderHandles();
+  }
+
+  private deleteVertex(polygon: L.Polygon, index: number): void {
+    const rings = this.polygonRings.get(polygon)!;
+    if (rings.outer.length <= 3) {
+      toast.error('A shape needs at least 3 points');
+      return;
+    }
+    const before = rings.outer.map(point => [...point]);
+    rings.outer.splice(index, 1);
+    this.recordEdit(polygon, before);
+    this.redrawPolygon(polygon);
+    this.renderHandles();
+  }
+
+  private recordEdit(polygon: L.Polygon, before: number[][]): void {
+    const after = this.polygonRings.get(polygon)!.outer.map(point => [...point]);
+    this.undoStack.push({ polygon, before, after });
+    this.redoStack = [];
+  }
+
+  private setOuterRing(polygon: L.Polygon, ring: number[][]): void {
+    this.polygonRings.get(polygon)!.outer = ring.map(point => [...point]);
+    this.redrawPolygon(polygon);
+    this.renderHandles();
+  }
+
+  // Redraws a polygon after an edit and reports its new outer-ring area and perimeter
+  private redrawPolygon(polygon: L.Polygon): void {
+    const rings = this.polygonRings.get(polygon)!;
+    polygon.setLatLngs([rings.outer, ...rings.holes].map(toLatLngs));
+    if (this.onShapeChangeCallback) {
+      this.onShapeChangeCallback(
+        this.shapes.indexOf(polygon),
+        this.calculatePolygonArea(rings.outer),
+        ringPerimeter(rings.outer),
+        rings.outer.map(point => [...point])
+      );
+    }
+  }
+
+  // Holes are subtracted by turf as inner rings of the polygon
+  private calculatePolygonArea(coordinates: number[][], holes: number[][][] = []): number {
     const polygon = {
       type: 'Feature' as const,
       properties: {},
       geometry: {
         type: 'Polygon' as const,
-        coordinates: [coordinates]
+        coordinates: [coordinates, ...holes].map(ring => closeRing(openRing(ring)))
       }
     };
     return turf.default(polygon);
@@ -833,9 +1181,9 @@ export class MappingServiceManager {
     }
   }
 
-  calculateArea(coordinates: number[][]): number {
+  calculateArea(coordinates: number[][], holes: number[][][] = []): number {
     const provider = this.getActiveProvider();
-    return provider.calculateArea(coordinates);
+    return provider.calculateArea(coordinates, holes);
   }
 
   getCurrentMap(): MapInstance | undefined {
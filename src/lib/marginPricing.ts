@@ -0,0 +1,39 @@
+// Types for pricing to a target gross margin instead of a markup on cost
+export interface MarginTarget {
+  targetMargin: number; // fraction of the pre-tax price, 0.35 = 35%
+  roundTo: number; // round the pre-tax price up to a multiple of this; 0 leaves it exact
+  marginFloor: number; // warn when discounts push the margin below this
+}
+
+// 'markup' adds the tier markup to cost; 'margin' back-solves the price from a target margin
+export type PricingMode = { type: 'markup' } | ({ type: 'margin' } & MarginTarget);
+
+export interface MarginCheck {
+  target: number | null; // null in markup mode
+  achieved: number; // gross profit over the pre-tax price
+  floor: number | null;
+  belowFloor: boolean;
+}
+
+export const DEFAULT_MARGIN_TARGET: MarginTarget = {
+  targetMargin: 0.35,
+  roundTo: 25,
+  marginFloor: 0.25
+};
+
+export const ROUNDING_OPTIONS = [0, 5, 10, 25, 50, 100];
+
+// Highest margin we'll solve for; a 100% margin has no price
+const MAX_TARGET_MARGIN = 0.95;
+
+// Pre-tax price that leaves `margin` of it as gross profit over `cost`
+export const priceForMargin = (cost: number, margin: number): number =>
+  cost / (1 - Math.min(Math.max(margin, 0), MAX_TARGET_MARGIN));
+
+export const marginOf = (price: number, cost: number): number =>
+  price > 0 ? (price - cost) / price : 0;
+
+// Rounds up so rounding never eats into the margin; the epsilon keeps a price
+// that's already a multiple from moving up a step on float error
+export const roundUpTo = (amount: number, step: number): number =>
+  step > 0 ? Math.ceil(amount / step - 1e-9) * step : amount;
@@ -0,0 +1,341 @@
+import type { CoatPlan } from './calculationEngine';
+import { isExclusionType, isJobType, isPavementCondition, netZoneArea, type EstimateZone, type ExclusionType, type JobType, type PavementCondition } from './estimateZones';
+import { utmProjectionFor } from './projections';
+
+// Types for saved measurements: a GeoJSON FeatureCollection (RFC 7946) with one
+// feature per zone and per crack, so the geometry can be stored and read back by
+// other GIS tools
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: number[][][]; // closed [lng, lat] rings, outer first, then holes
+}
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+// A crack traced on the live map
+export interface CrackLine {
+  id: string;
+  length: number; // linear feet
+  path: number[][]; // [lng, lat] points
+}
+
+export interface MeasurementExclusion {
+  id: string;
+  type: ExclusionType;
+  area: number;
+  hole?: number; // index of the exclusion's ring in the geometry, when drawn
+}
+
+export interface MeasurementProperties {
+  name: string;
+  jobType: JobType;
+  condition: PavementCondition;
+  area: number; // sq ft as drawn, before exclusions
+  netArea?: number; // written for other tools; recalculated on read
+  perimeter?: number;
+  coatPlan?: Partial<CoatPlan>;
+  exclusions: MeasurementExclusion[];
+}
+
+export interface MeasurementFeature {
+  type: 'Feature';
+  id: string;
+  geometry: PolygonGeometry | null; // null for sketch pad shapes, which have no location
+  properties: MeasurementProperties;
+}
+
+export interface CrackFeature {
+  type: 'Feature';
+  id: string;
+  geometry: LineStringGeometry;
+  properties: { kind: 'crack'; length: number };
+}
+
+export interface MeasurementCollection {
+  type: 'FeatureCollection';
+  features: (MeasurementFeature | CrackFeature)[];
+}
+
+const isCrack = (feature: MeasurementFeature | CrackFeature): feature is CrackFeature =>
+  (feature.properties as { kind?: string } | null)?.kind === 'crack';
+
+export const SQ_FT_PER_SQ_M = 10.764;
+export const FT_PER_M = 3.28084;
+const EARTH_RADIUS_M = 6371000; // as Leaflet measures distances
+
+// Rings are kept open (the first point isn't repeated); GeoJSON and turf want them closed
+export const closeRing = (ring: number[][]) => {
+  if (ring.length === 0) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+export const openRing = (ring: number[][]) => {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+// Edge length of an open [lng, lat] ring in meters, on a sphere
+export const ringPerimeter = (ring: number[][]) =>
+  ring.reduce((sum, [lng1, lat1], index) => {
+    const [lng2, lat2] = ring[(index + 1) % ring.length];
+    const dLat = (lat2 - lat1) * (Math.PI / 180);
+    const dLng = (lng2 - lng1) * (Math.PI / 180);
+    const a = Math.sin(dLat / 2) ** 2
+      + Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) * Math.sin(dLng / 2) ** 2;
+    return sum + 2 * EARTH_RADIUS_M * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }, 0);
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  driveway: 'Driveway',
+  'parking-lot': 'Parking lot'
+};
+
+export const zonesToGeoJSON = (zones: EstimateZone[], cracks: CrackLine[] = []): MeasurementCollection => ({
+  type: 'FeatureCollection',
+  features: [...zones.map((zone): MeasurementFeature => {
+    const holes: number[][][] = [];
+    const exclusions = (zone.exclusions ?? []).map(({ id, type, area, outline }) => {
+      if (!zone.outline || !outline) return { id, type, area };
+      holes.push(closeRing(outline));
+      return { id, type, area, hole: holes.length };
+    });
+
+    return {
+      type: 'Feature',
+      id: zone.id,
+      geometry: zone.outline ? { type: 'Polygon', coordinates: [closeRing(zone.outline), ...holes] } : null,
+      properties: {
+        name: zone.name,
+        jobType: zone.jobType,
+        condition: zone.condition,
+        area: zone.area,
+        netArea: netZoneArea(zone),
+        perimeter: zone.perimeter,
+        coatPlan: zone.coatPlan,
+        exclusions
+      }
+    };
+  }), ...cracks.map((crack): CrackFeature => ({
+    type: 'Feature',
+    id: crack.id,
+    geometry: { type: 'LineString', coordinates: crack.path },
+    properties: { kind: 'crack', length: crack.length }
+  }))]
+});
+
+// Anything that isn't a measurement collection reads back as no zones
+export const zonesFromGeoJSON = (collection: MeasurementCollection | null | undefined): EstimateZone[] => {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) return [];
+
+  return collection.features.filter((feature): feature is MeasurementFeature => !isCrack(feature)).map((feature, index) => {
+    const rings = feature.geometry?.type === 'Polygon' ? feature.geometry.coordinates : [];
+    const { properties } = feature;
+
+    return {
+      id: String(feature.id ?? index),
+      name: properties.name ?? `Area ${index + 1}`,
+      area: properties.area ?? 0,
+      perimeter: properties.perimeter,
+      jobType: isJobType(properties.jobType) ? properties.jobType : 'driveway',
+      condition: isPavementCondition(properties.condition) ? properties.condition : 'good',
+      coatPlan: properties.coatPlan,
+      outline: rings[0] ? openRing(rings[0]) : undefined,
+      exclusions: (properties.exclusions ?? []).map(({ id, type, area, hole }) => ({
+        id,
+        type: isExclusionType(type) ? type : 'other',
+        area,
+        outline: hole !== undefined && rings[hole] ? openRing(rings[hole]) : undefined
+      }))
+    };
+  });
+};
+
+export const cracksFromGeoJSON = (collection: MeasurementCollection | null | undefined): CrackLine[] => {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) return [];
+
+  return collection.features.filter(isCrack).map((feature, index) => ({
+    id: String(feature.id ?? index),
+    length: feature.properties.length ?? 0,
+    path: feature.geometry.coordinates
+  }));
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatSqFt = (area: number) => `${Math.round(area).toLocaleString('en-US')} sq ft`;
+
+const kmlCoordinates = (ring: number[][]) => ring.map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+
+const kmlData = (values: Record<string, string | number>) =>
+  `<ExtendedData>${Object.entries(values)
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('')}</ExtendedData>`;
+
+// KML for Google Earth; only zones drawn on the live map have a location
+export const measurementsToKml = (zones: EstimateZone[], cracks: CrackLine[], title: string): string => {
+  const zonePlacemarks = zones.filter(zone => zone.outline).map(zone => {
+    const holes = (zone.exclusions ?? []).filter(exclusion => exclusion.outline);
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(zone.name)}</name>`,
+      `<description>${escapeXml(`${JOB_TYPE_LABELS[zone.jobType]}, ${formatSqFt(netZoneArea(zone))} net`)}</description>`,
+      '<styleUrl>#zone</styleUrl>',
+      kmlData({
+        jobType: zone.jobType,
+        areaSqFt: Math.round(zone.area),
+        netAreaSqFt: Math.round(netZoneArea(zone)),
+        perimeterFt: Math.round(zone.perimeter ?? 0)
+      }),
+      '<Polygon>',
+      `<outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(closeRing(zone.outline))}</coordinates></LinearRing></outerBoundaryIs>`,
+      ...holes.map(hole =>
+        `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(closeRing(hole.outline))}</coordinates></LinearRing></innerBoundaryIs>`
+      ),
+      '</Polygon>',
+      '</Placemark>'
+    ].join('');
+  });
+
+  const crackPlacemarks = cracks.map((crack, index) => [
+    '<Placemark>',
+    `<name>Crack ${index + 1}</name>`,
+    `<description>${Math.round(crack.length)} ft</description>`,
+    '<styleUrl>#crack</styleUrl>',
+    kmlData({ lengthFt: Math.round(crack.length) }),
+    `<LineString><coordinates>${kmlCoordinates(crack.path)}</coordinates></LineString>`,
+    '</Placemark>'
+  ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(title)}</name>`,
+    // KML colors are aabbggrr
+    '<Style id="zone"><LineStyle><color>ffeb6325</color><width>2</width></LineStyle><PolyStyle><color>4deb6325</color></PolyStyle></Style>',
+    '<Style id="crack"><LineStyle><color>ff0b9ef5</color><width>3</width></LineStyle></Style>',
+    ...zonePlacemarks,
+    ...crackPlacemarks,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+};
+
+// DXF R12 in WGS 84 UTM meters, so drawings line up with survey data. Zones,
+// exclusions and cracks are on their own layers; each zone carries its name,
+// job type and areas as a label and as extended data. R12 has no units header
+// variable, so the units are given in the opening comment.
+const DXF_APP = 'PAVEESTIMATOR';
+const DXF_LAYERS: Record<string, number> = { ZONES: 5, EXCLUSIONS: 1, CRACKS: 30, LABELS: 7 }; // ACI colors
+
+export const measurementsToDxf = (zones: EstimateZone[], cracks: CrackLine[]): string => {
+  const drawn = zones.filter(zone => zone.outline);
+  const origin = drawn[0]?.outline[0] ?? cracks[0]?.path[0] ?? [0, 0];
+  const projection = utmProjectionFor(origin[0], origin[1]);
+  const project = (points: number[][]) => points.map(([lng, lat]) => projection.fromLngLat(lng, lat));
+
+  const lines: (string | number)[] = [];
+  const group = (code: number, value: string | number) => lines.push(code, value);
+  const polyline = (layer: string, points: number[][], closed: boolean, xdata: string[] = []) => {
+    group(0, 'POLYLINE');
+    group(8, layer);
+    group(66, 1);
+    group(10, 0);
+    group(20, 0);
+    group(30, 0);
+    group(70, closed ? 1 : 0);
+    if (xdata.length > 0) {
+      group(1001, DXF_APP);
+      xdata.forEach(value => group(1000, value));
+    }
+    for (const [x, y] of points) {
+      group(0, 'VERTEX');
+      group(8, layer);
+      group(10, x.toFixed(3));
+      group(20, y.toFixed(3));
+      group(30, 0);
+    }
+    group(0, 'SEQEND');
+    group(8, layer);
+  };
+
+  group(999, `${projection.name}, meters`);
+  group(0, 'SECTION');
+  group(2, 'HEADER');
+  group(9, '$ACADVER');
+  group(1, 'AC1009');
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'TABLES');
+  group(0, 'TABLE');
+  group(2, 'LTYPE');
+  group(70, 1);
+  group(0, 'LTYPE');
+  group(2, 'CONTINUOUS');
+  group(70, 0);
+  group(3, 'Solid line');
+  group(72, 65);
+  group(73, 0);
+  group(40, 0);
+  group(0, 'ENDTAB');
+  group(0, 'TABLE');
+  group(2, 'LAYER');
+  group(70, Object.keys(DXF_LAYERS).length);
+  for (const [name, color] of Object.entries(DXF_LAYERS)) {
+    group(0, 'LAYER');
+    group(2, name);
+    group(70, 0);
+    group(62, color);
+    group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'TABLE');
+  group(2, 'APPID');
+  group(70, 1);
+  group(0, 'APPID');
+  group(2, DXF_APP);
+  group(70, 0);
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION');
+  group(2, 'ENTITIES');
+  for (const zone of drawn) {
+    const outline = project(zone.outline);
+    polyline('ZONES', outline, true, [
+      `name=${zone.name}`,
+      `jobType=${zone.jobType}`,
+      `areaSqFt=${Math.round(zone.area)}`,
+      `netAreaSqFt=${Math.round(netZoneArea(zone))}`
+    ]);
+    (zone.exclusions ?? [])
+      .filter(exclusion => exclusion.outline)
+      .forEach(exclusion => polyline('EXCLUSIONS', project(exclusion.outline), true, [`type=${exclusion.type}`, `areaSqFt=${Math.round(exclusion.area)}`]));
+
+    // Label at the outline's average point
+    const x = outline.reduce((sum, point) => sum + point[0], 0) / outline.length;
+    const y = outline.reduce((sum, point) => sum + point[1], 0) / outline.length;
+    group(0, 'TEXT');
+    group(8, 'LABELS');
+    group(10, x.toFixed(3));
+    group(20, y.toFixed(3));
+    group(30, 0);
+    group(40, 1.5);
+    group(1, `${zone.name} - ${JOB_TYPE_LABELS[zone.jobType]} - ${formatSqFt(netZoneArea(zone))}`);
+  }
+  cracks.forEach((crack, index) =>
+    polyline('CRACKS', project(crack.path), false, [`name=Crack ${index + 1}`, `lengthFt=${Math.round(crack.length)}`])
+  );
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return lines.join('\n');
+};
@@ -0,0 +1,28 @@
+import type { RegionalPricing } from './calculationEngine';
+
+// Pricing inputs an estimate can scale, for what-if analysis
+export type PricingVariable = 'sealerPrice' | 'laborHours' | 'laborRate' | 'fuelPrice';
+
+// Multipliers on the region's pricing, 1.1 = 10% higher
+export type PricingAdjustments = Partial<Record<PricingVariable, number>>;
+
+// Scales a copy of the pricing; the engine's price books are never touched
+export const applyPricingAdjustments = (pricing: RegionalPricing, adjustments: PricingAdjustments = {}): RegionalPricing => {
+  const { sealerPrice = 1, laborHours = 1, laborRate = 1, fuelPrice = 1 } = adjustments;
+  if (sealerPrice === 1 && laborHours === 1 && laborRate === 1 && fuelPrice === 1) return pricing;
+
+  return {
+    ...pricing,
+    materials: {
+      ...pricing.materials,
+      sealer: { ...pricing.materials.sealer, pricePerGallon: pricing.materials.sealer.pricePerGallon * sealerPrice }
+    },
+    labor: {
+      ...pricing.labor,
+      hourlyRate: pricing.labor.hourlyRate * laborRate,
+      hoursPerSqFt: pricing.labor.hoursPerSqFt * laborHours,
+      minimumHours: pricing.labor.minimumHours * laborHours
+    },
+    fuel: { ...pricing.fuel, pricePerGallon: pricing.fuel.pricePerGallon * fuelPrice }
+  };
+};
@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import type { RegionalPricing } from './calculationEngine';
+
+// Schemas for validating regional pricing imports. Objects are strict so a
+// typo'd key is reported instead of silently ignored.
+const price = z.number({ invalid_type_error: 'Must be a number' }).finite().nonnegative('Must be zero or more');
+const positive = z.number({ invalid_type_error: 'Must be a number' }).finite().positive('Must be greater than zero');
+const rate = price.max(1, 'Must be a fraction between 0 and 1 (e.g. 0.053 for 5.3%)');
+const supplier = z.string().min(1, 'Supplier is required');
+const validFrom = z.string().refine(value => !isNaN(Date.parse(value)), 'Must be a date (YYYY-MM-DD)').optional();
+
+const materialsSchema = z.object({
+  sealer: z.object({ pricePerGallon: price, coverageRate: positive, supplier, validFrom }).strict(),
+  sand: z.object({ pricePerBag: price, bagsPerGallon: price, poundsPerBag: positive.optional(), supplier, validFrom }).strict(),
+  fastDry: z.object({ pricePerBucket: price, bucketsPerGallon: price, supplier, validFrom }).strict(),
+  prepSeal: z.object({ pricePerBucket: price, bucketsPerProject: price, supplier, validFrom }).strict(),
+  crackFiller: z.object({ pricePerBox: price, coveragePerBox: positive, supplier, validFrom }).strict(),
+  propane: z.object({ pricePerTank: price, tanksPerLinearFoot: price, supplier, validFrom }).strict()
+}).strict();
+
+const laborSchema = z.object({
+  hourlyRate: price,
+  hoursPerSqFt: price,
+  minimumHours: price,
+  overtimeMultiplier: z.number({ invalid_type_error: 'Must be a number' }).min(1, 'Must be at least 1'),
+  skillLevel: z.enum(['basic', 'intermediate', 'expert']),
+  scheduling: z.object({
+    regularHoursPerDay: positive,
+    maxHoursPerDay: positive,
+    mobilizationPerDay: price,
+    driveSpeedMph: positive,
+    cureHoursBetweenCoats: price
+  }).strict().optional()
+}).strict();
+
+const stripingSchema = z.object({
+  paint: z.object({ pricePerGallon: price, linearFeetPerGallon: positive, supplier }).strict(),
+  curbPaint: z.object({ pricePerGallon: price, linearFeetPerGallon: positive, supplier }).strict(),
+  beads: z.object({ pricePerBag: price, poundsPerBag: positive, poundsPerGallon: price, supplier }).strict(),
+  stencils: z.object({ handicapPrice: price, arrowPrice: price, supplier }).strict(),
+  markings: z.object({ gallonsPerHandicapSymbol: price, gallonsPerArrow: price, gallonsPerStopBar: price }).strict(),
+  production: z.object({
+    linearFeetPerHour: positive,
+    curbLinearFeetPerHour: positive,
+    minutesPerSymbol: price,
+    minutesPerStopBar: price,
+    layoutHours: price
+  }).strict()
+}).strict();
+
+const repairsSchema = z.object({
+  coldPatch: z.object({ pricePerTon: price, supplier }).strict(),
+  hotMix: z.object({ pricePerTon: price, supplier }).strict(),
+  tackCoat: z.object({ pricePerGallon: price, gallonsPerSqFt: price, supplier }).strict(),
+  sawCutting: z.object({ pricePerLinearFoot: price }).strict(),
+  compaction: z.object({ hourlyRate: price }).strict(),
+  disposal: z.object({ pricePerTon: price }).strict(),
+  asphaltDensity: positive,
+  wasteFactor: rate
+}).strict();
+
+const tierSchema = z.object({
+  markup: price,
+  minimumCharge: price,
+  volumeDiscounts: z.array(z.object({ threshold: positive, discount: rate }).strict()),
+  discountAppliesTo: z.enum(['markup', 'price'])
+}).strict();
+
+const tiersSchema = z.object({
+  residential: tierSchema,
+  commercial: tierSchema,
+  industrial: tierSchema
+}).strict();
+
+const equipmentSchema = z.array(z.object({
+  id: z.string().min(1, 'Equipment id is required'),
+  name: z.string().min(1, 'Equipment name is required'),
+  category: z.enum(['sealcoat-rig', 'crack-melter', 'blower', 'line-striper', 'trailer']),
+  costBasis: z.enum(['hour', 'day']),
+  ownershipCost: price,
+  maintenanceReserve: price,
+  fuelGallonsPerHour: price,
+  usage: z.enum(['sealcoating', 'crack-filling', 'striping', 'job']),
+  includeByDefault: z.boolean()
+}).strict());
+
+const travelStopSchema = z.object({
+  name: z.string().min(1, 'Location name is required'),
+  coordinates: z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)])
+}).strict();
+
+const travelSchema = z.object({
+  yard: travelStopSchema,
+  supplier: travelStopSchema.nullable(),
+  roadFactor: z.number().min(1, 'Road factor must be at least 1')
+}).strict();
+
+export const regionalPricingSchema = z.object({
+  region: z.string().min(1, 'Region name is required'),
+  state: z.string().min(2, 'State code is required'),
+  taxRate: rate,
+  materials: materialsSchema,
+  labor: laborSchema,
+  fuel: z.object({ pricePerGallon: price, mpg: positive, roundTripDistance: price }).strict(),
+  businessCosts: z.object({ insuranceRate: rate, equipmentDepreciation: price, permitCosts: price }).strict(),
+  striping: stripingSchema.optional(),
+  repairs: repairsSchema.optional(),
+  tiers: tiersSchema.optional(),
+  equipment: equipmentSchema.optional(),
+  travel: travelSchema.optional()
+}).strict();
+
+// Updates to an existing region may supply any subset of fields
+export const regionalPricingUpdateSchema = regionalPricingSchema.deepPartial();
+
+export interface PricingValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface PricingChange {
+  region: string;
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PricingImportPreview {
+  regions: Record<string, RegionalPricing>; // fully merged pricing, ready to apply
+  newRegions: string[];
+  changes: PricingChange[];
+  issues: PricingValidationIssue[];
+}
+
+export class PricingImportError extends Error {
+  issues: PricingValidationIssue[];
+
+  constructor(issues: PricingValidationIssue[]) {
+    super(`Invalid pricing data: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'PricingImportError';
+    this.issues = issues;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toIssues = (region: string, error: z.ZodError): PricingValidationIssue[] =>
+  error.issues.map(issue => ({
+    path: [region, ...issue.path].join('.'),
+    message: issue.message
+  }));
+
+// Issues with one region's full pricing: an edited draft before it is saved, or
+// a stored version before it is priced with
+export const validateRegionalPricing = (region: string, pricing: unknown): PricingValidationIssue[] => {
+  const result = regionalPricingSchema.safeParse(pricing);
+  return result.success ? [] : toIssues(region, result.error);
+};
+
+const deepMerge = <T>(base: T, update: unknown): T => {
+  if (!isPlainObject(base) || !isPlainObject(update)) {
+    return (update === undefined ? base : update) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(update)) {
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged as T;
+};
+
+// Leaf-by-leaf differences between two pricing objects; arrays compare as a whole
+const diffPricing = (region: string, before: unknown, after: unknown, path: string[] = []): PricingChange[] => {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ region, path: path.join('.'), before, after }];
+  }
+  if (isPlainObject(before) || isPlainObject(after)) {
+    const beforeObject = isPlainObject(before) ? before : {};
+    const afterObject = isPlainObject(after) ? after : {};
+    const keys = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+    return Array.from(keys).flatMap(key => diffPricing(region, beforeObject[key], afterObject[key], [...path, key]));
+  }
+  return before === after ? [] : [{ region, path: path.join('.'), before, after }];
+};
+
+// Validate an import against the current pricing without applying it.
+// Existing regions accept partial updates; new regions need the full schema.
+export const previewPricingImport = (
+  jsonData: string,
+  current: Record<string, RegionalPricing>
+): PricingImportPreview => {
+  const preview: PricingImportPreview = { regions: {}, newRegions: [], changes: [], issues: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonData);
+  } catch (error) {
+    preview.issues.push({ path: '(file)', message: `Not valid JSON: ${(error as Error).message}` });
+    return preview;
+  }
+
+  if (!isPlainObject(parsed)) {
+    preview.issues.push({ path: '(file)', message: 'Expected an object keyed by region, e.g. { "virginia": { ... } }' });
+    return preview;
+  }
+
+  for (const [key, data] of Object.entries(parsed)) {
+    const region = key.toLowerCase();
+    const existing = current[region];
+
+    if (existing) {
+      const update = regionalPricingUpdateSchema.safeParse(data);
+      if (!update.success) {
+        preview.issues.push(...toIssues(region, update.error));
+        continue;
+      }
+    }
+
+    const merged = existing ? deepMerge(existing, data) : data;
+    const result = regionalPricingSchema.safeParse(merged);
+    if (!result.success) {
+      preview.issues.push(...toIssues(region, result.error));
+      continue;
+    }
+
+    preview.regions[region] = result.data as RegionalPricing;
+    if (existing) {
+      preview.changes.push(...diffPricing(region, existing, result.data));
+    } else {
+      preview.newRegions.push(region);
+    }
+  }
+
+  return preview;
+};
@@ -0,0 +1,247 @@
+// Reprojection between [lng, lat] degrees and the grids site plans come in. Covers what US
+// site plans are drawn in: geographic, UTM and State Plane (Transverse Mercator
+// and Lambert Conformal Conic) and Web Mercator. Datum shifts are ignored; NAD83
+// and WGS84 differ by about a meter, which doesn't move an area estimate.
+export interface Projection {
+  name: string;
+  toLngLat(x: number, y: number): [number, number];
+  fromLngLat(lng: number, lat: number): [number, number];
+}
+
+interface Ellipsoid {
+  a: number; // semi-major axis in meters
+  f: number; // flattening
+}
+
+const WGS84_ELLIPSOID: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+const GRS80_ELLIPSOID: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+
+const DEG = Math.PI / 180;
+
+export const GEOGRAPHIC: Projection = {
+  name: 'Geographic (lng/lat)',
+  toLngLat: (x, y) => [x, y],
+  fromLngLat: (lng, lat) => [lng, lat]
+};
+
+// Snyder, Map Projections: A Working Manual, formulas 8-9 to 8-25.
+// False easting and northing are in the projection's units, as in a .prj.
+const transverseMercator = (
+  name: string,
+  { a, f }: Ellipsoid,
+  { lon0, lat0 = 0, k0, falseEasting = 0, falseNorthing = 0, unit = 1 }:
+    { lon0: number; lat0?: number; k0: number; falseEasting?: number; falseNorthing?: number; unit?: number }
+): Projection => {
+  const e2 = 2 * f - f * f;
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const meridianArc = (phi: number) =>
+    a * ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi
+      - ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi)
+      + ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi)
+      - ((35 * e6) / 3072) * Math.sin(6 * phi));
+  const m0 = meridianArc(lat0 * DEG);
+
+  return {
+    name,
+    toLngLat: (x, y) => {
+      const easting = (x - falseEasting) * unit;
+      const northing = (y - falseNorthing) * unit;
+      const mu = (m0 + northing / k0) / (a * (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+      const phi1 = mu
+        + ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu)
+        + ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu)
+        + ((151 * e1 ** 3) / 96) * Math.sin(6 * mu)
+        + ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+      const sin1 = Math.sin(phi1);
+      const cos1 = Math.cos(phi1);
+      const c1 = ep2 * cos1 * cos1;
+      const t1 = Math.tan(phi1) ** 2;
+      const n1 = a / Math.sqrt(1 - e2 * sin1 * sin1);
+      const r1 = (a * (1 - e2)) / (1 - e2 * sin1 * sin1) ** 1.5;
+      const d = easting / (n1 * k0);
+
+      const lat = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+        (d ** 2) / 2
+        - ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24
+        + ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720
+      );
+      const lon = (
+        d
+        - ((1 + 2 * t1 + c1) * d ** 3) / 6
+        + ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120
+      ) / cos1;
+
+      return [lon0 + lon / DEG, lat / DEG];
+    },
+    fromLngLat: (lng, lat) => {
+      const phi = lat * DEG;
+      const sin = Math.sin(phi);
+      const cos = Math.cos(phi);
+      const n = a / Math.sqrt(1 - e2 * sin * sin);
+      const t = Math.tan(phi) ** 2;
+      const c = ep2 * cos * cos;
+      const big = (lng - lon0) * DEG * cos;
+
+      const easting = k0 * n * (
+        big
+        + ((1 - t + c) * big ** 3) / 6
+        + ((5 - 18 * t + t ** 2 + 72 * c - 58 * ep2) * big ** 5) / 120
+      );
+      const northing = k0 * (
+        meridianArc(phi) - m0 + n * Math.tan(phi) * (
+          (big ** 2) / 2
+          + ((5 - t + 9 * c + 4 * c ** 2) * big ** 4) / 24
+          + ((61 - 58 * t + t ** 2 + 600 * c - 330 * ep2) * big ** 6) / 720
+        )
+      );
+      return [easting / unit + falseEasting, northing / unit + falseNorthing];
+    }
+  };
+};
+
+// Snyder 15-1 to 15-11; one standard parallel uses the scale factor instead
+const lambertConformalConic = (
+  name: string,
+  { a, f }: Ellipsoid,
+  { lon0, lat0, parallels, k0 = 1, falseEasting = 0, falseNorthing = 0, unit = 1 }:
+    { lon0: number; lat0: number; parallels: [number, number]; k0?: number; falseEasting?: number; falseNorthing?: number; unit?: number }
+): Projection => {
+  const e = Math.sqrt(2 * f - f * f);
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - (e * Math.sin(phi)) ** 2);
+  const t = (phi: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) / ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2);
+
+  const [phi1, phi2] = parallels.map(parallel => parallel * DEG);
+  const n = Math.abs(phi1 - phi2) < 1e-10
+    ? Math.sin(phi1)
+    : (Math.log(m(phi1)) - Math.log(m(phi2))) / (Math.log(t(phi1)) - Math.log(t(phi2)));
+  const bigF = m(phi1) / (n * t(phi1) ** n);
+  const rho0 = a * bigF * k0 * t(lat0 * DEG) ** n;
+
+  return {
+    name,
+    toLngLat: (x, y) => {
+      const easting = (x - falseEasting) * unit;
+      const northing = rho0 - (y - falseNorthing) * unit;
+      const sign = Math.sign(n);
+      const rho = sign * Math.sqrt(easting ** 2 + northing ** 2);
+      const theta = Math.atan2(sign * easting, sign * northing);
+      const tp = (rho / (a * bigF * k0)) ** (1 / n);
+
+      let phi = Math.PI / 2 - 2 * Math.atan(tp);
+      for (let i = 0; i < 15; i++) {
+        const next = Math.PI / 2 - 2 * Math.atan(tp * ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2));
+        if (Math.abs(next - phi) < 1e-12) break;
+        phi = next;
+      }
+      return [lon0 + theta / n / DEG, phi / DEG];
+    },
+    fromLngLat: (lng, lat) => {
+      const rho = a * bigF * k0 * t(lat * DEG) ** n;
+      const theta = n * (lng - lon0) * DEG;
+      return [(rho * Math.sin(theta)) / unit + falseEasting, (rho0 - rho * Math.cos(theta)) / unit + falseNorthing];
+    }
+  };
+};
+
+const sphericalMercator = (name: string, a: number, lon0 = 0, falseEasting = 0, falseNorthing = 0, unit = 1): Projection => ({
+  name,
+  toLngLat: (x, y) => [
+    lon0 + ((x - falseEasting) * unit) / a / DEG,
+    (2 * Math.atan(Math.exp(((y - falseNorthing) * unit) / a)) - Math.PI / 2) / DEG
+  ],
+  fromLngLat: (lng, lat) => [
+    (a * (lng - lon0) * DEG) / unit + falseEasting,
+    (a * Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2))) / unit + falseNorthing
+  ]
+});
+
+const utm = (zone: number, south: boolean, ellipsoid: Ellipsoid, datum: string) =>
+  transverseMercator(`${datum} UTM zone ${zone}${south ? 'S' : 'N'}`, ellipsoid, {
+    lon0: zone * 6 - 183,
+    k0: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0
+  });
+
+// The WGS 84 UTM zone a point falls in, for exports that need a metric grid
+export const utmProjectionFor = (lng: number, lat: number): Projection => {
+  const zone = Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+  return utm(zone, lat < 0, WGS84_ELLIPSOID, 'WGS 84');
+};
+
+// Codes that turn up in GeoJSON "crs" members; anything else needs a .prj
+export const projectionFromEpsg = (code: number): Projection | null => {
+  if (code === 4326 || code === 4269 || code === 4258) return GEOGRAPHIC;
+  if (code === 3857 || code === 900913 || code === 3785 || code === 102100) {
+    return sphericalMercator('Web Mercator', WGS84_ELLIPSOID.a);
+  }
+  if (code >= 32601 && code <= 32660) return utm(code - 32600, false, WGS84_ELLIPSOID, 'WGS 84');
+  if (code >= 32701 && code <= 32760) return utm(code - 32700, true, WGS84_ELLIPSOID, 'WGS 84');
+  if (code >= 26901 && code <= 26923) return utm(code - 26900, false, GRS80_ELLIPSOID, 'NAD83');
+  return null;
+};
+
+// Reads "EPSG:3857", "urn:ogc:def:crs:EPSG::26918" and "urn:ogc:def:crs:OGC:1.3:CRS84"
+export const projectionFromCrsName = (crsName: string): Projection | null => {
+  if (/CRS84$/i.test(crsName)) return GEOGRAPHIC;
+  const match = crsName.match(/EPSG:+(\d+)$/i);
+  return match ? projectionFromEpsg(Number(match[1])) : null;
+};
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// ESRI-style WKT from a shapefile's .prj; throws for projections not covered here
+export const projectionFromWkt = (wkt: string): Projection => {
+  const text = wkt.trim();
+  if (/^GEOGCS\[/i.test(text)) return GEOGRAPHIC;
+
+  const name = text.match(/^PROJCS\["([^"]*)"/i)?.[1];
+  const method = text.match(/PROJECTION\["([^"]*)"/i)?.[1];
+  if (!name || !method) {
+    throw new Error('Unrecognized .prj file; only ESRI WKT (PROJCS or GEOGCS) is supported');
+  }
+
+  const parameters: Record<string, number> = {};
+  for (const [, key, value] of text.matchAll(/PARAMETER\["([^"]*)",\s*([-\d.eE+]+)\]/gi)) {
+    parameters[normalize(key)] = Number(value);
+  }
+  const spheroid = text.match(/SPHEROID\["[^"]*",\s*([-\d.eE+]+),\s*([-\d.eE+]+)/i);
+  const ellipsoid: Ellipsoid = spheroid
+    ? { a: Number(spheroid[1]), f: Number(spheroid[2]) === 0 ? 0 : 1 / Number(spheroid[2]) }
+    : GRS80_ELLIPSOID;
+  // The projected CRS's own unit is the last one; the first belongs to its GEOGCS
+  const units = [...text.matchAll(/UNIT\["([^"]*)",\s*([-\d.eE+]+)\]/gi)];
+  const lastUnit = units[units.length - 1];
+  const unit = lastUnit && !/degree/i.test(lastUnit[1]) ? Number(lastUnit[2]) : 1;
+
+  const lon0 = parameters.centralmeridian ?? parameters.longitudeofcenter ?? parameters.longitudeoforigin ?? 0;
+  const lat0 = parameters.latitudeoforigin ?? parameters.latitudeofcenter ?? 0;
+  const falseEasting = parameters.falseeasting ?? 0;
+  const falseNorthing = parameters.falsenorthing ?? 0;
+  const k0 = parameters.scalefactor ?? 1;
+
+  switch (normalize(method)) {
+    case 'transversemercator':
+    case 'gausskruger':
+      return transverseMercator(name, ellipsoid, { lon0, lat0, k0, falseEasting, falseNorthing, unit });
+    case 'lambertconformalconic':
+    case 'lambertconformalconic2sp':
+    case 'lambertconformalconic1sp': {
+      const parallel1 = parameters.standardparallel1 ?? lat0;
+      const parallel2 = parameters.standardparallel2 ?? parallel1;
+      return lambertConformalConic(name, ellipsoid, {
+        lon0, lat0, parallels: [parallel1, parallel2], k0, falseEasting, falseNorthing, unit
+      });
+    }
+    case 'mercatorauxiliarysphere':
+    case 'popularvisualisationpseudomercator':
+      return sphericalMercator(name, ellipsoid.a, lon0, falseEasting, falseNorthing, unit);
+    default:
+      throw new Error(`The ${method} projection in ${name} isn't supported`);
+  }
+};
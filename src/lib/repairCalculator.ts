@@ -0,0 +1,202 @@
+// Types for asphalt repair and patching
+export type RepairMethod = 'cold-patch' | 'cut-and-patch' | 'infrared' | 'overlay';
+
+export interface RepairItem {
+  id: string;
+  method: RepairMethod;
+  area: number; // sq ft
+  depthInches: number;
+  description?: string;
+}
+
+export interface RepairPricing {
+  coldPatch: {
+    pricePerTon: number;
+    supplier: string;
+  };
+  hotMix: {
+    pricePerTon: number;
+    supplier: string;
+  };
+  tackCoat: {
+    pricePerGallon: number;
+    gallonsPerSqFt: number;
+    supplier: string;
+  };
+  sawCutting: {
+    pricePerLinearFoot: number;
+  };
+  compaction: {
+    hourlyRate: number; // plate compactor or roller, including fuel
+  };
+  disposal: {
+    pricePerTon: number;
+  };
+  asphaltDensity: number; // lbs per cubic foot, compacted
+  wasteFactor: number; // extra material ordered, 0.1 = 10%
+}
+
+export interface RepairLineEstimate {
+  item: RepairItem;
+  tons: number;
+  material: { cost: number; supplier: string };
+  tackCoat: { gallons: number; cost: number };
+  sawCut: { linearFeet: number; cost: number };
+  compaction: { hours: number; cost: number };
+  disposal: { tons: number; cost: number };
+  labor: { hours: number; rate: number; cost: number };
+  totalCost: number;
+}
+
+export interface RepairEstimate {
+  lines: RepairLineEstimate[];
+  totalTons: number;
+  totalLaborHours: number;
+  totalCost: number;
+}
+
+interface RepairMethodProfile {
+  label: string;
+  material: 'coldPatch' | 'hotMix';
+  newMaterialFraction: number; // share of the repaired volume that is new asphalt
+  tackCoat: boolean;
+  sawCut: boolean;
+  removesMaterial: boolean;
+  sqFtPerCompactionHour: number;
+  laborHoursPerSqFt: number;
+  defaultDepthInches: number;
+}
+
+export const REPAIR_METHODS: Record<RepairMethod, RepairMethodProfile> = {
+  'cold-patch': {
+    label: 'Pothole Cold Patch',
+    material: 'coldPatch',
+    newMaterialFraction: 1,
+    tackCoat: false,
+    sawCut: false,
+    removesMaterial: false,
+    sqFtPerCompactionHour: 200,
+    laborHoursPerSqFt: 0.05,
+    defaultDepthInches: 2
+  },
+  'cut-and-patch': {
+    label: 'Hot Mix Cut & Patch',
+    material: 'hotMix',
+    newMaterialFraction: 1,
+    tackCoat: true,
+    sawCut: true,
+    removesMaterial: true,
+    sqFtPerCompactionHour: 150,
+    laborHoursPerSqFt: 0.08,
+    defaultDepthInches: 3
+  },
+  infrared: {
+    label: 'Infrared Repair',
+    material: 'hotMix',
+    newMaterialFraction: 0.25, // existing asphalt is reheated and reworked
+    tackCoat: false,
+    sawCut: false,
+    removesMaterial: false,
+    sqFtPerCompactionHour: 100,
+    laborHoursPerSqFt: 0.06,
+    defaultDepthInches: 2
+  },
+  overlay: {
+    label: 'Overlay',
+    material: 'hotMix',
+    newMaterialFraction: 1,
+    tackCoat: true,
+    sawCut: false,
+    removesMaterial: false,
+    sqFtPerCompactionHour: 1000,
+    laborHoursPerSqFt: 0.01,
+    defaultDepthInches: 1.5
+  }
+};
+
+export const DEFAULT_REPAIR_PRICING: RepairPricing = {
+  coldPatch: {
+    pricePerTon: 320.00, // bagged cold patch
+    supplier: 'Local Supplier'
+  },
+  hotMix: {
+    pricePerTon: 95.00,
+    supplier: 'Local Asphalt Plant'
+  },
+  tackCoat: {
+    pricePerGallon: 4.50,
+    gallonsPerSqFt: 0.05,
+    supplier: 'SealMaster'
+  },
+  sawCutting: {
+    pricePerLinearFoot: 2.50
+  },
+  compaction: {
+    hourlyRate: 45.00
+  },
+  disposal: {
+    pricePerTon: 40.00
+  },
+  asphaltDensity: 145,
+  wasteFactor: 0.1
+};
+
+// Tons of compacted asphalt for an area and depth
+export const asphaltTons = (area: number, depthInches: number, pricing: RepairPricing): number =>
+  (area * (depthInches / 12) * pricing.asphaltDensity) / 2000;
+
+const priceRepair = (item: RepairItem, pricing: RepairPricing, hourlyRate: number): RepairLineEstimate => {
+  const method = REPAIR_METHODS[item.method];
+  const repairTons = asphaltTons(item.area, item.depthInches, pricing);
+  const tons = repairTons * method.newMaterialFraction * (1 + pricing.wasteFactor);
+  const material = pricing[method.material];
+
+  const tackGallons = method.tackCoat ? item.area * pricing.tackCoat.gallonsPerSqFt : 0;
+  // Patches are cut square, so the cut line is the square's perimeter
+  const sawCutFeet = method.sawCut ? Math.sqrt(item.area) * 4 : 0;
+  const compactionHours = item.area / method.sqFtPerCompactionHour;
+  const disposalTons = method.removesMaterial ? repairTons : 0;
+  const laborHours = item.area * method.laborHoursPerSqFt;
+
+  const line = {
+    item,
+    tons,
+    material: { cost: tons * material.pricePerTon, supplier: material.supplier },
+    tackCoat: { gallons: tackGallons, cost: tackGallons * pricing.tackCoat.pricePerGallon },
+    sawCut: { linearFeet: sawCutFeet, cost: sawCutFeet * pricing.sawCutting.pricePerLinearFoot },
+    compaction: { hours: compactionHours, cost: compactionHours * pricing.compaction.hourlyRate },
+    disposal: { tons: disposalTons, cost: disposalTons * pricing.disposal.pricePerTon },
+    labor: { hours: laborHours, rate: hourlyRate, cost: laborHours * hourlyRate }
+  };
+
+  return {
+    ...line,
+    totalCost:
+      line.material.cost +
+      line.tackCoat.cost +
+      line.sawCut.cost +
+      line.compaction.cost +
+      line.disposal.cost +
+      line.labor.cost
+  };
+};
+
+// Price every repair line; empty or zero-area lines are skipped
+export const calculateRepairs = (
+  items: RepairItem[],
+  pricing: RepairPricing,
+  hourlyRate: number
+): RepairEstimate | null => {
+  const lines = items
+    .filter(item => item.area > 0 && item.depthInches > 0)
+    .map(item => priceRepair(item, pricing, hourlyRate));
+
+  if (lines.length === 0) return null;
+
+  return {
+    lines,
+    totalTons: lines.reduce((sum, line) => sum + line.tons, 0),
+    totalLaborHours: lines.reduce((sum, line) => sum + line.labor.hours, 0),
+    totalCost: lines.reduce((sum, line) => sum + line.totalCost, 0)
+  };
+};
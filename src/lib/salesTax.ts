@@ -0,0 +1,192 @@
+// Sales tax lookups by zip code or county, with per-state rules for what is taxable.
+// Rates are bundled so estimates work offline; update the tables when rates change.
+
+export interface TaxLocation {
+  state: string; // two-letter code
+  zipCode?: string;
+  county?: string;
+}
+
+export interface StateTaxRules {
+  name: string;
+  materialsTaxable: boolean;
+  laborTaxable: boolean; // repair and maintenance labor on real property
+  note: string;
+}
+
+interface LocalTaxRate {
+  state: string;
+  county: string;
+  rate: number; // combined state and local rate
+  zipPrefixes: string[];
+  zipCodes?: string[]; // exact matches override prefixes
+}
+
+export type TaxRateSource = 'zip' | 'county' | 'region';
+
+export interface TaxJurisdiction {
+  state: string;
+  county?: string;
+  zipCode?: string;
+  rate: number;
+  source: TaxRateSource;
+  materialsTaxable: boolean;
+  laborTaxable: boolean;
+}
+
+export type TaxExemptReason = 'government' | 'religious' | 'nonprofit' | 'school' | 'resale' | 'other';
+
+export interface TaxExemption {
+  reason: TaxExemptReason;
+  certificateNumber: string;
+  expiresOn?: string; // ISO date; the certificate is good through the end of that day
+}
+
+export interface TaxBreakdown {
+  jurisdiction: TaxJurisdiction;
+  materialsAmount: number;
+  laborAmount: number;
+  taxableAmount: number;
+  rate: number;
+  taxAmount: number;
+  exemption: TaxExemption | null;
+  basis: string; // human-readable explanation for estimates and invoices
+}
+
+export const TAX_EXEMPT_REASONS: Record<TaxExemptReason, string> = {
+  government: 'Government agency',
+  religious: 'Church / religious organization',
+  nonprofit: 'Nonprofit 501(c)(3)',
+  school: 'School',
+  resale: 'Resale',
+  other: 'Other'
+};
+
+export const STATE_TAX_RULES: Record<string, StateTaxRules> = {
+  VA: {
+    name: 'Virginia',
+    materialsTaxable: true,
+    laborTaxable: false,
+    note: 'Contractors pay tax on materials; real property labor is not taxable'
+  },
+  NC: {
+    name: 'North Carolina',
+    materialsTaxable: true,
+    laborTaxable: true,
+    note: 'Repair, maintenance and installation services are taxable'
+  }
+};
+
+const LOCAL_TAX_RATES: LocalTaxRate[] = [
+  // Virginia regional transportation districts add 0.7%; the Historic Triangle adds 1% more
+  { state: 'VA', county: 'Northern Virginia', rate: 0.06, zipPrefixes: ['201', '220', '221', '222', '223'] },
+  { state: 'VA', county: 'Central Virginia', rate: 0.06, zipPrefixes: ['230', '231', '232'] },
+  { state: 'VA', county: 'Hampton Roads', rate: 0.06, zipPrefixes: ['233', '234', '235', '236', '237'] },
+  { state: 'VA', county: 'James City', rate: 0.07, zipPrefixes: [], zipCodes: ['23081', '23168', '23185', '23187', '23188'] },
+  { state: 'VA', county: 'York', rate: 0.07, zipPrefixes: [], zipCodes: ['23690', '23692', '23693'] },
+  { state: 'NC', county: 'Mecklenburg', rate: 0.0725, zipPrefixes: ['282'] },
+  { state: 'NC', county: 'Wake', rate: 0.0725, zipPrefixes: ['275', '276'] },
+  { state: 'NC', county: 'Durham', rate: 0.075, zipPrefixes: ['277'] },
+  { state: 'NC', county: 'Guilford', rate: 0.0675, zipPrefixes: ['272', '274'] },
+  { state: 'NC', county: 'Forsyth', rate: 0.07, zipPrefixes: ['271'] },
+  { state: 'NC', county: 'Buncombe', rate: 0.07, zipPrefixes: ['287', '288'] }
+];
+
+// Last five-digit zip in a free-form address
+export const extractZipCode = (address: string): string | undefined => {
+  const matches = address.match(/\b\d{5}(?=(-\d{4})?\b)/g);
+  return matches?.[matches.length - 1];
+};
+
+const normalizeCounty = (county: string) => county.toLowerCase().replace(/\s+(county|city)$/, '').trim();
+
+// Most specific match wins: exact zip, zip prefix, then county. Anywhere else uses
+// the region's `defaultRate`; states missing from the rules tax everything.
+export const lookupTaxJurisdiction = (location: TaxLocation, defaultRate: number): TaxJurisdiction => {
+  const state = location.state.toUpperCase();
+  const rules = STATE_TAX_RULES[state];
+  const zipCode = location.zipCode?.trim() || undefined;
+
+  if (!rules) {
+    return { state, zipCode, rate: defaultRate, source: 'region', materialsTaxable: true, laborTaxable: true };
+  }
+
+  const localRates = LOCAL_TAX_RATES.filter(local => local.state === state);
+  const match = zipCode
+    ? localRates.find(local => local.zipCodes?.includes(zipCode)) ??
+      localRates.find(local => local.zipPrefixes.some(prefix => zipCode.startsWith(prefix)))
+    : undefined;
+  const countyMatch = !match && location.county
+    ? localRates.find(local => normalizeCounty(local.county) === normalizeCounty(location.county))
+    : undefined;
+  const local = match ?? countyMatch;
+
+  return {
+    state,
+    county: local?.county ?? location.county,
+    zipCode,
+    rate: local?.rate ?? defaultRate,
+    source: match ? 'zip' : countyMatch ? 'county' : 'region',
+    materialsTaxable: rules.materialsTaxable,
+    laborTaxable: rules.laborTaxable
+  };
+};
+
+export const isExemptionExpired = (exemption: TaxExemption, asOf: Date = new Date()) =>
+  !!exemption.expiresOn && new Date(`${exemption.expiresOn}T23:59:59.999`) < asOf;
+
+export const hasValidExemption = (exemption?: TaxExemption | null, asOf: Date = new Date()): exemption is TaxExemption =>
+  !!exemption && exemption.certificateNumber.trim().length > 0 && !isExemptionExpired(exemption, asOf);
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const describeJurisdiction = (jurisdiction: TaxJurisdiction) => {
+  const place = jurisdiction.county ? `${jurisdiction.county}, ${jurisdiction.state}` : jurisdiction.state;
+  return jurisdiction.source === 'zip' && jurisdiction.zipCode ? `${place} ${jurisdiction.zipCode}` : place;
+};
+
+// Tax on the materials and labor portions of a job. An exemption only counts
+// once a certificate number is on file, and only until the certificate expires
+// (checked against the estimate or invoice date).
+export const calculateSalesTax = (
+  amounts: { materials: number; labor: number },
+  jurisdiction: TaxJurisdiction,
+  exemption?: TaxExemption | null,
+  asOf: Date = new Date()
+): TaxBreakdown => {
+  const expired = !!exemption && isExemptionExpired(exemption, asOf);
+  const exempt = hasValidExemption(exemption, asOf);
+  const taxableMaterials = !exempt && jurisdiction.materialsTaxable ? amounts.materials : 0;
+  const taxableLabor = !exempt && jurisdiction.laborTaxable ? amounts.labor : 0;
+  const taxableAmount = taxableMaterials + taxableLabor;
+
+  let basis: string;
+  if (exempt) {
+    basis = `Tax exempt (${TAX_EXEMPT_REASONS[exemption.reason]}), certificate #${exemption.certificateNumber.trim()}`;
+  } else if (jurisdiction.materialsTaxable && jurisdiction.laborTaxable) {
+    basis = `${formatRate(jurisdiction.rate)} ${describeJurisdiction(jurisdiction)} on materials and labor`;
+  } else if (jurisdiction.materialsTaxable) {
+    basis = `${formatRate(jurisdiction.rate)} ${describeJurisdiction(jurisdiction)} on materials (${formatAmount(taxableMaterials)}); labor not taxable`;
+  } else if (jurisdiction.laborTaxable) {
+    basis = `${formatRate(jurisdiction.rate)} ${describeJurisdiction(jurisdiction)} on labor (${formatAmount(taxableLabor)}); materials not taxable`;
+  } else {
+    basis = `Not taxable in ${jurisdiction.state}`;
+  }
+  if (expired) {
+    basis = `${basis}; exemption certificate #${exemption.certificateNumber.trim()} expired ${exemption.expiresOn}`;
+  }
+
+  return {
+    jurisdiction,
+    materialsAmount: amounts.materials,
+    laborAmount: amounts.labor,
+    taxableAmount,
+    rate: jurisdiction.rate,
+    taxAmount: taxableAmount * jurisdiction.rate,
+    exemption: exempt ? exemption : null,
+    basis
+  };
+};
@@ -0,0 +1,128 @@
+import { calculationEngine, type DetailedEstimate } from './calculationEngine';
+import type { PricingAdjustments, PricingVariable } from './pricingAdjustments';
+
+// Types for what-if analysis: vary inputs around an estimate and re-price it
+export type SensitivityVariable = 'area' | PricingVariable;
+
+// Fractional change per variable, 0.1 = +10%
+export type SensitivityChanges = Partial<Record<SensitivityVariable, number>>;
+
+export interface SensitivityPoint {
+  change: number;
+  finalTotal: number; // re-priced
+  margin: number; // percent once re-priced, as in profitAnalysis
+  marginAtQuote: number; // percent if the original quote stands while costs change
+}
+
+export interface SensitivitySeries {
+  variable: SensitivityVariable | 'combined';
+  label: string;
+  points: SensitivityPoint[];
+}
+
+export interface TornadoBar {
+  variable: SensitivityVariable;
+  label: string;
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  swing: number; // spread in final total between the two ends
+}
+
+export interface SensitivityAnalysis {
+  base: SensitivityPoint;
+  range: number;
+  series: SensitivitySeries[];
+  tornado: TornadoBar[]; // widest swing first
+}
+
+export const SENSITIVITY_VARIABLES: Record<SensitivityVariable, string> = {
+  area: 'Area',
+  sealerPrice: 'Sealer price',
+  laborHours: 'Labor hours',
+  laborRate: 'Labor rate',
+  fuelPrice: 'Fuel price'
+};
+
+// Pre-tax revenue of a quote, including any minimum charge
+const quotedRevenue = (estimate: DetailedEstimate) => estimate.pricing.finalTotal - estimate.pricing.taxAmount;
+
+const toPoint = (estimate: DetailedEstimate, quote: DetailedEstimate, change: number): SensitivityPoint => ({
+  change,
+  finalTotal: estimate.pricing.finalTotal,
+  margin: estimate.profitAnalysis.profitMargin,
+  marginAtQuote: quotedRevenue(quote) > 0
+    ? ((quotedRevenue(quote) - estimate.pricing.subtotal) / quotedRevenue(quote)) * 100
+    : 0
+});
+
+// Re-price an estimate with its original inputs, as of the same date, after the changes
+export const recalculateWithChanges = (estimate: DetailedEstimate, changes: SensitivityChanges): DetailedEstimate => {
+  const { projectInfo, inputs } = estimate;
+  const adjustments: PricingAdjustments = { ...inputs.options.adjustments };
+  for (const variable of Object.keys(changes) as SensitivityVariable[]) {
+    if (variable !== 'area') {
+      adjustments[variable] = (adjustments[variable] ?? 1) * (1 + changes[variable]);
+    }
+  }
+
+  // Zoned jobs take their area from the zones, so scale each of them
+  const areaFactor = 1 + (changes.area ?? 0);
+  const zones = inputs.options.zones?.map(zone => ({
+    ...zone,
+    area: zone.area * areaFactor,
+    exclusions: zone.exclusions?.map(exclusion => ({ ...exclusion, area: exclusion.area * areaFactor }))
+  }));
+
+  return calculationEngine.calculateDetailedEstimate(
+    projectInfo.area * areaFactor,
+    projectInfo.jobType,
+    projectInfo.address,
+    inputs.region,
+    inputs.customerType,
+    { ...inputs.options, asOf: projectInfo.pricedAsOf, adjustments, zones }
+  );
+};
+
+// Each variable on its own from -range to +range, plus all of them together
+// when more than one is chosen
+export const analyzeSensitivity = (
+  estimate: DetailedEstimate,
+  variables: SensitivityVariable[],
+  range: number = 0.1,
+  stepsPerSide: number = 4
+): SensitivityAnalysis => {
+  const changes = Array.from({ length: stepsPerSide * 2 + 1 }, (_, index) => range * (index / stepsPerSide - 1));
+  const quote = recalculateWithChanges(estimate, {});
+  const base = toPoint(quote, quote, 0);
+
+  const pointsFor = (variablesToChange: SensitivityVariable[]) =>
+    changes.map(change =>
+      change === 0
+        ? base
+        : toPoint(
+            recalculateWithChanges(estimate, Object.fromEntries(variablesToChange.map(variable => [variable, change]))),
+            quote,
+            change
+          )
+    );
+
+  const series: SensitivitySeries[] = variables.map(variable => ({
+    variable,
+    label: SENSITIVITY_VARIABLES[variable],
+    points: pointsFor([variable])
+  }));
+  if (variables.length > 1) {
+    series.push({ variable: 'combined', label: 'All together', points: pointsFor(variables) });
+  }
+
+  const tornado = series
+    .filter((line): line is SensitivitySeries & { variable: SensitivityVariable } => line.variable !== 'combined')
+    .map(line => {
+      const low = line.points[0];
+      const high = line.points[line.points.length - 1];
+      return { variable: line.variable, label: line.label, low, high, swing: Math.abs(high.finalTotal - low.finalTotal) };
+    })
+    .sort((a, b) => b.swing - a.swing);
+
+  return { base, range, series, tornado };
+};
@@ -0,0 +1,390 @@
+import * as turf from '@turf/area';
+import { createZone, type EstimateZone, type JobType } from './estimateZones';
+import { closeRing, FT_PER_M, openRing, ringPerimeter, SQ_FT_PER_SQ_M } from './measurementGeometry';
+import { GEOGRAPHIC, projectionFromCrsName, projectionFromWkt, type Projection } from './projections';
+
+// Types for importing site plans (GeoJSON, KML, KMZ, shapefile) as measured zones.
+// Everything is read in the browser; nothing is uploaded.
+export type SiteImportFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile';
+
+export interface ImportedShape {
+  name: string;
+  outline: number[][]; // open [lng, lat] ring
+  holes: number[][][];
+}
+
+export interface SiteImport {
+  format: SiteImportFormat;
+  projection: string;
+  shapes: ImportedShape[];
+  unsupported: Record<string, number>; // geometry type -> count left out
+}
+
+export class SiteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiteImportError';
+  }
+}
+
+export const SITE_IMPORT_ACCEPT = '.geojson,.json,.kml,.kmz,.zip,.shp,.dbf,.prj';
+
+
+const extension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+const baseName = (fileName: string) => fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').toLowerCase();
+
+// Shoelace sum; negative is clockwise with y pointing up
+const signedArea = (ring: number[][]) =>
+  ring.reduce((sum, [x1, y1], index) => {
+    const [x2, y2] = ring[(index + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0) / 2;
+
+const containsPoint = (ring: number[][], [x, y]: number[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const countUnsupported = (unsupported: Record<string, number>, type: string) => {
+  unsupported[type] = (unsupported[type] ?? 0) + 1;
+};
+
+// GeoJSON
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const featureName = (properties: Record<string, unknown> | null | undefined, fallback: string) => {
+  const name = properties?.name ?? properties?.Name ?? properties?.NAME ?? properties?.title;
+  return typeof name === 'string' && name.trim() ? name.trim() : fallback;
+};
+
+const parseGeoJson = (text: string): SiteImport => {
+  let data: { type?: string; crs?: { properties?: { name?: string } }; features?: GeoJsonFeature[] } & GeoJsonGeometry;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SiteImportError('The file is not valid JSON');
+  }
+
+  // RFC 7946 is always lng/lat, but older files name a projected CRS
+  const crsName = data.crs?.properties?.name;
+  const projection = crsName ? projectionFromCrsName(crsName) : GEOGRAPHIC;
+  if (!projection) throw new SiteImportError(`The coordinate system ${crsName} isn't supported`);
+
+  const features: GeoJsonFeature[] =
+    data.type === 'FeatureCollection' ? data.features ?? []
+      : data.type === 'Feature' ? [data as unknown as GeoJsonFeature]
+        : [{ type: 'Feature', geometry: data, properties: null }];
+
+  const shapes: ImportedShape[] = [];
+  const unsupported: Record<string, number> = {};
+  const toShape = (name: string, rings: number[][][]): ImportedShape => {
+    const [outline, ...holes] = rings.map(ring => openRing(ring.map(([x, y]) => projection.toLngLat(x, y))));
+    return { name, outline, holes };
+  };
+  const addGeometry = (geometry: GeoJsonGeometry | null, name: string) => {
+    if (!geometry) return;
+    if (geometry.type === 'Polygon') {
+      shapes.push(toShape(name, geometry.coordinates as number[][][]));
+    } else if (geometry.type === 'MultiPolygon') {
+      const polygons = geometry.coordinates as number[][][][];
+      polygons.forEach((rings, index) => shapes.push(toShape(polygons.length > 1 ? `${name} (${index + 1})` : name, rings)));
+    } else if (geometry.type === 'GeometryCollection') {
+      geometry.geometries?.forEach(child => addGeometry(child, name));
+    } else {
+      countUnsupported(unsupported, geometry.type);
+    }
+  };
+
+  features.forEach((feature, index) => addGeometry(feature.geometry, featureName(feature.properties, `Imported ${index + 1}`)));
+  return { format: 'geojson', projection: projection.name, shapes, unsupported };
+};
+
+// KML
+
+const KML_GEOMETRIES = ['Polygon', 'MultiGeometry', 'Point', 'LineString', 'LinearRing', 'Model', 'Track', 'MultiTrack'];
+
+const kmlCoordinates = (element: Element | null): number[][] =>
+  (element?.textContent ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').slice(0, 2).map(Number));
+
+// KML is always WGS84 lng/lat
+const parseKml = (text: string, format: SiteImportFormat = 'kml'): SiteImport => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new SiteImportError('The KML file could not be read');
+  }
+
+  const shapes: ImportedShape[] = [];
+  const unsupported: Record<string, number> = {};
+  const addGeometry = (element: Element, name: string) => {
+    const type = element.localName;
+    if (type === 'Polygon') {
+      const ring = (boundary: string) =>
+        Array.from(element.getElementsByTagNameNS('*', boundary)).map(node =>
+          openRing(kmlCoordinates(node.getElementsByTagNameNS('*', 'coordinates')[0]))
+        );
+      const [outline] = ring('outerBoundaryIs');
+      if (outline) shapes.push({ name, outline, holes: ring('innerBoundaryIs') });
+    } else if (type === 'MultiGeometry') {
+      Array.from(element.children)
+        .filter(child => KML_GEOMETRIES.includes(child.localName))
+        .forEach(child => addGeometry(child, name));
+    } else {
+      countUnsupported(unsupported, type);
+    }
+  };
+
+  Array.from(doc.getElementsByTagNameNS('*', 'Placemark')).forEach((placemark, index) => {
+    const name = placemark.getElementsByTagNameNS('*', 'name')[0]?.textContent?.trim() || `Imported ${index + 1}`;
+    Array.from(placemark.children)
+      .filter(child => KML_GEOMETRIES.includes(child.localName))
+      .forEach(child => addGeometry(child, name));
+  });
+
+  return { format, projection: GEOGRAPHIC.name, shapes, unsupported };
+};
+
+// Zip (KMZ and zipped shapefiles)
+
+// Reads the central directory and inflates entries with the browser's own
+// DecompressionStream; stored and deflated entries cover what GIS tools write
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  let end = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new SiteImportError('The archive is not a valid zip file');
+
+  const entries = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new SiteImportError('The zip file is damaged');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Folders, and the resource forks macOS adds when zipping
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    } else {
+      throw new SiteImportError(`${name} uses an unsupported zip compression method`);
+    }
+  }
+  return entries;
+};
+
+// Shapefile
+
+const SHAPE_TYPES: Record<number, string> = {
+  1: 'Point', 3: 'PolyLine', 5: 'Polygon', 8: 'MultiPoint',
+  11: 'PointZ', 13: 'PolyLineZ', 15: 'PolygonZ', 18: 'MultiPointZ',
+  21: 'PointM', 23: 'PolyLineM', 25: 'PolygonM', 28: 'MultiPointM', 31: 'MultiPatch'
+};
+const POLYGON_TYPES = [5, 15, 25];
+
+// Names from the attribute table, when it has a name-like column
+const readDbfNames = (bytes: Uint8Array): string[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const records = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const decoder = new TextDecoder('latin1');
+
+  const fields: { name: string; offset: number; length: number }[] = [];
+  let fieldOffset = 1; // each record starts with its deletion flag
+  for (let position = 32; position < headerLength - 1 && bytes[position] !== 0x0d; position += 32) {
+    const name = decoder.decode(bytes.subarray(position, position + 11)).replace(/\0.*$/, '');
+    const length = bytes[position + 16];
+    fields.push({ name, offset: fieldOffset, length });
+    fieldOffset += length;
+  }
+
+  const field = ['name', 'label', 'title', 'id']
+    .map(candidate => fields.find(({ name }) => name.toLowerCase() === candidate))
+    .find(Boolean);
+  if (!field) return [];
+
+  return Array.from({ length: records }, (_, index) => {
+    const start = headerLength + index * recordLength + field.offset;
+    return decoder.decode(bytes.subarray(start, start + field.length)).trim();
+  });
+};
+
+// Outer rings run clockwise and holes counter-clockwise; each hole joins the
+// outer ring that contains it
+const shapefileShapes = (shp: Uint8Array, names: string[], projection: Projection, unsupported: Record<string, number>) => {
+  const view = new DataView(shp.buffer, shp.byteOffset, shp.byteLength);
+  if (view.getInt32(0, false) !== 9994) throw new SiteImportError('The .shp file is not a shapefile');
+
+  const shapes: ImportedShape[] = [];
+  let offset = 100;
+  let record = 0;
+  while (offset + 8 <= shp.byteLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const start = offset + 8;
+    const shapeType = view.getInt32(start, true);
+    const name = names[record] || `Imported ${record + 1}`;
+    offset = start + contentLength;
+    record++;
+
+    if (shapeType === 0) continue;
+    if (!POLYGON_TYPES.includes(shapeType)) {
+      countUnsupported(unsupported, SHAPE_TYPES[shapeType] ?? `Shape type ${shapeType}`);
+      continue;
+    }
+
+    const partCount = view.getInt32(start + 36, true);
+    const pointCount = view.getInt32(start + 40, true);
+    const parts = Array.from({ length: partCount }, (_, index) => view.getInt32(start + 44 + index * 4, true));
+    const pointsStart = start + 44 + partCount * 4;
+    const rings = parts.map((first, index) => {
+      const last = index + 1 < partCount ? parts[index + 1] : pointCount;
+      return openRing(Array.from({ length: last - first }, (_, point) => [
+        view.getFloat64(pointsStart + (first + point) * 16, true),
+        view.getFloat64(pointsStart + (first + point) * 16 + 8, true)
+      ]));
+    });
+
+    const outers = rings.filter(ring => signedArea(ring) < 0).map(ring => ({ ring, holes: [] as number[][][] }));
+    for (const ring of rings.filter(candidate => signedArea(candidate) >= 0)) {
+      const owner = outers.find(outer => containsPoint(outer.ring, ring[0]));
+      if (owner) owner.holes.push(ring);
+      else outers.push({ ring, holes: [] }); // wound the wrong way, but still an area
+    }
+
+    const project = (ring: number[][]) => ring.map(([x, y]) => projection.toLngLat(x, y));
+    outers.forEach((outer, index) => shapes.push({
+      name: outers.length > 1 ? `${name} (${index + 1})` : name,
+      outline: project(outer.ring),
+      holes: outer.holes.map(project)
+    }));
+  }
+  return shapes;
+};
+
+// Layers are matched by file name, so parcels.shp reads parcels.dbf and parcels.prj
+const parseShapefiles = (files: Map<string, Uint8Array>): SiteImport => {
+  const byName = new Map([...files].map(([name, bytes]) => [`${baseName(name)}.${extension(name)}`, bytes]));
+  const layers = [...byName.keys()].filter(name => name.endsWith('.shp')).map(name => name.slice(0, -4));
+  if (layers.length === 0) throw new SiteImportError('No .shp file was found');
+
+  const shapes: ImportedShape[] = [];
+  const unsupported: Record<string, number> = {};
+  const projections = new Set<string>();
+  for (const layer of layers) {
+    const prj = byName.get(`${layer}.prj`);
+    let projection = GEOGRAPHIC;
+    if (prj) {
+      try {
+        projection = projectionFromWkt(new TextDecoder().decode(prj));
+      } catch (error) {
+        throw new SiteImportError(error instanceof Error ? error.message : String(error));
+      }
+    }
+    projections.add(projection.name);
+
+    const dbf = byName.get(`${layer}.dbf`);
+    shapes.push(...shapefileShapes(byName.get(`${layer}.shp`), dbf ? readDbfNames(dbf) : [], projection, unsupported));
+  }
+
+  return { format: 'shapefile', projection: [...projections].join(', '), shapes, unsupported };
+};
+
+// Entry point
+
+const readBytes = async (file: File) => new Uint8Array(await file.arrayBuffer());
+
+// One site plan per import: a GeoJSON, KML or KMZ file, a zipped shapefile, or a
+// shapefile's .shp with its .dbf and .prj picked together
+export const readSiteFiles = async (files: File[]): Promise<SiteImport> => {
+  if (files.length === 0) throw new SiteImportError('No file was chosen');
+  const extensions = files.map(file => extension(file.name));
+
+  let result: SiteImport;
+  if (extensions.includes('shp')) {
+    const entries = new Map<string, Uint8Array>();
+    for (const file of files) entries.set(file.name, await readBytes(file));
+    result = parseShapefiles(entries);
+  } else if (files.length > 1) {
+    throw new SiteImportError('Choose one file at a time, except for a shapefile\'s .shp, .dbf and .prj');
+  } else {
+    const [file] = files;
+    const [ext] = extensions;
+    if (ext === 'geojson' || ext === 'json') {
+      result = parseGeoJson(await file.text());
+    } else if (ext === 'kml') {
+      result = parseKml(await file.text());
+    } else if (ext === 'kmz' || ext === 'zip') {
+      const entries = await readZip(await file.arrayBuffer());
+      const kml = [...entries.keys()].find(name => extension(name) === 'kml');
+      if (kml) {
+        result = parseKml(new TextDecoder().decode(entries.get(kml)), 'kmz');
+      } else {
+        result = parseShapefiles(entries);
+      }
+    } else {
+      throw new SiteImportError(`.${ext} files can't be imported; use GeoJSON, KML, KMZ or a shapefile`);
+    }
+  }
+
+  const skipped = Object.entries(result.unsupported).map(([type, count]) => `${count} ${type}`).join(', ');
+  if (result.shapes.length === 0) {
+    throw new SiteImportError(skipped ? `No polygons to measure; unsupported geometry: ${skipped}` : 'The file has no shapes');
+  }
+  return result;
+};
+
+const ringArea = (ring: number[][]) =>
+  turf.default({ type: 'Polygon', coordinates: [closeRing(ring)] }) * SQ_FT_PER_SQ_M;
+
+// Imported shapes become zones like drawn ones, with their holes as exclusions
+export const importedZones = (shapes: ImportedShape[], zones: EstimateZone[], jobType: JobType): EstimateZone[] =>
+  shapes.reduce<EstimateZone[]>((added, shape, index) => {
+    const id = `${Date.now()}-${index}`;
+    const zone = createZone([...zones, ...added], ringArea(shape.outline), ringPerimeter(shape.outline) * FT_PER_M, jobType, id, shape.outline);
+    return [...added, {
+      ...zone,
+      name: shape.name,
+      exclusions: shape.holes.map((hole, holeIndex) => ({
+        id: `${id}-${holeIndex}`,
+        type: 'other' as const,
+        area: ringArea(hole),
+        outline: hole
+      }))
+    }];
+  }, []);
@@ -0,0 +1,250 @@
+// Site plans and aerial photos to measure on without a map provider. Images load
+// as they are; PDFs load the scan or photo embedded in them. Everything is read
+// in the browser; nothing is uploaded.
+export interface SitePlanImage {
+  name: string;
+  url: string; // object URL; revoke when the plan is replaced
+  width: number; // pixels
+  height: number;
+  dpi?: number; // known for PDFs and for images that record it, so a plan scale can be entered
+}
+
+export class SitePlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SitePlanError';
+  }
+}
+
+export const SITE_PLAN_ACCEPT = '.pdf,.jpg,.jpeg,.png,application/pdf,image/jpeg,image/png';
+
+const extension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new SitePlanError('The image could not be read'));
+    image.src = url;
+  });
+
+const inflate = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Resolution recorded in the file
+
+// JFIF APP0 density; units 1 is per inch, 2 per centimeter
+const jpegDpi = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 18 || view.getUint16(0) !== 0xffd8 || view.getUint16(2) !== 0xffe0) return undefined;
+  if (String.fromCharCode(...bytes.subarray(6, 10)) !== 'JFIF') return undefined;
+  const units = bytes[13];
+  const density = view.getUint16(14);
+  if (density <= 1) return undefined;
+  return units === 1 ? density : units === 2 ? density * 2.54 : undefined;
+};
+
+// pHYs chunk, in pixels per meter
+const pngDpi = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'pHYs' && length >= 9) {
+      return bytes[offset + 16] === 1 ? Math.round(view.getUint32(offset + 8) * 0.0254) : undefined;
+    }
+    if (type === 'IDAT' || type === 'IEND') return undefined;
+    offset += length + 12;
+  }
+  return undefined;
+};
+
+// PDF
+
+interface PdfImage {
+  width: number;
+  height: number;
+  filter: string;
+  components: number;
+  bitsPerComponent: number;
+  predictor: number;
+  data: Uint8Array;
+}
+
+const dictNumber = (dict: string, key: string) => {
+  const match = new RegExp(`/${key}\\s+(\\d+)`).exec(dict);
+  return match ? Number(match[1]) : undefined;
+};
+
+const COLOR_SPACE_COMPONENTS: Record<string, number> = { DeviceGray: 1, CalGray: 1, DeviceRGB: 3, CalRGB: 3, DeviceCMYK: 4 };
+
+// Image XObjects in the file, found by their dictionaries; streams hold raw bytes,
+// so the text is decoded one character per byte to keep offsets aligned
+const findPdfImages = (bytes: Uint8Array, text: string): PdfImage[] => {
+  const images: PdfImage[] = [];
+  const subtype = /\/Subtype\s*\/Image/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = subtype.exec(text))) {
+    const dictStart = text.lastIndexOf(' obj', match.index);
+    const stream = /stream\r?\n/g;
+    stream.lastIndex = match.index;
+    const streamMatch = stream.exec(text);
+    if (dictStart < 0 || !streamMatch) continue;
+
+    const dict = text.slice(dictStart, streamMatch.index);
+    const start = streamMatch.index + streamMatch[0].length;
+    let end = text.indexOf('endstream', start);
+    if (end < 0) continue;
+    while (end > start && (bytes[end - 1] === 0x0a || bytes[end - 1] === 0x0d)) end--;
+
+    const filter = /\/Filter\s*\[?\s*\/(\w+)\s*\]?/.exec(dict)?.[1] ?? '';
+    const colorSpace = /\/ColorSpace\s*\/(\w+)/.exec(dict)?.[1];
+    images.push({
+      width: dictNumber(dict, 'Width') ?? 0,
+      height: dictNumber(dict, 'Height') ?? 0,
+      filter,
+      components: dictNumber(dict, 'Colors') ?? COLOR_SPACE_COMPONENTS[colorSpace] ?? 0,
+      bitsPerComponent: dictNumber(dict, 'BitsPerComponent') ?? 8,
+      predictor: dictNumber(dict, 'Predictor') ?? 1,
+      data: bytes.subarray(start, end)
+    });
+    subtype.lastIndex = end;
+  }
+  return images;
+};
+
+// Undoes PNG row filters (predictors 10 and up); each row starts with its filter type
+const unfilterRows = (data: Uint8Array, rowBytes: number, pixelBytes: number) => {
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const output = new Uint8Array(rows * rowBytes);
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowBytes + 1)];
+    const input = row * (rowBytes + 1) + 1;
+    const out = row * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= pixelBytes ? output[out + i - pixelBytes] : 0;
+      const up = row > 0 ? output[out + i - rowBytes] : 0;
+      const upLeft = row > 0 && i >= pixelBytes ? output[out + i - rowBytes - pixelBytes] : 0;
+      let value = data[input + i];
+      if (type === 1) value += left;
+      else if (type === 2) value += up;
+      else if (type === 3) value += (left + up) >> 1;
+      else if (type === 4) {
+        const estimate = left + up - upLeft;
+        const [a, b, c] = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+        value += a <= b && a <= c ? left : b <= c ? up : upLeft;
+      }
+      output[out + i] = value;
+    }
+  }
+  return output;
+};
+
+// Flate images are raw samples, drawn onto a canvas to get a PNG the browser can show
+const flateImageToBlob = async (image: PdfImage): Promise<Blob> => {
+  const { width, height, components } = image;
+  if (image.bitsPerComponent !== 8 || ![1, 3, 4].includes(components)) {
+    throw new SitePlanError('The image in this PDF uses an unsupported color format; export the plan as a JPEG or PNG');
+  }
+
+  const inflated = await inflate(image.data);
+  const samples = image.predictor >= 10 ? unfilterRows(inflated, width * components, components) : inflated;
+  if (samples.length < width * height * components) throw new SitePlanError('The image in this PDF is incomplete');
+
+  const pixels = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const sample = i * components;
+    let [r, g, b] = components === 1
+      ? [samples[sample], samples[sample], samples[sample]]
+      : [samples[sample], samples[sample + 1], samples[sample + 2]];
+    if (components === 4) {
+      const k = 255 - samples[sample + 3];
+      [r, g, b] = [((255 - r) * k) / 255, ((255 - g) * k) / 255, ((255 - b) * k) / 255];
+    }
+    pixels.data.set([r, g, b, 255], i * 4);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d').putImageData(pixels, 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new SitePlanError('The image in this PDF could not be converted'))), 'image/png')
+  );
+};
+
+// Scanned plans and exported aerials are one image filling the page, so the page
+// size in points gives the image's resolution. Vector drawings have no image to load.
+const readPdf = async (bytes: Uint8Array) => {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const images = findPdfImages(bytes, text).filter(image => image.width > 0 && image.height > 0);
+  const image = images.sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  if (!image) {
+    throw new SitePlanError('This PDF has no scanned image to measure on; export the plan page as a JPEG or PNG');
+  }
+
+  let blob: Blob;
+  if (image.filter === 'DCTDecode') blob = new Blob([image.data], { type: 'image/jpeg' });
+  else if (image.filter === 'FlateDecode') blob = await flateImageToBlob(image);
+  else throw new SitePlanError(`The image in this PDF uses unsupported ${image.filter || 'raw'} encoding; export the plan as a JPEG or PNG`);
+
+  const mediaBox = /\/MediaBox\s*\[\s*([-\d.]+)\s+([-\d.]+)\s+([-\d.]+)\s+([-\d.]+)\s*\]/.exec(text);
+  let dpi: number | undefined;
+  if (mediaBox) {
+    const pageWidth = Math.abs(Number(mediaBox[3]) - Number(mediaBox[1]));
+    const pageHeight = Math.abs(Number(mediaBox[4]) - Number(mediaBox[2]));
+    const [long, short] = [Math.max(pageWidth, pageHeight), Math.min(pageWidth, pageHeight)];
+    const [imageLong, imageShort] = [Math.max(image.width, image.height), Math.min(image.width, image.height)];
+    // Only when the image fills the page, in either orientation
+    if (long > 0 && Math.abs(imageLong / imageShort - long / short) < 0.02 * (long / short)) {
+      dpi = (imageLong * 72) / long;
+    }
+  }
+  return { blob, dpi };
+};
+
+export const loadSitePlan = async (file: File): Promise<SitePlanImage> => {
+  const type = extension(file.name);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let blob: Blob = file;
+  let dpi: number | undefined;
+  if (type === 'pdf' || file.type === 'application/pdf') {
+    ({ blob, dpi } = await readPdf(bytes));
+  } else if (type === 'jpg' || type === 'jpeg' || file.type === 'image/jpeg') {
+    dpi = jpegDpi(bytes);
+  } else if (type === 'png' || file.type === 'image/png') {
+    dpi = pngDpi(bytes);
+  } else {
+    throw new SitePlanError(`${file.name} isn't a PDF, JPEG or PNG`);
+  }
+
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = await loadImage(url);
+    return { name: file.name, url, width: image.naturalWidth, height: image.naturalHeight, dpi };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+};
+
+// Plan scales, as feet per plan inch: engineering (1" = 20'), architectural
+// (1/8" = 1'-0") or a ratio (1:240). Anything else reads as null.
+export const parsePlanScale = (text: string): number | null => {
+  const normalized = text.replace(/[“”″]/g, '"').replace(/[‘’′]/g, "'").trim();
+
+  const ratio = /^1\s*:\s*(\d+(?:\.\d+)?)$/.exec(normalized);
+  if (ratio) return Number(ratio[1]) / 12 || null;
+
+  const scale = /^(\d+(?:\.\d+)?|\d+\s*\/\s*\d+)\s*(?:"|in(?:ch(?:es)?)?)\s*=\s*(\d+(?:\.\d+)?)\s*(?:'|ft|feet|foot)(?:\s*-?\s*0\s*")?$/i.exec(normalized);
+  if (!scale) return null;
+
+  const [numerator, denominator = '1'] = scale[1].split('/');
+  const inches = Number(numerator) / Number(denominator);
+  const feet = Number(scale[2]);
+  return inches > 0 && feet > 0 ? feet / inches : null;
+};
@@ -0,0 +1,208 @@
+import type { MaterialLineItem } from './calculationEngine';
+
+// Types for line striping and pavement markings
+export type StallLayout = '90' | '60' | '45';
+
+export interface StripingPlan {
+  stalls: number;
+  stallLayout: StallLayout;
+  additionalLinearFeet: number; // fire lanes, crosswalk edges, lane lines
+  handicapSymbols: number;
+  arrows: number;
+  stopBars: number;
+  curbLinearFeet: number;
+}
+
+export interface StripingPricing {
+  paint: {
+    pricePerGallon: number;
+    linearFeetPerGallon: number; // 4" line
+    supplier: string;
+  };
+  curbPaint: {
+    pricePerGallon: number;
+    linearFeetPerGallon: number; // face and top of curb
+    supplier: string;
+  };
+  beads: {
+    pricePerBag: number;
+    poundsPerBag: number;
+    poundsPerGallon: number; // drop-on glass beads per gallon of line paint
+    supplier: string;
+  };
+  stencils: {
+    handicapPrice: number; // wear cost charged per job using the stencil
+    arrowPrice: number;
+    supplier: string;
+  };
+  markings: {
+    gallonsPerHandicapSymbol: number;
+    gallonsPerArrow: number;
+    gallonsPerStopBar: number;
+  };
+  production: {
+    linearFeetPerHour: number; // striping machine
+    curbLinearFeetPerHour: number;
+    minutesPerSymbol: number; // handicap symbols and arrows
+    minutesPerStopBar: number;
+    layoutHours: number; // chalk lines and measuring, per job
+  };
+}
+
+export interface StripingEstimate {
+  plan: StripingPlan;
+  stripeLinearFeet: number;
+  materials: {
+    paint: MaterialLineItem;
+    curbPaint: MaterialLineItem;
+    beads: MaterialLineItem;
+    stencils: MaterialLineItem;
+  };
+  labor: {
+    hours: number;
+    rate: number;
+    totalCost: number;
+  };
+  totalCost: number;
+}
+
+// Standard 9' x 18' stall; angled stalls need longer lines for the same depth
+const STALL_DEPTH_FEET = 18;
+const STALL_ANGLES: Record<StallLayout, number> = {
+  '90': 90,
+  '60': 60,
+  '45': 45
+};
+
+export const STALL_LAYOUT_LABELS: Record<StallLayout, string> = {
+  '90': '90° (perpendicular)',
+  '60': '60° angled',
+  '45': '45° angled'
+};
+
+export const DEFAULT_STRIPING_PLAN: StripingPlan = {
+  stalls: 0,
+  stallLayout: '90',
+  additionalLinearFeet: 0,
+  handicapSymbols: 0,
+  arrows: 0,
+  stopBars: 0,
+  curbLinearFeet: 0
+};
+
+export const DEFAULT_STRIPING_PRICING: StripingPricing = {
+  paint: {
+    pricePerGallon: 22.00,
+    linearFeetPerGallon: 320,
+    supplier: 'SealMaster'
+  },
+  curbPaint: {
+    pricePerGallon: 22.00,
+    linearFeetPerGallon: 100,
+    supplier: 'SealMaster'
+  },
+  beads: {
+    pricePerBag: 35.00,
+    poundsPerBag: 50,
+    poundsPerGallon: 6,
+    supplier: 'SealMaster'
+  },
+  stencils: {
+    handicapPrice: 25.00,
+    arrowPrice: 15.00,
+    supplier: 'SealMaster'
+  },
+  markings: {
+    gallonsPerHandicapSymbol: 0.5,
+    gallonsPerArrow: 0.25,
+    gallonsPerStopBar: 0.2
+  },
+  production: {
+    linearFeetPerHour: 1000,
+    curbLinearFeetPerHour: 150,
+    minutesPerSymbol: 15,
+    minutesPerStopBar: 10,
+    layoutHours: 1
+  }
+};
+
+// Length of one stall line for the layout angle
+export const stallLineLength = (layout: StallLayout): number =>
+  STALL_DEPTH_FEET / Math.sin((STALL_ANGLES[layout] * Math.PI) / 180);
+
+export const hasStripingWork = (plan: StripingPlan): boolean =>
+  plan.stalls > 0 ||
+  plan.additionalLinearFeet > 0 ||
+  plan.handicapSymbols > 0 ||
+  plan.arrows > 0 ||
+  plan.stopBars > 0 ||
+  plan.curbLinearFeet > 0;
+
+// Price paint, beads, stencils and crew time for a striping plan
+export const calculateStriping = (
+  plan: StripingPlan,
+  pricing: StripingPricing,
+  hourlyRate: number
+): StripingEstimate => {
+  // One line per stall plus the closing line of each run
+  const stallLines = plan.stalls > 0 ? plan.stalls + 1 : 0;
+  const stripeLinearFeet = stallLines * stallLineLength(plan.stallLayout) + plan.additionalLinearFeet;
+
+  const paintGallons =
+    stripeLinearFeet / pricing.paint.linearFeetPerGallon +
+    plan.handicapSymbols * pricing.markings.gallonsPerHandicapSymbol +
+    plan.arrows * pricing.markings.gallonsPerArrow +
+    plan.stopBars * pricing.markings.gallonsPerStopBar;
+  const curbGallons = plan.curbLinearFeet / pricing.curbPaint.linearFeetPerGallon;
+  const beadBags = Math.ceil((paintGallons * pricing.beads.poundsPerGallon) / pricing.beads.poundsPerBag);
+  const stencilCost =
+    (plan.handicapSymbols > 0 ? pricing.stencils.handicapPrice : 0) +
+    (plan.arrows > 0 ? pricing.stencils.arrowPrice : 0);
+
+  const materials = {
+    paint: {
+      quantity: Math.ceil(paintGallons),
+      unitCost: pricing.paint.pricePerGallon,
+      totalCost: Math.ceil(paintGallons) * pricing.paint.pricePerGallon,
+      supplier: pricing.paint.supplier
+    },
+    curbPaint: {
+      quantity: Math.ceil(curbGallons),
+      unitCost: pricing.curbPaint.pricePerGallon,
+      totalCost: Math.ceil(curbGallons) * pricing.curbPaint.pricePerGallon,
+      supplier: pricing.curbPaint.supplier
+    },
+    beads: {
+      quantity: beadBags,
+      unitCost: pricing.beads.pricePerBag,
+      totalCost: beadBags * pricing.beads.pricePerBag,
+      supplier: pricing.beads.supplier
+    },
+    stencils: {
+      quantity: (plan.handicapSymbols > 0 ? 1 : 0) + (plan.arrows > 0 ? 1 : 0),
+      unitCost: 0,
+      totalCost: stencilCost,
+      supplier: pricing.stencils.supplier
+    }
+  };
+
+  const laborHours =
+    pricing.production.layoutHours +
+    stripeLinearFeet / pricing.production.linearFeetPerHour +
+    plan.curbLinearFeet / pricing.production.curbLinearFeetPerHour +
+    ((plan.handicapSymbols + plan.arrows) * pricing.production.minutesPerSymbol +
+      plan.stopBars * pricing.production.minutesPerStopBar) / 60;
+  const labor = {
+    hours: laborHours,
+    rate: hourlyRate,
+    totalCost: laborHours * hourlyRate
+  };
+
+  return {
+    plan,
+    stripeLinearFeet,
+    materials,
+    labor,
+    totalCost: Object.values(materials).reduce((sum, item) => sum + item.totalCost, 0) + labor.totalCost
+  };
+};
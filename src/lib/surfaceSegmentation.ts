@@ -0,0 +1,250 @@
+// On-device detection of paved surfaces in aerial images. A semantic segmentation
+// model runs on the CPU (WebAssembly) through transformers.js; the browser caches
+// it after the first download, or VITE_SEGMENTATION_MODEL_PATH serves it from this app.
+import type { PreTrainedModel, Processor } from '@huggingface/transformers';
+
+export interface SegmentedSurface {
+  outline: number[][]; // open [x, y] ring in image pixels, simplified
+  pixelArea: number; // square pixels
+  confidence: number; // mean probability of pavement across the surface's pixels
+  label: string; // the model class that covers most of it
+}
+
+const MODEL_ID = import.meta.env.VITE_SEGMENTATION_MODEL || 'Xenova/segformer-b0-finetuned-ade-512-512';
+// ADE20K classes that are pavement from above
+const PAVED_LABELS = ['road', 'sidewalk', 'path', 'runway', 'parking lot', 'driveway'];
+const MIN_PROBABILITY = 0.5;
+const MIN_SURFACE_FRACTION = 0.005; // of the image; smaller blobs are noise at this resolution
+const MAX_SURFACES = 12;
+const SIMPLIFY_TOLERANCE = 1; // model output cells
+
+let loading: Promise<{ model: PreTrainedModel; processor: Processor }> | null = null;
+
+// Loaded once, on first use; the library is split out of the main bundle
+const loadModel = () => {
+  if (!loading) {
+    loading = (async () => {
+      const { AutoModelForSemanticSegmentation, AutoProcessor, env } = await import('@huggingface/transformers');
+      const localPath = import.meta.env.VITE_SEGMENTATION_MODEL_PATH;
+      if (localPath) {
+        env.allowLocalModels = true;
+        env.allowRemoteModels = false;
+        env.localModelPath = localPath;
+      }
+
+      const [model, processor] = await Promise.all([
+        AutoModelForSemanticSegmentation.from_pretrained(MODEL_ID, { device: 'wasm', dtype: 'q8' }),
+        AutoProcessor.from_pretrained(MODEL_ID)
+      ]);
+      return { model, processor };
+    })();
+    // A failed download can be retried
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
+
+// Per cell: the pavement probability (softmax mass on the paved classes) and the
+// most likely paved class
+const pavementProbabilities = (logits: Float32Array, classes: number, cells: number, paved: number[]) => {
+  const probability = new Float32Array(cells);
+  const best = new Int32Array(cells);
+  for (let cell = 0; cell < cells; cell++) {
+    let max = -Infinity;
+    for (let c = 0; c < classes; c++) max = Math.max(max, logits[c * cells + cell]);
+    let total = 0;
+    for (let c = 0; c < classes; c++) total += Math.exp(logits[c * cells + cell] - max);
+
+    let pavedTotal = 0;
+    let bestScore = -Infinity;
+    for (const c of paved) {
+      const score = logits[c * cells + cell];
+      pavedTotal += Math.exp(score - max);
+      if (score > bestScore) {
+        bestScore = score;
+        best[cell] = c;
+      }
+    }
+    probability[cell] = pavedTotal / total;
+  }
+  return { probability, best };
+};
+
+// 4-connected regions of paved cells; returns a region number per cell (0 is none)
+const labelRegions = (mask: Uint8Array, width: number, height: number) => {
+  const regions = new Int32Array(width * height);
+  const sizes: number[] = [0];
+  const queue = new Int32Array(width * height);
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || regions[start]) continue;
+    const region = sizes.length;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    regions[start] = region;
+    while (head < tail) {
+      const cell = queue[head++];
+      const x = cell % width;
+      const neighbours = [
+        x > 0 ? cell - 1 : -1,
+        x < width - 1 ? cell + 1 : -1,
+        cell >= width ? cell - width : -1,
+        cell < width * (height - 1) ? cell + width : -1
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !regions[next]) {
+          regions[next] = region;
+          queue[tail++] = next;
+        }
+      }
+    }
+    sizes.push(tail);
+  }
+  return { regions, sizes };
+};
+
+const signedArea = (ring: number[][]) =>
+  ring.reduce((sum, [x1, y1], index) => {
+    const [x2, y2] = ring[(index + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0) / 2;
+
+// Follows the cell edges between a region and everything else. Every edge runs with
+// the region on one side, so the edges join into closed loops; the largest loop is
+// the outline and the rest are holes, which are left to exclusions.
+const traceOutline = (regions: Int32Array, region: number, width: number, height: number) => {
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && regions[y * width + x] === region;
+  const vertex = (x: number, y: number) => y * (width + 1) + x;
+  const edges = new Map<number, number[]>();
+  const addEdge = (from: number, to: number) => {
+    const list = edges.get(from);
+    if (list) list.push(to);
+    else edges.set(from, [to]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) addEdge(vertex(x, y), vertex(x + 1, y));
+      if (!inside(x + 1, y)) addEdge(vertex(x + 1, y), vertex(x + 1, y + 1));
+      if (!inside(x, y + 1)) addEdge(vertex(x + 1, y + 1), vertex(x, y + 1));
+      if (!inside(x - 1, y)) addEdge(vertex(x, y + 1), vertex(x, y));
+    }
+  }
+
+  let outline: number[][] = [];
+  for (const start of edges.keys()) {
+    const ring: number[][] = [];
+    let current = start;
+    while (edges.get(current)?.length) {
+      ring.push([current % (width + 1), Math.floor(current / (width + 1))]);
+      current = edges.get(current).pop();
+    }
+    if (ring.length > 2 && Math.abs(signedArea(ring)) > Math.abs(signedArea(outline))) outline = ring;
+  }
+  return outline;
+};
+
+// Douglas-Peucker: drops points within the tolerance of the line between their neighbours
+const simplifyPath = (points: number[][], tolerance: number): number[][] => {
+  if (points.length < 3) return points;
+  const [x1, y1] = points[0];
+  const [x2, y2] = points[points.length - 1];
+  const length = Math.hypot(x2 - x1, y2 - y1);
+
+  let farthest = 0;
+  let distance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [x, y] = points[i];
+    const d = length === 0
+      ? Math.hypot(x - x1, y - y1)
+      : Math.abs((y2 - y1) * x - (x2 - x1) * y + x2 * y1 - y2 * x1) / length;
+    if (d > distance) {
+      distance = d;
+      farthest = i;
+    }
+  }
+
+  if (distance <= tolerance) return [points[0], points[points.length - 1]];
+  const left = simplifyPath(points.slice(0, farthest + 1), tolerance);
+  return [...left.slice(0, -1), ...simplifyPath(points.slice(farthest), tolerance)];
+};
+
+// A closed ring is simplified as two paths, split at the point farthest from its first
+const simplifyRing = (ring: number[][], tolerance: number) => {
+  const [sx, sy] = ring[0];
+  let split = 0;
+  ring.forEach(([x, y], index) => {
+    if (Math.hypot(x - sx, y - sy) > Math.hypot(ring[split][0] - sx, ring[split][1] - sy)) split = index;
+  });
+  const first = simplifyPath(ring.slice(0, split + 1), tolerance);
+  const second = simplifyPath([...ring.slice(split), ring[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+// Model output (class logits over a grid smaller than the image) to paved surfaces
+// in image pixels, largest first
+const surfacesFromLogits = (
+  logits: Float32Array,
+  [classes, gridHeight, gridWidth]: number[],
+  labels: Record<number, string>,
+  imageWidth: number,
+  imageHeight: number
+): SegmentedSurface[] => {
+  const cells = gridWidth * gridHeight;
+  const paved = Object.entries(labels)
+    .filter(([, label]) => PAVED_LABELS.includes(label.split(',')[0].trim().toLowerCase()))
+    .map(([index]) => Number(index));
+  if (paved.length === 0) return [];
+
+  const { probability, best } = pavementProbabilities(logits, classes, cells, paved);
+  const mask = Uint8Array.from(probability, value => (value >= MIN_PROBABILITY ? 1 : 0));
+  const { regions, sizes } = labelRegions(mask, gridWidth, gridHeight);
+
+  const scaleX = imageWidth / gridWidth;
+  const scaleY = imageHeight / gridHeight;
+  return sizes
+    .map((size, region) => ({ size, region }))
+    .filter(({ region, size }) => region > 0 && size >= cells * MIN_SURFACE_FRACTION)
+    .sort((a, b) => b.size - a.size)
+    .slice(0, MAX_SURFACES)
+    .map(({ region }) => {
+      let total = 0;
+      let count = 0;
+      const classCounts = new Map<number, number>();
+      for (let cell = 0; cell < cells; cell++) {
+        if (regions[cell] !== region) continue;
+        total += probability[cell];
+        count++;
+        classCounts.set(best[cell], (classCounts.get(best[cell]) ?? 0) + 1);
+      }
+      const [label] = [...classCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+      const outline = simplifyRing(traceOutline(regions, region, gridWidth, gridHeight), SIMPLIFY_TOLERANCE)
+        .map(([x, y]) => [x * scaleX, y * scaleY]);
+      return {
+        outline,
+        pixelArea: Math.abs(signedArea(outline)),
+        confidence: total / count,
+        label: labels[label]
+      };
+    })
+    .filter(surface => surface.outline.length >= 3);
+};
+
+// Image as a URL (object URLs included) or a file
+export const segmentPavedSurfaces = async (image: Blob | string): Promise<SegmentedSurface[]> => {
+  const { RawImage } = await import('@huggingface/transformers');
+  const { model, processor } = await loadModel();
+  const raw = await RawImage.read(image);
+
+  const inputs = await processor(raw);
+  const { logits } = await model(inputs);
+  const [, classes, gridHeight, gridWidth] = logits.dims;
+  const labels = (model.config as { id2label?: Record<number, string> }).id2label ?? {};
+
+  return surfacesFromLogits(logits.data as Float32Array, [classes, gridHeight, gridWidth], labels, raw.width, raw.height);
+};
@@ -0,0 +1,104 @@
+// Types for job-site travel: yard to site each day, plus an optional supplier pickup
+export type LatLng = [number, number]; // [lat, lng], as returned by the geocoders
+
+export interface TravelStop {
+  name: string;
+  coordinates: LatLng;
+}
+
+export interface TravelSettings {
+  yard: TravelStop;
+  supplier: TravelStop | null;
+  roadFactor: number; // road miles per straight-line mile
+}
+
+export interface TravelPlan {
+  siteCoordinates?: LatLng;
+  routeMiles?: number; // one-way yard-to-site miles from a route, overrides the straight-line estimate
+  supplierPickup?: boolean; // stop at the supplier on the first day
+  vehicleName?: string;
+  vehicleMpg?: number;
+}
+
+export type TravelSource = 'route' | 'straight-line' | 'fixed';
+
+export interface TravelLeg {
+  from: string;
+  to: string;
+  miles: number;
+}
+
+export interface TravelEstimate {
+  source: TravelSource;
+  legs: TravelLeg[]; // one day's trip, plus the pickup detour when there is one
+  roundTripMiles: number; // per job day
+  supplierPickupMiles: number; // extra miles for the pickup, once per job
+  vehicleName: string;
+  mpg: number;
+}
+
+export const TRAVEL_SOURCE_LABELS: Record<TravelSource, string> = {
+  route: 'Route miles',
+  'straight-line': 'Straight-line with road factor',
+  fixed: 'Fixed regional distance'
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineMiles = ([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+export const DEFAULT_ROAD_FACTOR = 1.3;
+
+// Without a located job site the region's fixed round trip is used, as before
+export const calculateTravel = (
+  settings: TravelSettings | undefined,
+  plan: TravelPlan,
+  fallback: { roundTripDistance: number; mpg: number }
+): TravelEstimate => {
+  const vehicleName = plan.vehicleName ?? 'Default truck';
+  const mpg = plan.vehicleMpg && plan.vehicleMpg > 0 ? plan.vehicleMpg : fallback.mpg;
+
+  if (!settings || (!plan.siteCoordinates && !plan.routeMiles)) {
+    return {
+      source: 'fixed',
+      legs: [{ from: 'Yard', to: 'Job site and back', miles: fallback.roundTripDistance }],
+      roundTripMiles: fallback.roundTripDistance,
+      supplierPickupMiles: 0,
+      vehicleName,
+      mpg
+    };
+  }
+
+  const road = (from: LatLng, to: LatLng) => haversineMiles(from, to) * settings.roadFactor;
+  const yardToSite = plan.routeMiles ?? road(settings.yard.coordinates, plan.siteCoordinates!);
+  const legs: TravelLeg[] = [
+    { from: settings.yard.name, to: 'Job site', miles: yardToSite },
+    { from: 'Job site', to: settings.yard.name, miles: yardToSite }
+  ];
+
+  // Pickup replaces the first morning's drive with yard → supplier → site
+  let supplierPickupMiles = 0;
+  if (plan.supplierPickup && settings.supplier && plan.siteCoordinates) {
+    const toSupplier = road(settings.yard.coordinates, settings.supplier.coordinates);
+    const supplierToSite = road(settings.supplier.coordinates, plan.siteCoordinates);
+    supplierPickupMiles = Math.max(toSupplier + supplierToSite - yardToSite, 0);
+    legs.push({ from: `${settings.supplier.name} pickup`, to: 'Job site', miles: supplierPickupMiles });
+  }
+
+  return {
+    source: plan.routeMiles ? 'route' : 'straight-line',
+    legs,
+    roundTripMiles: yardToSite * 2,
+    supplierPickupMiles,
+    vehicleName,
+    mpg
+  };
+};
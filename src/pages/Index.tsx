@@ -1,8 +1,21 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import FallbackMap from '@/components/FallbackMap';
+import LiveMap from '@/components/GoogleMap';
 import MeasurementSidebar from '@/components/MeasurementSidebar';
 import AddressSearch from '@/components/AddressSearch';
 import JobTypeSelector from '@/components/JobTypeSelector';
+import CoatPlanSelector from '@/components/CoatPlanSelector';
+import StripingPlanSelector from '@/components/StripingPlanSelector';
+import RepairListEditor from '@/components/RepairListEditor';
+import TaxExemptionSelector from '@/components/TaxExemptionSelector';
+import PricingModeSelector from '@/components/PricingModeSelector';
+import CrewPlanEditor from '@/components/CrewPlanEditor';
+import EquipmentSelector from '@/components/EquipmentSelector';
+import TravelPlanner from '@/components/TravelPlanner';
+import WhatIfPanel from '@/components/WhatIfPanel';
+import ZoneListEditor from '@/components/ZoneListEditor';
+import ProjectPanel from '@/components/ProjectPanel';
 import { ThemeSelector, type Theme } from '@/components/ThemeSelector';
 import { EchoCommHUD } from '@/components/EchoCommHUD';
 import { GeminiMagicPanel } from '@/components/GeminiMagicPanel';
@@ -11,6 +24,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { 
   Ruler, 
   Upload, 
@@ -24,6 +40,20 @@ import {
   MapPin
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useRegionalPricing } from '@/hooks/useRegionalPricing';
+import { useFleetVehicles, useGeocodedSite } from '@/hooks/useJobTravel';
+import { calculationEngine, type CoatPlan, type CustomerType, type EstimateOptions } from '@/lib/calculationEngine';
+import type { StripingPlan } from '@/lib/stripingCalculator';
+import type { RepairItem } from '@/lib/repairCalculator';
+import { extractZipCode, type TaxExemption } from '@/lib/salesTax';
+import type { CrewPlan } from '@/lib/laborScheduler';
+import type { TravelPlan } from '@/lib/travelCalculator';
+import type { PricingMode } from '@/lib/marginPricing';
+import { addExclusion, createZone, totalZoneArea, type EstimateZone } from '@/lib/estimateZones';
+import { cracksFromGeoJSON, zonesFromGeoJSON, type CrackLine } from '@/lib/measurementGeometry';
+import { importedZones, type ImportedShape } from '@/lib/siteImport';
+import { loadSitePlan, SITE_PLAN_ACCEPT, SitePlanError, type SitePlanImage } from '@/lib/sitePlan';
+import { customerTaxExemption, type EstimateRecord, type Project } from '@/lib/database';
 import { toast } from 'sonner';
 import { 
   useKeyboardShortcuts, 
@@ -36,10 +66,30 @@ import {
 } from '@/components/ui/loading-states';
 
 const Index = () => {
-  const [area, setArea] = useState(0);
+  const [zones, setZones] = useState<EstimateZone[]>([]);
+  const [mapView, setMapView] = useState<'live' | 'sketch'>('live');
+  const [clearTrigger, setClearTrigger] = useState(0);
+  const [restoreTrigger, setRestoreTrigger] = useState(0);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [crackLength, setCrackLength] = useState(0); // from the sketch pad
+  const [crackLines, setCrackLines] = useState<CrackLine[]>([]); // traced on the live map
+  const [sitePlan, setSitePlan] = useState<SitePlanImage | null>(null); // measured on in the sketch pad
+  const planInput = useRef<HTMLInputElement>(null);
+  const [detectRequested, setDetectRequested] = useState(false);
   const [jobType, setJobType] = useState<'driveway' | 'parking-lot'>('driveway');
   const [address, setAddress] = useState('');
-  const [polygonCount, setPolygonCount] = useState(0);
+  const [region, setRegion] = useState('virginia');
+  const [customerType, setCustomerType] = useState<CustomerType>('residential');
+  const [coatPlan, setCoatPlan] = useState<Partial<CoatPlan>>({});
+  const [stripingPlan, setStripingPlan] = useState<Partial<StripingPlan>>({});
+  const [repairs, setRepairs] = useState<RepairItem[]>([]);
+  const [equipmentIds, setEquipmentIds] = useState<string[] | undefined>(undefined); // undefined picks the standard kit
+  const [crewPlan, setCrewPlan] = useState<Partial<CrewPlan>>({});
+  const [travelPlan, setTravelPlan] = useState<TravelPlan>({});
+  const [compareOptions, setCompareOptions] = useState(false);
+  const [pricingMode, setPricingMode] = useState<PricingMode>({ type: 'markup' });
+  const [taxExemption, setTaxExemption] = useState<TaxExemption | null>(null);
+  const [priceAsOf, setPriceAsOf] = useState(''); // YYYY-MM-DD; empty prices with today's rates
   const [currentTheme, setCurrentTheme] = useState<Theme>('default');
   const [isExporting, setIsExporting] = useState(false);
   const [exportType, setExportType] = useState<'pdf' | 'excel'>('pdf');
@@ -48,6 +98,14 @@ const Index = () => {
   const [lastCalculationTime, setLastCalculationTime] = useState<Date | null>(null);
   
   const { user, signOut } = useAuth();
+  const { isReady: pricingReady } = useRegionalPricing();
+  const { data: vehicles = [] } = useFleetVehicles();
+  const site = useGeocodedSite(address);
+  const navigate = useNavigate();
+
+  // Each drawn shape is its own zone; the job is all of them together
+  const area = totalZoneArea(zones);
+  const hasParkingLot = jobType === 'parking-lot' || zones.some(zone => zone.jobType === 'parking-lot');
 
   const handleSignOut = async () => {
     try {
@@ -58,16 +116,37 @@ const Index = () => {
     }
   };
 
-  const handlePolygonComplete = useCallback((newArea: number) => {
+  const handlePolygonComplete = useCallback((newArea: number, newPerimeter?: number, polygonId?: string, outline?: number[][]) => {
     setIsCalculating(true);
     // Simulate calculation time for better UX
     setTimeout(() => {
-      setArea(newArea);
-      setPolygonCount(prev => prev + 1);
+      setZones(current => [...current, createZone(current, newArea, newPerimeter, jobType, polygonId, outline)]);
       setLastCalculationTime(new Date());
       setIsCalculating(false);
       toast.success(`Area calculated: ${newArea.toFixed(0)} sq ft`);
     }, 500);
+  }, [jobType]);
+
+  // Exclusions drawn on the map are cut out of the zone they were drawn in
+  const handleExclusionComplete = useCallback((polygonId: string, excludedArea: number, outline?: number[][]) => {
+    setZones(current =>
+      current.map(zone => (zone.id === polygonId ? addExclusion(zone, 'island', excludedArea, outline) : zone))
+    );
+    setLastCalculationTime(new Date());
+    toast.success(`Excluded ${excludedArea.toFixed(0)} sq ft`);
+  }, []);
+
+  // Vertex edits on the map resize their zone as they happen
+  const handlePolygonChange = useCallback((polygonId: string, newArea: number, newPerimeter: number, outline: number[][]) => {
+    setZones(current =>
+      current.map(zone => (zone.id === polygonId ? { ...zone, area: newArea, perimeter: newPerimeter, outline } : zone))
+    );
+    setLastCalculationTime(new Date());
+  }, []);
+
+  const handleCrackComplete = useCallback((length: number, path: number[][]) => {
+    setCrackLines(current => [...current, { id: Date.now().toString(), length, path }]);
+    setLastCalculationTime(new Date());
   }, []);
 
   const handleAddressSelect = useCallback((selectedAddress: string) => {
@@ -91,12 +170,111 @@ const Index = () => {
   }, []);
 
   const handleClearMeasurements = useCallback(() => {
-    setArea(0);
-    setPolygonCount(0);
+    setZones([]);
+    setCrackLines([]);
+    setLastCalculationTime(null);
+    setClearTrigger(current => current + 1);
+  }, []);
+
+  const handleShapesCleared = useCallback(() => {
+    setZones([]);
+    setCrackLines([]);
+    setLastCalculationTime(null);
+  }, []);
+
+  const handleZoneShapesRemoved = useCallback(() => {
+    setRestoreTrigger(current => current + 1);
+  }, []);
+
+  // Imported site plans join the drawn zones and are redrawn with them
+  const handleShapesImported = useCallback((shapes: ImportedShape[]) => {
+    setZones(current => [...current, ...importedZones(shapes, current, jobType)]);
+    setRestoreTrigger(current => current + 1);
+    setLastCalculationTime(new Date());
+  }, [jobType]);
+
+  // Reopening a project puts its saved zones back on the map
+  const handleProjectOpen = useCallback((project: Project) => {
+    setProjectId(project.id);
+    setAddress(project.address);
+    setJobType(project.job_type);
+    setRegion(project.region);
+    setCustomerType(project.customer_type);
+    setTaxExemption(customerTaxExemption(project.customer));
+    setZones(zonesFromGeoJSON(project.measurements));
+    setCrackLines(cracksFromGeoJSON(project.measurements));
+    setRestoreTrigger(current => current + 1);
+    setLastCalculationTime(new Date());
+    toast.success(`Opened ${project.name}`);
+  }, []);
+
+  // Shows the geometry an earlier quote was priced from
+  const handleVersionShow = useCallback((record: EstimateRecord) => {
+    setZones(zonesFromGeoJSON(record.measurements));
+    setCrackLines(cracksFromGeoJSON(record.measurements));
+    setRestoreTrigger(current => current + 1);
+    setLastCalculationTime(new Date());
+    toast.success(`Showing measurements from v${record.version}`);
+  }, []);
+
+  const handleNewProject = useCallback(() => {
+    setProjectId(null);
+    setTaxExemption(null);
+    setZones([]);
+    setCrackLines([]);
     setLastCalculationTime(null);
-    // This would also clear the map polygons in a real implementation
+    setClearTrigger(current => current + 1);
   }, []);
 
+  // Sketch pad shapes have no outline; when the pad is cleared or replaced they
+  // stop counting, and map zones stay
+  const handleSketchCleared = useCallback(() => {
+    setZones(current => current.filter(zone => zone.outline));
+    setCrackLength(0);
+    setLastCalculationTime(new Date());
+  }, []);
+
+  // Uploaded plans and photos replace the sketch pad's demo area
+  const handlePlanUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const plan = await loadSitePlan(file);
+      setSitePlan(current => {
+        if (current) URL.revokeObjectURL(current.url);
+        return plan;
+      });
+      handleSketchCleared();
+      setMapView('sketch');
+      toast.success(`Loaded ${plan.name}; set the scale to start measuring`);
+    } catch (error) {
+      console.error('Site plan load failed:', error);
+      toast.error(error instanceof SitePlanError ? error.message : 'Failed to load the site plan');
+    }
+  }, [handleSketchCleared]);
+
+  const handlePlanRemove = useCallback(() => {
+    setSitePlan(current => {
+      if (current) URL.revokeObjectURL(current.url);
+      return null;
+    });
+    handleSketchCleared();
+  }, [handleSketchCleared]);
+
+  // AI Takeoff runs on the uploaded plan, in the sketch pad where its scale is set
+  const handleAiTakeoff = useCallback(() => {
+    if (!sitePlan) {
+      toast.error('Upload an aerial image or site plan first');
+      return;
+    }
+    setMapView('sketch');
+    setDetectRequested(true);
+  }, [sitePlan]);
+
+  const handleDetectStart = useCallback(() => setDetectRequested(false), []);
+
   const handleToggleDrawing = useCallback(() => {
     // This would toggle the drawing mode on the map
     toast.info('Drawing mode toggled');
@@ -167,19 +345,62 @@ const Index = () => {
     }).format(amount);
   };
 
+  // Saved pricing loads after mount; wait for it so estimates use the company's rates
+  const regionOptions = useMemo(
+    () => (pricingReady ? calculationEngine.getRegionOptions() : []),
+    [pricingReady]
+  );
+
+  // Options shared by the estimate and the option packages
+  const estimateOptions = useMemo<EstimateOptions>(
+    () => ({
+      coatPlan,
+      zones,
+      crackLength: crackLength + crackLines.reduce((sum, crack) => sum + crack.length, 0),
+      // Striping only applies to parking lots
+      striping: hasParkingLot ? stripingPlan : undefined,
+      repairs,
+      asOf: priceAsOf ? new Date(`${priceAsOf}T00:00:00`) : undefined,
+      // Local tax follows the job site's zip code
+      taxLocation: { zipCode: extractZipCode(address) },
+      taxExemption,
+      crew: crewPlan,
+      equipment: equipmentIds,
+      // Travel is priced from the yard to the geocoded job site
+      travel: { ...travelPlan, siteCoordinates: site.data?.coordinates },
+      pricingMode
+    }),
+    [zones, crackLength, crackLines, hasParkingLot, address, coatPlan, stripingPlan, repairs, priceAsOf, taxExemption, crewPlan, equipmentIds, travelPlan, site.data, pricingMode]
+  );
+
+  // Single estimate shared by the header, sidebar and exports
+  const estimate = useMemo(() => {
+    if (area === 0 || !pricingReady) return null;
+    return calculationEngine.calculateDetailedEstimate(area, jobType, address, region, customerType, estimateOptions);
+  }, [area, jobType, address, region, customerType, estimateOptions, pricingReady]);
+
+  // Good/Better/Best packages priced from the same measurements
+  const packages = useMemo(() => {
+    if (!compareOptions || area === 0 || !pricingReady) return undefined;
+    return calculationEngine.calculatePackages(area, jobType, address, region, customerType, estimateOptions);
+  }, [compareOptions, area, jobType, address, region, customerType, estimateOptions, pricingReady]);
+
+  // Compare historical pricing against today's rates
+  const repricing = useMemo(
+    () => (estimate && priceAsOf ? calculationEngine.repriceEstimate(estimate) : null),
+    [estimate, priceAsOf]
+  );
+
   // Calculate quick stats for header display
   const quickStats = useMemo(() => {
-    if (area === 0) return null;
-    
-    const pricePerSqFt = 2.50; // Rough estimate
-    const estimatedCost = area * pricePerSqFt;
+    if (!estimate) return null;
     
     return {
       area: area.toFixed(0),
-      estimatedCost: formatCurrency(estimatedCost),
+      estimatedCost: formatCurrency(estimate.pricing.finalTotal),
       lastUpdated: lastCalculationTime?.toLocaleTimeString() || 'Never'
     };
-  }, [area, lastCalculationTime]);
+  }, [area, estimate, lastCalculationTime]);
 
   return (
     <div className={`min-h-screen ${getThemeClasses()}`}>
@@ -240,17 +461,29 @@ const Index = () => {
               
               <Badge variant="secondary" className="flex items-center gap-1">
                 <Ruler className="h-3 w-3" />
-                {polygonCount} Areas Measured
+                {zones.length} Areas Measured
               </Badge>
               
               {/* Enhanced Action Buttons */}
               <div className="flex items-center gap-2">
-                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => planInput.current?.click()}
+                >
                   <Upload className="h-4 w-4" />
                   <span className="hidden sm:inline">Upload Image</span>
                 </Button>
+                <input
+                  ref={planInput}
+                  type="file"
+                  accept={SITE_PLAN_ACCEPT}
+                  className="hidden"
+                  onChange={handlePlanUpload}
+                />
                 
-                <Button size="sm" className="flex items-center gap-2">
+                <Button size="sm" className="flex items-center gap-2" onClick={handleAiTakeoff}>
                   <Zap className="h-4 w-4" />
                   <span className="hidden sm:inline">AI Takeoff</span>
                 </Button>
@@ -265,6 +498,16 @@ const Index = () => {
                   <span className="hidden md:inline">Shortcuts</span>
                 </Button>
                 
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => navigate('/admin/pricing')}
+                  className="flex items-center gap-2"
+                >
+                  <Settings className="h-4 w-4" />
+                  <span className="hidden md:inline">Pricing</span>
+                </Button>
+                
                 <Button 
                   variant="outline" 
                   size="sm"
@@ -323,6 +566,27 @@ const Index = () => {
               <div className={`w-80 border-r border-border p-4 space-y-4 ${
                 currentTheme === 'tactical-comm' ? 'bg-black/80 border-green-500/30' : 'bg-card'
               }`}>
+                <Card className={currentTheme === 'tactical-comm' ? 'bg-black/80 border-green-500/30' : ''}>
+                  <CardHeader>
+                    <CardTitle className={currentTheme === 'tactical-comm' ? 'text-green-400 font-mono' : 'text-primary'}>
+                      {currentTheme === 'tactical-comm' ? 'MISSION ARCHIVE' : 'Saved Projects'}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ProjectPanel
+                      projectId={projectId}
+                      estimate={estimate}
+                      zones={zones}
+                      cracks={crackLines}
+                      taxExemption={taxExemption}
+                      onProjectOpen={handleProjectOpen}
+                      onProjectSaved={setProjectId}
+                      onVersionShow={handleVersionShow}
+                      onNewProject={handleNewProject}
+                    />
+                  </CardContent>
+                </Card>
+
                 <Card className={currentTheme === 'tactical-comm' ? 'bg-black/80 border-green-500/30' : ''}>
                   <CardHeader>
                     <CardTitle className={currentTheme === 'tactical-comm' ? 'text-green-400 font-mono' : 'text-primary'}>
@@ -350,6 +614,171 @@ const Index = () => {
                         onTypeChange={setJobType}
                       />
                     </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'TARGET SECTORS' : 'Areas'}
+                      </label>
+                      <ZoneListEditor zones={zones} onZonesChange={setZones} onShapesRemoved={handleZoneShapesRemoved} />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'OPERATION REGION' : 'Pricing Region'}
+                      </label>
+                      <Select value={region} onValueChange={setRegion}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {regionOptions.map(option => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'CLIENT CLASS' : 'Customer Type'}
+                      </label>
+                      <Select value={customerType} onValueChange={(value) => setCustomerType(value as CustomerType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="residential">Residential</SelectItem>
+                          <SelectItem value="commercial">Commercial</SelectItem>
+                          <SelectItem value="industrial">Industrial</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'PRICING PROTOCOL' : 'Pricing Mode'}
+                      </label>
+                      <PricingModeSelector mode={pricingMode} onModeChange={setPricingMode} />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <label htmlFor="compare-options" className={`text-sm font-medium ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'OPTION MATRIX' : 'Compare Good / Better / Best'}
+                      </label>
+                      <Switch id="compare-options" checked={compareOptions} onCheckedChange={setCompareOptions} />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'TAX STATUS' : 'Sales Tax'}
+                      </label>
+                      <TaxExemptionSelector exemption={taxExemption} onExemptionChange={setTaxExemption} />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'PRICE DATE' : 'Price As Of'}
+                      </label>
+                      <Input
+                        type="date"
+                        value={priceAsOf}
+                        max={new Date().toISOString().slice(0, 10)}
+                        onChange={(e) => setPriceAsOf(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Leave blank to use today's pricing
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'APPLICATION PROTOCOL' : 'Coat Plan'}
+                      </label>
+                      <CoatPlanSelector plan={coatPlan} onPlanChange={setCoatPlan} />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'CREW ROSTER' : 'Crew'}
+                      </label>
+                      <CrewPlanEditor
+                        plan={crewPlan}
+                        defaultRate={pricingReady ? calculationEngine.getRegionalPricing(region)?.labor.hourlyRate ?? 0 : 0}
+                        onPlanChange={setCrewPlan}
+                      />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'ROUTE PLANNING' : 'Travel'}
+                      </label>
+                      <TravelPlanner
+                        plan={travelPlan}
+                        settings={pricingReady ? calculationEngine.getTravelSettings(region) : undefined}
+                        vehicles={vehicles}
+                        siteStatus={
+                          !address.trim() ? 'idle' : site.isLoading ? 'locating' : site.data ? 'located' : 'not-found'
+                        }
+                        travel={estimate?.expenses.fuel.travel}
+                        onPlanChange={setTravelPlan}
+                      />
+                    </div>
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'EQUIPMENT LOADOUT' : 'Equipment'}
+                      </label>
+                      <EquipmentSelector
+                        catalog={pricingReady ? calculationEngine.getEquipmentCatalog(region) : []}
+                        selectedIds={equipmentIds ?? estimate?.expenses.equipment.items.map(item => item.equipment.id) ?? []}
+                        isCustom={equipmentIds !== undefined}
+                        onSelectionChange={setEquipmentIds}
+                      />
+                    </div>
+
+                    {hasParkingLot && (
+                      <div>
+                        <label className={`text-sm font-medium mb-2 block ${
+                          currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                        }`}>
+                          {currentTheme === 'tactical-comm' ? 'MARKING PROTOCOL' : 'Striping & Markings'}
+                        </label>
+                        <StripingPlanSelector plan={stripingPlan} onPlanChange={setStripingPlan} />
+                      </div>
+                    )}
+
+                    <div>
+                      <label className={`text-sm font-medium mb-2 block ${
+                        currentTheme === 'tactical-comm' ? 'text-green-300' : 'text-foreground'
+                      }`}>
+                        {currentTheme === 'tactical-comm' ? 'REPAIR ORDERS' : 'Repairs & Patching'}
+                      </label>
+                      <RepairListEditor repairs={repairs} onRepairsChange={setRepairs} />
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -365,7 +794,7 @@ const Index = () => {
                     }`}>
                       <p>{currentTheme === 'tactical-comm' ? '1. INPUT TARGET COORDINATES' : '1. Enter the job site address above'}</p>
                       <p>{currentTheme === 'tactical-comm' ? '2. SELECT OPERATION TYPE' : '2. Select job type (driveway or parking lot)'}</p>
-                      <p>{currentTheme === 'tactical-comm' ? '3. DEPLOY MEASUREMENT TOOLS' : '3. Use the polygon tool to draw measurement areas'}</p>
+                      <p>{currentTheme === 'tactical-comm' ? '3. DEPLOY MEASUREMENT TOOLS' : '3. Draw measurement areas, then use Edit Shapes to drag or add points'}</p>
                       <p>{currentTheme === 'tactical-comm' ? '4. ANALYZE TACTICAL DATA' : '4. View automatic cost calculations in the sidebar'}</p>
                       <p>{currentTheme === 'tactical-comm' ? '5. GENERATE MISSION REPORT' : '5. Export estimates as PDF or Excel'}</p>
                     </div>
@@ -375,12 +804,60 @@ const Index = () => {
 
               {/* Map Container */}
               <div className="flex-1 relative">
+                <div className="flex gap-2 mb-2">
+                  <Button
+                    size="sm"
+                    variant={mapView === 'live' ? 'default' : 'outline'}
+                    onClick={() => setMapView('live')}
+                  >
+                    Satellite Map
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={mapView === 'sketch' ? 'default' : 'outline'}
+                    onClick={() => setMapView('sketch')}
+                  >
+                    Sketch Pad
+                  </Button>
+                </div>
                 <div className={currentTheme === 'tactical-comm' ? 'border border-green-500/30' : ''}>
-                  <FallbackMap 
-                    onPolygonComplete={handlePolygonComplete}
-                    onAddressSelect={handleAddressSelect}
-                  />
+                  {mapView === 'live' && (
+                    <LiveMap
+                      onPolygonComplete={handlePolygonComplete}
+                      onPolygonChange={handlePolygonChange}
+                      onExclusionComplete={handleExclusionComplete}
+                      onCrackComplete={handleCrackComplete}
+                      onShapesCleared={handleShapesCleared}
+                      onShapesImported={handleShapesImported}
+                      onAddressSelect={handleAddressSelect}
+                      clearTrigger={clearTrigger}
+                      restoreZones={zones}
+                      restoreCracks={crackLines}
+                      restoreTrigger={restoreTrigger}
+                    />
+                  )}
+                  {/* Kept mounted while hidden: the pad holds its shapes and plan scale itself */}
+                  <div className={mapView === 'sketch' ? undefined : 'hidden'}>
+                    <FallbackMap 
+                      key={sitePlan?.url ?? 'demo'}
+                      onPolygonComplete={handlePolygonComplete}
+                      onExclusionComplete={handleExclusionComplete}
+                      onCrackLengthChange={setCrackLength}
+                      onShapesCleared={handleSketchCleared}
+                      onAddressSelect={handleAddressSelect}
+                      sitePlan={sitePlan}
+                      onSitePlanRemove={handlePlanRemove}
+                      detectRequested={detectRequested}
+                      onDetectStart={handleDetectStart}
+                    />
+                  </div>
                 </div>
+
+                {estimate && (
+                  <div className="mt-6">
+                    <WhatIfPanel estimate={estimate} />
+                  </div>
+                )}
               </div>
 
               {/* Right Sidebar */}
@@ -388,9 +865,10 @@ const Index = () => {
                 <MeasurementSidebarSkeleton />
               ) : (
                 <MeasurementSidebar
-                  area={area}
-                  jobType={jobType}
-                  address={address}
+                  estimate={estimate}
+                  repricing={repricing}
+                  packages={packages}
+                  crackLines={crackLines}
                   onExport={handleExport}
                 />
               )}
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Download, Save, Upload } from "lucide-react";
+import { toast } from "sonner";
+import PricingImportPreview from "@/components/PricingImportPreview";
+import PricingTiersEditor from "@/components/PricingTiersEditor";
+import { calculationEngine, DEFAULT_PRICING_TIERS, type RegionalPricing } from "@/lib/calculationEngine";
+import { validateRegionalPricing, type PricingImportPreview as ImportPreview } from "@/lib/pricingSchema";
+import { DEFAULT_LABOR_SCHEDULING } from "@/lib/laborScheduler";
+import { useRegionalPricing, useRegionalPricingHistory } from "@/hooks/useRegionalPricing";
+
+interface PricingField {
+  label: string;
+  path: string[];
+  percent?: boolean;
+  step?: number;
+  min?: number; // defaults to 0
+}
+
+const FIELD_GROUPS: { title: string; description: string; fields: PricingField[] }[] = [
+  {
+    title: "Materials",
+    description: "Supplier prices per unit",
+    fields: [
+      { label: "Sealer ($/gal)", path: ["materials", "sealer", "pricePerGallon"], step: 0.01 },
+      { label: "Sealer coverage (sq ft/gal)", path: ["materials", "sealer", "coverageRate"], step: 0.01 },
+      { label: "Sand ($/bag)", path: ["materials", "sand", "pricePerBag"], step: 0.01 },
+      { label: "Fast Dry ($/bucket)", path: ["materials", "fastDry", "pricePerBucket"], step: 0.01 },
+      { label: "Prep Seal ($/bucket)", path: ["materials", "prepSeal", "pricePerBucket"], step: 0.01 },
+      { label: "Crack Filler ($/box)", path: ["materials", "crackFiller", "pricePerBox"], step: 0.01 },
+      { label: "Propane ($/tank)", path: ["materials", "propane", "pricePerTank"], step: 0.01 },
+    ],
+  },
+  {
+    title: "Labor",
+    description: "Crew rates and production",
+    fields: [
+      { label: "Hourly rate ($)", path: ["labor", "hourlyRate"], step: 0.5 },
+      { label: "Hours per sq ft", path: ["labor", "hoursPerSqFt"], step: 0.0001 },
+      { label: "Minimum hours", path: ["labor", "minimumHours"], step: 0.5 },
+      { label: "Overtime multiplier", path: ["labor", "overtimeMultiplier"], step: 0.1 },
+    ],
+  },
+  {
+    title: "Scheduling",
+    description: "Workday limits and per-day job costs",
+    fields: [
+      { label: "Regular hours per day", path: ["labor", "scheduling", "regularHoursPerDay"], step: 0.5 },
+      { label: "Max hours per day", path: ["labor", "scheduling", "maxHoursPerDay"], step: 0.5 },
+      { label: "Mobilization per day ($)", path: ["labor", "scheduling", "mobilizationPerDay"], step: 5 },
+      { label: "Average drive speed (mph)", path: ["labor", "scheduling", "driveSpeedMph"], step: 1 },
+      { label: "Cure between coats (hrs)", path: ["labor", "scheduling", "cureHoursBetweenCoats"], step: 0.5 },
+    ],
+  },
+  {
+    title: "Tax & Business Costs",
+    description: "Rates applied to every estimate",
+    fields: [
+      { label: "Default sales tax (%)", path: ["taxRate"], percent: true, step: 0.01 },
+      { label: "Insurance (%)", path: ["businessCosts", "insuranceRate"], percent: true, step: 0.1 },
+      { label: "Small tools per job ($)", path: ["businessCosts", "equipmentDepreciation"], step: 1 },
+      { label: "Permits per job ($)", path: ["businessCosts", "permitCosts"], step: 1 },
+    ],
+  },
+  {
+    title: "Fuel",
+    description: "Fuel price, and fallbacks for jobs without a located site or truck",
+    fields: [
+      { label: "Fuel ($/gal)", path: ["fuel", "pricePerGallon"], step: 0.01 },
+      { label: "Default truck MPG", path: ["fuel", "mpg"], step: 0.5 },
+      { label: "Fallback round trip (miles)", path: ["fuel", "roundTripDistance"], step: 1 },
+    ],
+  },
+  {
+    title: "Travel",
+    description: "Yard and supplier locations used to price the drive to each job",
+    fields: [
+      { label: "Yard latitude", path: ["travel", "yard", "coordinates", "0"], step: 0.0001, min: -90 },
+      { label: "Yard longitude", path: ["travel", "yard", "coordinates", "1"], step: 0.0001, min: -180 },
+      { label: "Supplier latitude", path: ["travel", "supplier", "coordinates", "0"], step: 0.0001, min: -90 },
+      { label: "Supplier longitude", path: ["travel", "supplier", "coordinates", "1"], step: 0.0001, min: -180 },
+      { label: "Road factor (× straight line)", path: ["travel", "roadFactor"], step: 0.05, min: 1 },
+    ],
+  },
+];
+
+// Undefined when part of the path is missing, e.g. a region without a supplier
+const getIn = (pricing: RegionalPricing, path: string[]): number | undefined =>
+  path.reduce<unknown>((value, key) => (value as Record<string, unknown> | null | undefined)?.[key], pricing) as
+    | number
+    | undefined;
+
+const setIn = <T,>(target: T, path: string[], value: number): T => {
+  const [key, ...rest] = path;
+  const next = (current: unknown) => (rest.length > 0 ? setIn(current, rest, value) : value);
+  // Coordinates are [lat, lng] tuples and must stay arrays
+  if (Array.isArray(target)) {
+    return target.map((item, index) => (index === Number(key) ? next(item) : item)) as T;
+  }
+  const source = target as Record<string, unknown>;
+  return { ...source, [key]: next(source[key]) } as T;
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const PricingAdmin = () => {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { records, savePricing, isSaving, importPricing } = useRegionalPricing();
+  const regionOptions = calculationEngine.getRegionOptions();
+
+  const [region, setRegion] = useState("virginia");
+  const [draft, setDraft] = useState<RegionalPricing | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [pendingImport, setPendingImport] = useState<{ json: string; preview: ImportPreview } | null>(null);
+  const { data: history = [] } = useRegionalPricingHistory(region);
+  // Checked like an import, so a cleared or zero field can't be saved into every estimate
+  const issues = useMemo(() => (draft ? validateRegionalPricing(region, draft) : []), [draft, region]);
+
+  // Reset the draft whenever the region changes or saved pricing reloads; the
+  // engine holds the version currently in effect. Optional sections are filled
+  // with defaults so every field has a value to edit.
+  useEffect(() => {
+    const pricing = calculationEngine.getRegionalPricing(region);
+    setDraft(
+      pricing
+        ? {
+            ...pricing,
+            labor: { scheduling: DEFAULT_LABOR_SCHEDULING, ...pricing.labor },
+            travel: calculationEngine.getTravelSettings(region),
+          }
+        : null
+    );
+  }, [region, records]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (issues.length > 0) {
+      toast.error("Fix the highlighted pricing fields before saving");
+      return;
+    }
+    try {
+      await savePricing({
+        region,
+        pricing: draft,
+        effectiveFrom: new Date(`${effectiveFrom}T00:00:00`),
+        notes: notes.trim() || undefined,
+      });
+      setNotes("");
+    } catch (error) {
+      console.error("Pricing save failed:", error);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([calculationEngine.exportRegionalPricing()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `regional-pricing-${today()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Validate first; nothing is applied until the preview is confirmed
+  const handleImportFile = async (file: File) => {
+    try {
+      const json = await file.text();
+      setPendingImport({ json, preview: calculationEngine.previewRegionalPricingImport(json) });
+    } catch (error) {
+      console.error("Pricing file read failed:", error);
+      toast.error("Failed to read pricing file");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!pendingImport) return;
+    try {
+      await importPricing(pendingImport.json, new Date(`${effectiveFrom}T00:00:00`));
+      setPendingImport(null);
+    } catch (error) {
+      console.error("Pricing import failed:", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Regional Pricing</h1>
+              <p className="text-sm text-muted-foreground">Material prices, labor rates and tax rates by region</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+            />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label>Region</Label>
+              <Select value={region} onValueChange={setRegion}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {regionOptions.map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="effective-from">Effective from</Label>
+              <Input
+                id="effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="pricing-notes">Change notes</Label>
+              <Input
+                id="pricing-notes"
+                placeholder="e.g. SealMaster spring price list"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSave} disabled={!draft || isSaving || issues.length > 0}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? "Saving..." : "Save New Version"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {issues.length > 0 && (
+          <Card className="border-destructive">
+            <CardHeader>
+              <CardTitle>Pricing can't be saved</CardTitle>
+              <CardDescription>Fix these fields to save a new version</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2">
+                {issues.map((issue, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                    <span>
+                      <code className="font-mono">{issue.path}</code>: {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {draft && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {FIELD_GROUPS.filter(group => group.fields.some(field => getIn(draft, field.path) !== undefined)).map(group => (
+              <Card key={group.title}>
+                <CardHeader>
+                  <CardTitle>{group.title}</CardTitle>
+                  <CardDescription>{group.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-4">
+                  {group.fields.map(field => {
+                    const value = getIn(draft, field.path);
+                    if (value === undefined) return null;
+                    const invalid = issues.some(issue => issue.path === [region, ...field.path].join("."));
+                    return (
+                      <div key={field.path.join(".")}>
+                        <Label className="text-xs">{field.label}</Label>
+                        <Input
+                          type="number"
+                          min={field.min ?? 0}
+                          step={field.step}
+                          className={invalid ? "border-destructive" : undefined}
+                          value={Number.isNaN(value) ? "" : field.percent ? Number((value * 100).toFixed(4)) : value}
+                          onChange={(e) => {
+                            // A cleared field is missing, not zero
+                            const input = e.target.value.trim() === "" ? NaN : Number(e.target.value);
+                            setDraft(setIn(draft, field.path, field.percent ? input / 100 : input));
+                          }}
+                        />
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {draft && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Tiers</CardTitle>
+              <CardDescription>Markups, minimum charges and volume discounts by customer type</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PricingTiersEditor
+                tiers={draft.tiers ?? DEFAULT_PRICING_TIERS}
+                onTiersChange={(tiers) => setDraft({ ...draft, tiers })}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Version History</CardTitle>
+            <CardDescription>Every save is kept; estimates use the latest version in effect</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved versions yet. This region is using the built-in default pricing.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Effective From</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((record, index) => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        v{record.version}
+                        {index === 0 && <Badge variant="secondary" className="ml-2">Latest</Badge>}
+                      </TableCell>
+                      <TableCell>{new Date(record.effective_from).toLocaleDateString()}</TableCell>
+                      <TableCell>{record.created_at ? new Date(record.created_at).toLocaleString() : ""}</TableCell>
+                      <TableCell className="text-muted-foreground">{record.notes}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <PricingImportPreview
+        preview={pendingImport?.preview ?? null}
+        isApplying={isSaving}
+        onApply={handleApplyImport}
+        onCancel={() => setPendingImport(null)}
+      />
+    </div>
+  );
+};
+
+export default PricingAdmin;
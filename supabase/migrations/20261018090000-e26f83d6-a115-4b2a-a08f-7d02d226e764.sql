@@ -0,0 +1,78 @@
+-- Company-scoped, versioned regional pricing
+
+-- 1. Link user profiles to the company whose pricing they use
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_company_id ON public.user_profiles(company_id);
+
+-- 2. Regional pricing table (created by 001_initial_schema.sql on fresh installs)
+CREATE TABLE IF NOT EXISTS public.regional_pricing (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  region VARCHAR(100) NOT NULL,
+  state VARCHAR(10) NOT NULL,
+  pricing_data JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- 3. Versioning: every save inserts a new row that takes effect on effective_from
+ALTER TABLE public.regional_pricing DROP CONSTRAINT IF EXISTS regional_pricing_region_key;
+
+ALTER TABLE public.regional_pricing
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Rows without a company are the shared defaults
+CREATE UNIQUE INDEX IF NOT EXISTS idx_regional_pricing_company_region_version
+  ON public.regional_pricing (COALESCE(company_id, '00000000-0000-0000-0000-000000000000'::uuid), region, version);
+
+CREATE INDEX IF NOT EXISTS idx_regional_pricing_effective_from
+  ON public.regional_pricing (company_id, region, effective_from DESC);
+
+COMMENT ON COLUMN public.regional_pricing.company_id IS 'Owning company; NULL for the shared default pricing';
+COMMENT ON COLUMN public.regional_pricing.version IS 'Incrementing version per company and region';
+COMMENT ON COLUMN public.regional_pricing.effective_from IS 'When this version starts applying to new estimates';
+
+-- 4. Policies: company members read their pricing and the shared defaults, admins write
+ALTER TABLE public.regional_pricing ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view active regional pricing" ON public.regional_pricing;
+DROP POLICY IF EXISTS "Users can manage their own regional pricing" ON public.regional_pricing;
+
+CREATE POLICY "Company members can view regional pricing"
+ON public.regional_pricing
+FOR SELECT
+USING (
+  company_id IS NULL
+  OR company_id IN (SELECT company_id FROM public.user_profiles WHERE id = auth.uid())
+);
+
+CREATE POLICY "Company admins can add regional pricing versions"
+ON public.regional_pricing
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE id = auth.uid()
+    AND (is_admin = true OR role IN ('admin', 'super_admin'))
+    AND (regional_pricing.company_id = user_profiles.company_id OR role = 'super_admin')
+  )
+);
+
+CREATE POLICY "Company admins can retire regional pricing versions"
+ON public.regional_pricing
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE id = auth.uid()
+    AND (is_admin = true OR role IN ('admin', 'super_admin'))
+    AND (regional_pricing.company_id = user_profiles.company_id OR role = 'super_admin')
+  )
+);
@@ -0,0 +1,9 @@
+-- Tax-exempt customers (churches, government agencies, schools)
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS tax_exempt_reason TEXT
+    CHECK (tax_exempt_reason IN ('government', 'religious', 'nonprofit', 'school', 'resale', 'other')),
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate TEXT;
+
+COMMENT ON COLUMN public.customers.tax_exempt_reason IS 'Why the customer is exempt from sales tax';
+COMMENT ON COLUMN public.customers.tax_exempt_certificate IS 'Exemption certificate number; required for the exemption to apply';
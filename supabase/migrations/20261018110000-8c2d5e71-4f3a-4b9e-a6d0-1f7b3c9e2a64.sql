@@ -0,0 +1,6 @@
+-- Truck fuel economy, for pricing travel to the job site
+
+ALTER TABLE public.fleet_vehicles
+  ADD COLUMN IF NOT EXISTS mpg NUMERIC CHECK (mpg > 0);
+
+COMMENT ON COLUMN public.fleet_vehicles.mpg IS 'Average miles per gallon towing the usual trailer';
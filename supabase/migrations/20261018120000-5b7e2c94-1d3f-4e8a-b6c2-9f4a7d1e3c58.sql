@@ -0,0 +1,10 @@
+-- Drawn measurements as GeoJSON, on the project and on each estimate version
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS measurements JSONB;
+
+ALTER TABLE public.estimates
+  ADD COLUMN IF NOT EXISTS measurements JSONB;
+
+COMMENT ON COLUMN public.projects.measurements IS 'Current measured zones as a GeoJSON FeatureCollection';
+COMMENT ON COLUMN public.estimates.measurements IS 'Measured zones this estimate version was priced from, as a GeoJSON FeatureCollection';
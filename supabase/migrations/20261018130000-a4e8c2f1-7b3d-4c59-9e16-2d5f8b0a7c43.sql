@@ -0,0 +1,6 @@
+-- Exemption certificates lapse; tax is charged on estimates dated after this
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS tax_exempt_expires_on DATE;
+
+COMMENT ON COLUMN public.customers.tax_exempt_expires_on IS 'Last day the exemption certificate is valid; null if it does not expire';